@@ -9,7 +9,7 @@
  *
  * This computes the function selectors for:
  *   - check_password_and_mint on the PoP contract
- *   - swap_tokens_for_exact_tokens_from on the AMM contract
+ *   - swap_tokens_for_exact_tokens_from on every pool's AMM contract
  * and writes them to the network config with configIndex=0.
  */
 
@@ -59,7 +59,9 @@ async function main() {
 
   console.log(`PoP contract: ${config.contracts.pop}`);
   console.log(`  check_password_and_mint selector: ${popSelector.toString()}`);
-  console.log(`AMM contract: ${config.contracts.amm}`);
+  for (const pool of config.pools) {
+    console.log(`AMM contract (${pool.key}): ${pool.address}`);
+  }
   console.log(`  swap_tokens_for_exact_tokens_from selector: ${ammSelector.toString()}`);
 
   // Build the subscriptionFPC config
@@ -70,9 +72,7 @@ async function main() {
       [config.contracts.pop]: {
         [popSelector.toString()]: 0,
       },
-      [config.contracts.amm]: {
-        [ammSelector.toString()]: 0,
-      },
+      ...Object.fromEntries(config.pools.map(pool => [pool.address, { [ammSelector.toString()]: 0 }])),
     },
   };
 
@@ -0,0 +1,303 @@
+/**
+ * Deploys a new pool on an existing deployment and appends it to the network config.
+ *
+ * Usage:
+ *   SECRET=0x... node --experimental-transform-types scripts/deploy-pool.ts --network local \
+ *     --token0 gregoCoin \
+ *     --token1 new:gregoCoinGold:GregoCoinGold:GRGG:18 \
+ *     --price 2.5
+ *
+ * Each side is either the key of a token already in the config, or `new:<key>:<name>:<symbol>[:<decimals>]`
+ * to deploy a fresh token (18 decimals by default). The script then:
+ *   - deploys the pool's liquidity token and AMM, and makes the AMM the liquidity token's minter
+ *   - mints seed liquidity to the deployer and deposits it at `--price` (token1 per token0, default 1)
+ *   - appends the new tokens and the pool to src/config/networks/<network>.json, leaving other entries as they are
+ *
+ * Optional flags:
+ *   --amount0 <base units>  token0 seeded into the pool (default 1000000000); token1 follows from the price
+ *   --key <pool key>        config key of the pool (default `<symbol0>-<symbol1>` in lower case)
+ *
+ * Requires SECRET env var to reconstruct the deployer account (must match the original deployer), since it
+ * mints the seed liquidity of existing tokens. Run add-fpc or deploy:fpc:local afterwards to sponsor swaps
+ * on the new pool.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { AztecAddress } from '@aztec/stdlib/aztec-address';
+import { Fr } from '@aztec/foundation/curves/bn254';
+import { BatchCall } from '@aztec/aztec.js/contracts';
+import type { SponsoredFeePaymentMethod } from '@aztec/aztec.js/fee';
+import type { AztecNode } from '@aztec/aztec.js/node';
+import type { EmbeddedWallet } from '@aztec/wallets/embedded';
+
+import { TokenContract, TokenContractArtifact } from '../contracts/target/Token.ts';
+import { AMMContract } from '../contracts/target/AMM.ts';
+import { parseNetwork, NETWORK_URLS, setupWallet, getOrCreateDeployer } from './utils.ts';
+
+const NETWORK = parseNetwork();
+const DEFAULT_DECIMALS = 18;
+const DEFAULT_AMOUNT0 = 1_000_000_000n;
+
+interface TokenEntry {
+  key: string;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  salt: string;
+  deployer: string;
+}
+
+/** A side of the pool: a token from the config, or one to deploy */
+type TokenSpec =
+  { kind: 'existing'; key: string } | { kind: 'new'; key: string; name: string; symbol: string; decimals: number };
+
+function getArg(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const idx = args.indexOf(name);
+  return idx === -1 || idx === args.length - 1 ? undefined : args[idx + 1];
+}
+
+function parseTokenSpec(flag: string): TokenSpec {
+  const value = getArg(flag);
+  if (!value) {
+    console.error(`Missing ${flag}. Use a token key from the config or new:<key>:<name>:<symbol>[:<decimals>]`);
+    process.exit(1);
+  }
+  if (!value.startsWith('new:')) {
+    return { kind: 'existing', key: value };
+  }
+
+  const [, key, name, symbol, decimals] = value.split(':');
+  if (!key || !name || !symbol) {
+    console.error(`Invalid ${flag}: ${value}. Expected new:<key>:<name>:<symbol>[:<decimals>]`);
+    process.exit(1);
+  }
+  return { kind: 'new', key, name, symbol, decimals: decimals ? Number(decimals) : DEFAULT_DECIMALS };
+}
+
+/** Parses a decimal price into a fraction, so the token1 amount can be computed exactly */
+function parsePrice(value: string): { numerator: bigint; denominator: bigint } {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(value);
+  if (!match) {
+    console.error(`Invalid --price: ${value}. Expected a positive decimal number`);
+    process.exit(1);
+  }
+  const fraction = match[2] ?? '';
+  const numerator = BigInt(match[1] + fraction);
+  if (numerator === 0n) {
+    console.error('--price must be greater than zero');
+    process.exit(1);
+  }
+  return { numerator, denominator: 10n ** BigInt(fraction.length) };
+}
+
+const TOKEN0 = parseTokenSpec('--token0');
+const TOKEN1 = parseTokenSpec('--token1');
+const PRICE = parsePrice(getArg('--price') ?? '1');
+const AMOUNT0 = BigInt(getArg('--amount0') ?? DEFAULT_AMOUNT0);
+
+if (TOKEN0.key === TOKEN1.key) {
+  console.error('A pool needs two different tokens');
+  process.exit(1);
+}
+
+if (!process.env.SECRET) {
+  console.error('SECRET env var is required to reconstruct the deployer account.');
+  process.exit(1);
+}
+
+// Load the network config the pool is added to
+const configPath = path.join(import.meta.dirname, `../src/config/networks/${NETWORK}.json`);
+if (!fs.existsSync(configPath)) {
+  console.error(`Network config not found: ${configPath}. Run deploy first.`);
+  process.exit(1);
+}
+const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+if (!Array.isArray(config.tokens) || !Array.isArray(config.pools)) {
+  console.error(`${configPath} doesn't list tokens and pools. Redeploy the network with the current deploy script.`);
+  process.exit(1);
+}
+
+/**
+ * Resolves a side of the pool: registers an existing token with the wallet, or deploys a new one
+ */
+async function resolveToken(
+  spec: TokenSpec,
+  wallet: EmbeddedWallet,
+  node: AztecNode,
+  deployer: AztecAddress,
+  contractAddressSalt: Fr,
+  paymentMethod?: SponsoredFeePaymentMethod,
+): Promise<{ entry: TokenEntry; contract: TokenContract; isNew: boolean }> {
+  if (spec.kind === 'existing') {
+    const entry: TokenEntry = config.tokens.find((token: TokenEntry) => token.key === spec.key);
+    const address = AztecAddress.fromString(entry.address);
+    const { instance } = await wallet.getContractMetadata(address);
+    if (!instance) {
+      await wallet.registerContract((await node.getContract(address))!, TokenContractArtifact);
+    }
+    return { entry, contract: TokenContract.at(address, wallet), isNew: false };
+  }
+
+  console.log(`Deploying ${spec.name} (${spec.symbol})...`);
+  const { contract } = await TokenContract.deploy(wallet, deployer, spec.name, spec.symbol, spec.decimals).send({
+    from: deployer,
+    fee: { paymentMethod },
+    contractAddressSalt,
+    wait: { timeout: 120 },
+  });
+
+  const entry: TokenEntry = {
+    key: spec.key,
+    address: contract.address.toString(),
+    name: spec.name,
+    symbol: spec.symbol,
+    decimals: spec.decimals,
+    salt: contractAddressSalt.toString(),
+    deployer: deployer.toString(),
+  };
+  return { entry, contract, isNew: true };
+}
+
+/** Symbol of a side of the pool, for the default pool key */
+function getSymbol(spec: TokenSpec): string {
+  if (spec.kind === 'new') return spec.symbol;
+  return config.tokens.find((token: TokenEntry) => token.key === spec.key)?.symbol ?? spec.key;
+}
+
+// Check the pool fits in the config before deploying anything
+for (const spec of [TOKEN0, TOKEN1]) {
+  const isListed = config.tokens.some((token: TokenEntry) => token.key === spec.key);
+  if (spec.kind === 'existing' && !isListed) {
+    console.error(`Token ${spec.key} is not in ${configPath}`);
+    process.exit(1);
+  }
+  if (spec.kind === 'new' && isListed) {
+    console.error(`Token key ${spec.key} is already used in ${configPath}`);
+    process.exit(1);
+  }
+}
+const POOL_KEY = getArg('--key') ?? `${getSymbol(TOKEN0)}-${getSymbol(TOKEN1)}`.toLowerCase();
+if (config.pools.some((pool: { key: string }) => pool.key === POOL_KEY)) {
+  console.error(`Pool key ${POOL_KEY} is already used in ${configPath}. Pick another with --key.`);
+  process.exit(1);
+}
+const isSamePair = (pool: { token0: string; token1: string }) =>
+  [pool.token0, pool.token1].includes(TOKEN0.key) && [pool.token0, pool.token1].includes(TOKEN1.key);
+if (config.pools.some(isSamePair)) {
+  console.error(`A pool already trades ${TOKEN0.key} for ${TOKEN1.key}`);
+  process.exit(1);
+}
+
+async function main() {
+  const { node, wallet, paymentMethod } = await setupWallet(NETWORK_URLS[NETWORK], NETWORK);
+
+  console.log('Reconstructing deployer account...');
+  const deployer = await getOrCreateDeployer(wallet, paymentMethod);
+
+  // Verify deployer matches config
+  if (deployer.toString() !== config.deployer.address) {
+    console.error(`Deployer mismatch! Expected ${config.deployer.address}, got ${deployer.toString()}`);
+    console.error('Make sure SECRET matches the original deployment.');
+    process.exit(1);
+  }
+
+  const contractAddressSalt = Fr.random();
+  const token0 = await resolveToken(TOKEN0, wallet, node, deployer, contractAddressSalt, paymentMethod);
+  const token1 = await resolveToken(TOKEN1, wallet, node, deployer, contractAddressSalt, paymentMethod);
+
+  // Seed amounts: the price is in whole tokens, so it's scaled by the difference in decimals
+  const amount0 = AMOUNT0;
+  const amount1 =
+    (amount0 * PRICE.numerator * 10n ** BigInt(token1.entry.decimals)) /
+    (PRICE.denominator * 10n ** BigInt(token0.entry.decimals));
+  if (amount1 === 0n) {
+    console.error('The price and --amount0 give no token1 to seed. Increase --amount0.');
+    process.exit(1);
+  }
+
+  console.log('Deploying liquidity token and AMM...');
+  const { contract: liquidityToken } = await TokenContract.deploy(wallet, deployer, 'LiquidityToken', 'LQT', 18).send({
+    from: deployer,
+    fee: { paymentMethod },
+    contractAddressSalt,
+    wait: { timeout: 120 },
+  });
+
+  const { contract: amm } = await AMMContract.deploy(
+    wallet,
+    token0.contract.address,
+    token1.contract.address,
+    liquidityToken.address,
+  ).send({ from: deployer, fee: { paymentMethod }, contractAddressSalt, wait: { timeout: 120 } });
+
+  console.log(`Minting seed liquidity: ${amount0} ${token0.entry.symbol} + ${amount1} ${token1.entry.symbol}...`);
+  await new BatchCall(wallet, [
+    liquidityToken.methods.set_minter(amm.address, true),
+    token0.contract.methods.mint_to_private(deployer, amount0),
+    token1.contract.methods.mint_to_private(deployer, amount1),
+  ]).send({ from: deployer, fee: { paymentMethod }, wait: { timeout: 120 } });
+
+  const nonceForAuthwits = Fr.random();
+  const authwits = await Promise.all(
+    [
+      { token: token0.contract, amount: amount0 },
+      { token: token1.contract, amount: amount1 },
+    ].map(async ({ token, amount }) =>
+      wallet.createAuthWit(deployer, {
+        caller: amm.address,
+        call: await token.methods
+          .transfer_to_public_and_prepare_private_balance_increase(deployer, amm.address, amount, nonceForAuthwits)
+          .getFunctionCall(),
+      }),
+    ),
+  );
+
+  console.log('Adding seed liquidity...');
+  await amm.methods
+    .add_liquidity(amount0, amount1, amount0, amount1, nonceForAuthwits)
+    .with({ authWitnesses: authwits })
+    .send({ from: deployer, fee: { paymentMethod }, wait: { timeout: 120 } });
+
+  // Append the new tokens and the pool, leaving the rest of the config as it is
+  const newTokens = [token0, token1].filter(token => token.isNew).map(token => token.entry);
+  config.tokens.push(...newTokens);
+  config.pools.push({
+    key: POOL_KEY,
+    address: amm.address.toString(),
+    token0: token0.entry.key,
+    token1: token1.entry.key,
+    liquidityToken: {
+      address: liquidityToken.address.toString(),
+      name: 'LiquidityToken',
+      symbol: 'LQT',
+      decimals: 18,
+    },
+    salt: contractAddressSalt.toString(),
+    deployer: deployer.toString(),
+  });
+  fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+
+  console.log(`
+      \n\n\n
+      Pool ${POOL_KEY} deployed successfully to ${NETWORK}!
+      Network config updated: ${configPath}
+
+      Deployed contracts:
+${newTokens.map(token => `      - ${token.name}: ${token.address}`).join('\n')}
+      - AMM: ${amm.address.toString()}
+      - Liquidity Token: ${liquidityToken.address.toString()}
+
+      Swaps on the new pool aren't sponsored until the subscription FPC is configured for its AMM.
+      \n\n\n
+    `);
+
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -24,10 +24,12 @@ import { AMMContractArtifact } from '../contracts/target/AMM.ts';
 import { TokenContractArtifact } from '../contracts/target/Token.ts';
 import { setupWallet, getOrCreateDeployer } from './utils.ts';
 import type { AztecNode } from '@aztec/aztec.js/node';
+import type { NetworkConfig } from '../src/config/networks/index.ts';
 
 interface FpcSignupSpec {
   artifact: ContractArtifact;
   functionName: string;
+  /** Contracts to sign the function up on, by alias (see buildContractAliases) */
   contractAlias: string[];
   /** Max sponsored calls per subscribed user. Falls back to DEFAULTS.fpcSignupDefaults.maxUses. */
   maxUses?: number;
@@ -73,7 +75,7 @@ const DEFAULTS = {
     {
       artifact: TokenContractArtifact,
       functionName: 'transfer_in_private_deliver_offchain',
-      contractAlias: ['gregoCoin', 'gregoCoinPremium'],
+      contractAlias: ['tokens'],
     },
   ] as FpcSignupSpec[],
 };
@@ -103,7 +105,13 @@ async function main() {
   // If we did them in the "obvious" order (bridge -> claim -> sign_up), the claim would hang forever waiting for an L2
   // block that never comes... so it is a bit of a hack, but it works.
   const feeJuiceClaim = await bridgeTokens(node, config.l1RpcUrl, config.l1FunderKey, fpcAddress);
-  const signedUpFunctions = await executeFpcSignUps(fpcAddress, fpcDeployer, wallet, paymentMethod, config.contracts);
+  const signedUpFunctions = await executeFpcSignUps(
+    fpcAddress,
+    fpcDeployer,
+    wallet,
+    paymentMethod,
+    buildContractAliases(config),
+  );
   await claimFeeJuiceOnL2(node, feeJuiceClaim, wallet, fpcAddress, fpcDeployer, paymentMethod);
   updateNetworkConfigFile(config, fpcAddress, secretKey, signedUpFunctions, configPath);
 }
@@ -113,6 +121,22 @@ main().catch(err => {
   process.exit(1);
 });
 
+/**
+ * Maps the aliases sign-up specs refer to onto contract addresses from the network config:
+ * `pop`, each token by key, `tokens` for every token and `amm` for every pool.
+ */
+function buildContractAliases(config: NetworkConfig): Record<string, string[]> {
+  const aliases: Record<string, string[]> = {
+    pop: [config.contracts.pop],
+    tokens: config.tokens.map(token => token.address),
+    amm: config.pools.map(pool => pool.address),
+  };
+  for (const token of config.tokens) {
+    aliases[token.key] = [token.address];
+  }
+  return aliases;
+}
+
 function loadConfig(configPath: string) {
   const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
   config.l1RpcUrl = config.l1RpcUrl ?? DEFAULTS.l1RpcUrl;
@@ -167,7 +191,7 @@ async function executeFpcSignUps(
   fpcDeployer: AztecAddress,
   wallet: EmbeddedWallet,
   paymentMethod: SponsoredFeePaymentMethod,
-  contracts: Record<string, string>,
+  contracts: Record<string, string[]>,
 ): Promise<ResolvedSignup[]> {
   // Sign up functions so users can subscribe. These L2 txs also advance the L2 chain,
   // which helps the sequencer include the pending L1->L2 bridge message.
@@ -225,7 +249,7 @@ interface ResolvedSignup {
  */
 async function resolveFpcSignups(
   specs: FpcSignupSpec[],
-  contracts: Record<string, string>,
+  contracts: Record<string, string[]>,
   defaults: { maxUses: number; maxFee: bigint; maxUsers: number },
 ): Promise<ResolvedSignup[]> {
   return Promise.all(
@@ -237,14 +261,16 @@ async function resolveFpcSignups(
       const maxUses = spec.maxUses ?? defaults.maxUses;
       const maxFee = spec.maxFee ?? defaults.maxFee;
       const maxUsers = spec.maxUsers ?? defaults.maxUsers;
-      return spec.contractAlias.map(async addressKey => {
-        const rawAddress = contracts[addressKey];
-        if (!rawAddress) {
-          throw new Error(`Address key "${addressKey}" not found in config.contracts`);
+      return spec.contractAlias.flatMap(addressKey => {
+        const rawAddresses = contracts[addressKey];
+        if (!rawAddresses?.length) {
+          throw new Error(`Address key "${addressKey}" not found in the network config`);
         }
-        const contractAddress = AztecAddress.fromString(rawAddress);
-        const selector = await FunctionSelector.fromNameAndParameters(fn.name, fn.parameters);
-        return { addressKey, contractAddress, functionName: spec.functionName, selector, maxUses, maxFee, maxUsers };
+        return rawAddresses.map(async rawAddress => {
+          const contractAddress = AztecAddress.fromString(rawAddress);
+          const selector = await FunctionSelector.fromNameAndParameters(fn.name, fn.parameters);
+          return { addressKey, contractAddress, functionName: spec.functionName, selector, maxUses, maxFee, maxUsers };
+        });
       });
     }),
   );
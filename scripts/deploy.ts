@@ -23,6 +23,7 @@ if (!PASSWORD) {
 }
 
 const INITIAL_TOKEN_BALANCE = 1_000_000_000n;
+const TOKEN_DECIMALS = 18;
 
 async function deployContracts(
   wallet: EmbeddedWallet,
@@ -31,19 +32,21 @@ async function deployContracts(
 ) {
   const contractAddressSalt = Fr.random();
 
-  const { contract: gregoCoin } = await TokenContract.deploy(wallet, deployer, 'GregoCoin', 'GRG', 18).send({
-    from: deployer,
-    fee: { paymentMethod },
-    contractAddressSalt,
-    wait: { timeout: 120 },
-  });
+  const { contract: gregoCoin } = await TokenContract.deploy(wallet, deployer, 'GregoCoin', 'GRG', TOKEN_DECIMALS).send(
+    {
+      from: deployer,
+      fee: { paymentMethod },
+      contractAddressSalt,
+      wait: { timeout: 120 },
+    },
+  );
 
   const { contract: gregoCoinPremium } = await TokenContract.deploy(
     wallet,
     deployer,
     'GregoCoinPremium',
     'GRGP',
-    18,
+    TOKEN_DECIMALS,
   ).send({
     from: deployer,
     fee: { paymentMethod },
@@ -157,14 +160,46 @@ async function writeNetworkConfig(network: string, deploymentInfo: any, sponsore
     chainId: deploymentInfo.chainId,
     rollupVersion: deploymentInfo.rollupVersion,
     contracts: {
-      gregoCoin: deploymentInfo.gregoCoinAddress,
-      gregoCoinPremium: deploymentInfo.gregoCoinPremiumAddress,
-      amm: deploymentInfo.ammAddress,
-      liquidityToken: deploymentInfo.liquidityTokenAddress,
       pop: deploymentInfo.popAddress,
       sponsoredFPC: sponsoredFPCAddress,
       salt: deploymentInfo.contractAddressSalt,
     },
+    tokens: [
+      {
+        key: 'gregoCoin',
+        address: deploymentInfo.gregoCoinAddress,
+        name: 'GregoCoin',
+        symbol: 'GRG',
+        decimals: TOKEN_DECIMALS,
+        salt: deploymentInfo.contractAddressSalt,
+        deployer: deploymentInfo.deployerAddress,
+      },
+      {
+        key: 'gregoCoinPremium',
+        address: deploymentInfo.gregoCoinPremiumAddress,
+        name: 'GregoCoinPremium',
+        symbol: 'GRGP',
+        decimals: TOKEN_DECIMALS,
+        salt: deploymentInfo.contractAddressSalt,
+        deployer: deploymentInfo.deployerAddress,
+      },
+    ],
+    pools: [
+      {
+        key: 'grg-grgp',
+        address: deploymentInfo.ammAddress,
+        token0: 'gregoCoin',
+        token1: 'gregoCoinPremium',
+        liquidityToken: {
+          address: deploymentInfo.liquidityTokenAddress,
+          name: 'LiquidityToken',
+          symbol: 'LQT',
+          decimals: 18,
+        },
+        salt: deploymentInfo.contractAddressSalt,
+        deployer: deploymentInfo.deployerAddress,
+      },
+    ],
     deployer: {
       address: deploymentInfo.deployerAddress,
     },
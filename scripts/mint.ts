@@ -53,36 +53,24 @@ async function main() {
     process.exit(1);
   }
 
-  // Register token contracts
-  const gregoCoinAddress = AztecAddress.fromString(config.contracts.gregoCoin);
-  const gregoCoinPremiumAddress = AztecAddress.fromString(config.contracts.gregoCoinPremium);
-
-  const [gregoCoinInstance, gregoCoinPremiumInstance] = await Promise.all([
-    wallet.getContractMetadata(gregoCoinAddress).then(m => m.instance),
-    wallet.getContractMetadata(gregoCoinPremiumAddress).then(m => m.instance),
-  ]);
-
-  // Register if not already registered
-  if (!gregoCoinInstance) {
-    const instance = await node.getContract(gregoCoinAddress);
-    await wallet.registerContract(instance!, TokenContractArtifact);
-  }
-  if (!gregoCoinPremiumInstance) {
-    const instance = await node.getContract(gregoCoinPremiumAddress);
-    await wallet.registerContract(instance!, TokenContractArtifact);
-  }
-
-  const gregoCoin = TokenContract.at(gregoCoinAddress, wallet);
-  const gregoCoinPremium = TokenContract.at(gregoCoinPremiumAddress, wallet);
+  // Register token contracts, if not already registered
+  const tokens = await Promise.all(
+    config.tokens.map(async (token: { address: string; name: string }) => {
+      const address = AztecAddress.fromString(token.address);
+      const { instance } = await wallet.getContractMetadata(address);
+      if (!instance) {
+        await wallet.registerContract((await node.getContract(address))!, TokenContractArtifact);
+      }
+      return { name: token.name, contract: TokenContract.at(address, wallet) };
+    }),
+  );
 
   // Build mint calls
+  const tokenNames = tokens.map(token => token.name).join(' + ');
   const mintCalls = MINT_TO.flatMap(addr => {
     const recipient = AztecAddress.fromString(addr);
-    console.log(`Will mint ${AMOUNT} GregoCoin + GregoCoinPremium to ${addr}`);
-    return [
-      gregoCoin.methods.mint_to_private(recipient, AMOUNT),
-      gregoCoinPremium.methods.mint_to_private(recipient, AMOUNT),
-    ];
+    console.log(`Will mint ${AMOUNT} ${tokenNames} to ${addr}`);
+    return tokens.map(token => token.contract.methods.mint_to_private(recipient, AMOUNT));
   });
 
   console.log(`Sending batch mint tx (${mintCalls.length} calls)...`);
@@ -7,6 +7,8 @@ import { NetworkSwitcher } from './components/NetworkSwitcher';
 import { FooterInfo } from './components/FooterInfo';
 import { SwapContainer } from './components/swap';
 import { SendContainer } from './components/send/SendContainer';
+import { PoolContainer } from './components/pool';
+import { SettingsContainer } from './components/settings';
 import { ClaimPage } from './components/claim/ClaimPage';
 import { isClaimRoute } from './services/offchainLinkService';
 import { useWallet } from './contexts/wallet';
@@ -115,7 +117,7 @@ export function App() {
                   <GregoSwapLogo height={56} />
                 </Box>
                 <Typography variant="body1" color="text.secondary">
-                  Swap GregoCoin for GregoCoinPremium
+                  Swap between GregoCoin and GregoCoinPremium
                 </Typography>
               </Box>
 
@@ -133,11 +135,15 @@ export function App() {
               >
                 <Tab label="Swap" />
                 <Tab label="Send" />
+                <Tab label="Pool" />
+                <Tab label="Settings" />
               </Tabs>
 
               {/* Tab Content */}
               {activeTab === 0 && <SwapContainer />}
               {activeTab === 1 && <SendContainer />}
+              {activeTab === 2 && <PoolContainer />}
+              {activeTab === 3 && <SettingsContainer />}
 
               {/* Wallet Error Display */}
               {walletError && (
@@ -3,24 +3,30 @@ import { createRoot } from 'react-dom/client';
 import { App } from './App.tsx';
 import { NetworkProvider } from './contexts/network/NetworkContext';
 import { WalletProvider } from './contexts/wallet/WalletContext';
+import { BlockProvider } from './contexts/blocks/BlockContext';
 import { ContractsProvider } from './contexts/contracts/ContractsContext';
 import { SwapProvider } from './contexts/swap/SwapContext';
 import { SendProvider } from './contexts/send/SendContext';
+import { PoolProvider } from './contexts/pool/PoolContext';
 import { OnboardingProvider } from './contexts/onboarding/OnboardingContext';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <NetworkProvider>
       <WalletProvider>
-        <ContractsProvider>
-          <OnboardingProvider>
-            <SwapProvider>
-              <SendProvider>
-                <App />
-              </SendProvider>
-            </SwapProvider>
-          </OnboardingProvider>
-        </ContractsProvider>
+        <BlockProvider>
+          <ContractsProvider>
+            <OnboardingProvider>
+              <SwapProvider>
+                <SendProvider>
+                  <PoolProvider>
+                    <App />
+                  </PoolProvider>
+                </SendProvider>
+              </SwapProvider>
+            </OnboardingProvider>
+          </ContractsProvider>
+        </BlockProvider>
       </WalletProvider>
     </NetworkProvider>
   </StrictMode>,
@@ -14,6 +14,7 @@ import type { AztecAddress } from '@aztec/aztec.js/addresses';
 import type { Aliased } from '@aztec/aztec.js/wallet';
 import type { WalletProvider, PendingConnection } from '@aztec/wallet-sdk/manager';
 import { createGregoSwapCapabilities } from '../config/capabilities';
+import { getImportedTokens } from '../services/importedTokenService';
 import {
   OnboardingProgress,
   WalletDiscovery,
@@ -25,6 +26,7 @@ import {
   CompletionTransition,
   FlowMessages,
 } from './onboarding';
+import { TxLifecycleStatus } from './TxLifecycleStatus';
 
 type WalletConnectionPhase = 'discovering' | 'selecting_wallet' | 'verifying' | 'connecting' | 'selecting_account';
 
@@ -46,6 +48,7 @@ export function OnboardingModal({ open, onAccountSelect }: OnboardingModalProps)
     isSwapPending,
     dripPhase,
     dripError,
+    dripTxLifecycle,
     dismissDripError,
     setSimulationGrant,
     hasSimulationGrant,
@@ -176,7 +179,7 @@ export function OnboardingModal({ open, onAccountSelect }: OnboardingModalProps)
       const wallet = await confirmConnection(selectedWallet, pendingConnection);
 
       // Request capabilities with full manifest (includes account selection)
-      const manifest = createGregoSwapCapabilities(activeNetwork);
+      const manifest = createGregoSwapCapabilities(activeNetwork, getImportedTokens(activeNetwork.id));
       const capabilitiesResponse = await wallet.requestCapabilities(manifest);
 
       // Check if simulation capabilities were granted (affects step labels)
@@ -358,6 +361,13 @@ export function OnboardingModal({ open, onAccountSelect }: OnboardingModalProps)
               {status === 'awaiting_drip' && <DripPasswordInput onSubmit={completeDripOnboarding} />}
             </Collapse>
 
+            {/* Drip transaction progress */}
+            <Collapse in={status === 'executing_drip' && dripPhase === 'sending'} timeout={400}>
+              <Box sx={{ pl: 5, pr: 2 }}>
+                <TxLifecycleStatus lifecycle={dripTxLifecycle} />
+              </Box>
+            </Collapse>
+
             {/* Drip Error Display (shown when drip fails during execution) */}
             <Collapse in={status === 'executing_drip' && dripPhase === 'error'} timeout={400}>
               {status === 'executing_drip' && dripPhase === 'error' && (
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { Box, Typography, CircularProgress, IconButton, Snackbar } from '@mui/material';
+import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import { useWallet } from '../contexts/wallet';
+import { getTxStageLabel, shortTxHash, type TxLifecycle } from '../services/txLifecycleService';
+
+interface TxLifecycleStatusProps {
+  lifecycle: TxLifecycle | null;
+}
+
+export function TxLifecycleStatus({ lifecycle }: TxLifecycleStatusProps) {
+  const { isUsingEmbeddedWallet } = useWallet();
+  const [copied, setCopied] = useState(false);
+
+  if (!lifecycle) return null;
+
+  const { stage, txHash } = lifecycle;
+  const isDone = stage === 'mined' || stage === 'finalized';
+
+  const handleCopy = async () => {
+    if (!txHash) return;
+    await navigator.clipboard.writeText(txHash);
+    setCopied(true);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, py: 1 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        {stage === 'dropped' ? (
+          <ErrorOutlineIcon fontSize="small" color="error" />
+        ) : isDone ? (
+          <CheckCircleOutlineIcon fontSize="small" color="primary" />
+        ) : (
+          <CircularProgress size={14} color="primary" />
+        )}
+        <Typography variant="caption" color={stage === 'dropped' ? 'error' : 'text.secondary'}>
+          {getTxStageLabel(lifecycle, isUsingEmbeddedWallet)}
+        </Typography>
+      </Box>
+      {txHash && (
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+            {shortTxHash(txHash)}
+          </Typography>
+          <IconButton size="small" color="primary" onClick={handleCopy} aria-label="Copy tx hash">
+            <ContentCopyIcon sx={{ fontSize: 14 }} />
+          </IconButton>
+        </Box>
+      )}
+      <Snackbar open={copied} autoHideDuration={2000} onClose={() => setCopied(false)} message="Tx hash copied!" />
+    </Box>
+  );
+}
@@ -0,0 +1,48 @@
+import type { ReactNode } from 'react';
+import { Box, Typography, CircularProgress } from '@mui/material';
+import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
+import HighlightOffIcon from '@mui/icons-material/HighlightOff';
+import type { ClaimCheck, ClaimCheckId } from '../../services/claimVerificationService';
+
+interface ClaimChecksProps {
+  checks: ClaimCheck[];
+  /** Controls shown next to a check, e.g. to fix what made it fail */
+  actions?: Partial<Record<ClaimCheckId, ReactNode>>;
+}
+
+function CheckIcon({ status }: Pick<ClaimCheck, 'status'>) {
+  switch (status) {
+    case 'checking':
+      return <CircularProgress size={16} />;
+    case 'passed':
+      return <CheckCircleOutlineIcon fontSize="small" color="success" />;
+    case 'warning':
+      return <ErrorOutlineIcon fontSize="small" color="warning" />;
+    case 'failed':
+      return <HighlightOffIcon fontSize="small" color="error" />;
+  }
+}
+
+export function ClaimChecks({ checks, actions = {} }: ClaimChecksProps) {
+  return (
+    <Box sx={{ width: '100%', display: 'flex', flexDirection: 'column', gap: 1 }}>
+      {checks.map(check => (
+        <Box key={check.id} sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+          <Box sx={{ width: 20, display: 'flex', justifyContent: 'center' }}>
+            <CheckIcon status={check.status} />
+          </Box>
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <Typography variant="body2" color="text.primary">
+              {check.label}
+            </Typography>
+            <Typography variant="caption" color={check.status === 'failed' ? 'error' : 'text.secondary'}>
+              {check.detail}
+            </Typography>
+          </Box>
+          {actions[check.id]}
+        </Box>
+      ))}
+    </Box>
+  );
+}
@@ -2,12 +2,28 @@ import { Box, Typography, Button, Alert, CircularProgress, Chip } from '@mui/mat
 import { useEffect, useState, useCallback } from 'react';
 import { Fr } from '@aztec/aztec.js/fields';
 import { AztecAddress } from '@aztec/aztec.js/addresses';
-import { extractClaimPayload, type TransferLink } from '../../services/offchainLinkService';
+import { extractClaimPayload, getLinkTokenKey, type TransferLink } from '../../services/offchainLinkService';
 import { ClaimProgress } from './ClaimProgress';
 import { ClaimSuccess } from './ClaimSuccess';
+import { ClaimChecks } from './ClaimChecks';
 import { GregoSwapLogo } from '../GregoSwapLogo';
 import { useContracts } from '../../contexts/contracts';
 import { useWallet } from '../../contexts/wallet';
+import { useNetwork } from '../../contexts/network';
+import { useBlocks } from '../../contexts/blocks';
+import { addClaimedLink } from '../../services/claimedLinkService';
+import {
+  canClaim,
+  checkBearerFunds,
+  checkNetwork,
+  checkRecipient,
+  checkToken,
+  checkTransaction,
+  checkUnclaimed,
+  PENDING_TRANSACTION_CHECK,
+  type ClaimCheck,
+} from '../../services/claimVerificationService';
+import { formatTokenAmount, parseStoredAmount } from '../../utils/tokenAmount';
 
 type ClaimState =
   | { phase: 'decoding' }
@@ -17,18 +33,53 @@ type ClaimState =
   | { phase: 'claimed'; data: TransferLink; verified: boolean }
   | { phase: 'error'; message: string };
 
+/** The link's offchain message, as the token's offchain_receive takes it */
+function getLinkMessage(data: TransferLink) {
+  return {
+    ciphertext: data.payload.map((s: string) => Fr.fromString(s)),
+    tx_hash: Fr.fromString(data.txHash),
+    anchor_block_timestamp: BigInt(data.anchorBlockTimestamp),
+  };
+}
+
 interface ClaimPageProps {
   onClaimComplete: () => void;
 }
 
 export function ClaimPage({ onClaimComplete }: ClaimPageProps) {
   const [state, setState] = useState<ClaimState>({ phase: 'decoding' });
-  const { claimOffchainTransfer, registerBaseContracts, fetchBalances, isLoadingContracts } = useContracts();
-  const { wallet, currentAddress } = useWallet();
+  const { claimOffchainTransfer, claimBearerTransfer, registerBaseContracts, fetchBalances, isLoadingContracts, importedTokens, importToken, getBearerBalance } = useContracts();
+  const { wallet, node, currentAddress } = useWallet();
+  const { activeNetwork, availableNetworks, switchNetwork } = useNetwork();
+  const { blockNumber } = useBlocks();
+  // Result of looking the transfer up, tagged with the node it came from so a network switch starts over
+  const [txResult, setTxResult] = useState<{ node: typeof node; check: ClaimCheck } | null>(null);
+  // On-chain look-up of a bearer link's funds, tagged with its node the same way
+  const [fundsResult, setFundsResult] = useState<{ node: typeof node; check: ClaimCheck } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // The link's token among the configured and imported ones, null if the claimer hasn't imported it yet
+  const findLinkToken = useCallback((data: TransferLink) => {
+    const tokens = [...activeNetwork.tokens, ...importedTokens];
+    if (data.token) {
+      const key = getLinkTokenKey(data.token);
+      return tokens.find(t => t.key === key) ?? null;
+    }
+    if (!data.contractAddress) return null;
+    const address = AztecAddress.fromString(data.contractAddress);
+    return tokens.find(t => AztecAddress.fromString(t.address).equals(address)) ?? null;
+  }, [activeNetwork.tokens, importedTokens]);
 
   // Step 1: Decode the link on mount
   useEffect(() => {
-    const data = extractClaimPayload();
+    let data: TransferLink | null;
+    try {
+      data = extractClaimPayload();
+    } catch {
+      setState({ phase: 'error', message: 'This claim link is corrupted or incomplete. Ask the sender to copy it again.' });
+      return;
+    }
     if (!data) {
       setState({ phase: 'error', message: 'Invalid or missing claim link.' });
       return;
@@ -36,7 +87,37 @@ export function ClaimPage({ onClaimComplete }: ClaimPageProps) {
     setState({ phase: 'preview', data });
   }, []);
 
-  // Step 2: Execute the claim
+  const txCheck = txResult && txResult.node === node ? txResult.check : PENDING_TRANSACTION_CHECK;
+
+  // Step 2: Look the transfer up on the node, again on every block until it is mined
+  const previewData = state.phase === 'preview' ? state.data : null;
+  useEffect(() => {
+    if (!previewData || !node || txCheck.status === 'passed') return;
+    let cancelled = false;
+    checkTransaction(node, previewData).then(check => {
+      if (!cancelled) setTxResult({ node, check });
+    });
+    return () => { cancelled = true; };
+  }, [previewData, node, blockNumber, txCheck.status]);
+
+  // Step 2b: Once the transfer is mined, make sure a bearer link's funds weren't already swept from another
+  // device; claims recorded in this browser are caught earlier by checkUnclaimed
+  const fundsTokenAddress = previewData ? findLinkToken(previewData)?.address ?? previewData.contractAddress : undefined;
+  const hasFundsResult = fundsResult !== null && fundsResult.node === node;
+  useEffect(() => {
+    if (!previewData?.bearerSecret || !node || !fundsTokenAddress || txCheck.status !== 'passed' || hasFundsResult) return;
+    if (checkUnclaimed(previewData, activeNetwork.id).status === 'failed') return;
+    let cancelled = false;
+    const bearerSecret = Fr.fromString(previewData.bearerSecret);
+    checkBearerFunds(previewData, () =>
+      getBearerBalance(AztecAddress.fromString(fundsTokenAddress), bearerSecret, getLinkMessage(previewData)),
+    ).then(check => {
+      if (!cancelled) setFundsResult({ node, check });
+    });
+    return () => { cancelled = true; };
+  }, [previewData, node, fundsTokenAddress, txCheck.status, hasFundsResult, activeNetwork.id, getBearerBalance]);
+
+  // Step 3: Execute the claim
   const doClaim = useCallback(async () => {
     if (state.phase !== 'preview') return;
     const { data } = state;
@@ -53,30 +134,31 @@ export function ClaimPage({ onClaimComplete }: ClaimPageProps) {
         return;
       }
 
+      const tokenKey = findLinkToken(data)?.key;
+      if (!tokenKey) throw new Error(`The token this link sends isn't available on ${activeNetwork.id}.`);
+
       // Get balance before claim (for verification)
       let balanceBefore = 0n;
       try {
-        const [gc, gcp] = await fetchBalances();
-        balanceBefore = data.token === 'gc' ? gc : gcp;
+        balanceBefore = (await fetchBalances())[tokenKey] ?? 0n;
       } catch { /* new wallet may have no balance */ }
 
       // Reconstruct Fr values and call offchain_receive
-      const tokenKey = data.token === 'gc' ? 'gregoCoin' as const : 'gregoCoinPremium' as const;
-
-      await claimOffchainTransfer(tokenKey, {
-        ciphertext: data.payload.map((s: string) => Fr.fromString(s)),
-        recipient: AztecAddress.fromString(data.recipient),
-        tx_hash: Fr.fromString(data.txHash),
-        anchor_block_timestamp: BigInt(data.anchorBlockTimestamp),
-      });
+      const message = getLinkMessage(data);
+      if (data.bearerSecret) {
+        // Bearer links were sent to a throwaway account: sweep it into the claimer's account
+        await claimBearerTransfer(tokenKey, Fr.fromString(data.bearerSecret), message, parseStoredAmount(data.amount));
+      } else {
+        await claimOffchainTransfer(tokenKey, { ...message, recipient: AztecAddress.fromString(data.recipient) });
+      }
 
+      addClaimedLink(activeNetwork.id, { txHash: data.txHash, recipient: data.recipient, claimedBy: currentAddress.toString(), claimedAt: Date.now() });
       setState({ phase: 'verifying', data });
 
       // Verify balance
-      const [gcAfter, gcpAfter] = await fetchBalances();
-      const balanceAfter = data.token === 'gc' ? gcAfter : gcpAfter;
+      const balanceAfter = (await fetchBalances())[tokenKey] ?? 0n;
       const received = balanceAfter - balanceBefore;
-      const expectedAmount = BigInt(Math.round(parseFloat(data.amount)));
+      const expectedAmount = parseStoredAmount(data.amount);
       const verified = received >= expectedAmount;
 
       setState({ phase: 'claimed', data, verified });
@@ -84,14 +166,46 @@ export function ClaimPage({ onClaimComplete }: ClaimPageProps) {
       const message = error instanceof Error ? error.message : 'Claim failed. Please try again.';
       setState({ phase: 'error', message });
     }
-  }, [state, wallet, currentAddress, isLoadingContracts, registerBaseContracts, fetchBalances, claimOffchainTransfer]);
+  }, [state, wallet, currentAddress, isLoadingContracts, registerBaseContracts, findLinkToken, activeNetwork.id, fetchBalances, claimOffchainTransfer, claimBearerTransfer]);
 
   // After a successful claim, return to the main app and land on the Send tab.
   // We just clear the hash and call the parent's callback — no reload, so the
   // user's session (wallet, onboarding, contracts) is preserved.
   const handleGoToSend = onClaimComplete;
 
-  const tokenName = (t: string) => (t === 'gc' ? 'GregoCoin' : 'GregoCoinPremium');
+  // Links from before v2 don't say which network they were sent on; those are assumed to be on the active one
+  const isOnLinkNetwork = (data: TransferLink) => !data.networkId || data.networkId === activeNetwork.id;
+  const linkNetwork = (data: TransferLink) => availableNetworks.find(n => n.id === data.networkId) ?? null;
+
+  const unclaimedCheck = (data: TransferLink): ClaimCheck => {
+    const check = checkUnclaimed(data, activeNetwork.id);
+    return check.status === 'checking' && hasFundsResult ? fundsResult.check : check;
+  };
+
+  const claimChecks = (data: TransferLink): ClaimCheck[] => [
+    checkNetwork(data, activeNetwork),
+    checkToken(data, findLinkToken(data)),
+    txCheck,
+    checkRecipient(data, currentAddress),
+    unclaimedCheck(data),
+  ];
+
+  // Tokens that aren't listed yet have to be imported before claiming, so the claimed amount shows up in balances
+  const handleImportToken = async (contractAddress: string) => {
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      await importToken(contractAddress);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to import token');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const tokenName = (data: TransferLink) => findLinkToken(data)?.name ?? data.symbol ?? 'tokens';
+  const displayAmount = (data: TransferLink) =>
+    formatTokenAmount(parseStoredAmount(data.amount), findLinkToken(data)?.decimals ?? data.decimals ?? 0);
 
   return (
     <Box sx={{ py: 4 }}>
@@ -109,17 +223,33 @@ export function ClaimPage({ onClaimComplete }: ClaimPageProps) {
             <Typography variant="h5" color="text.primary">Someone sent you</Typography>
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
               <Typography variant="h4" color="primary" sx={{ fontWeight: 'bold' }}>
-                {state.data.amount} {tokenName(state.data.token)}
+                {displayAmount(state.data)} {tokenName(state.data)}
               </Typography>
-              <Chip label="unverified" size="small" variant="outlined" />
+              {claimChecks(state.data).every(check => check.status === 'passed')
+                ? <Chip label="verified" size="small" variant="outlined" color="success" />
+                : <Chip label="unverified" size="small" variant="outlined" />}
             </Box>
-            <Button variant="contained" size="large" onClick={doClaim} sx={{ mt: 2, fontWeight: 'bold', px: 6 }}>Claim</Button>
+            <ClaimChecks
+              checks={claimChecks(state.data)}
+              actions={{
+                network: !isOnLinkNetwork(state.data) && linkNetwork(state.data) && (
+                  <Button size="small" onClick={() => switchNetwork(state.data.networkId!)}>Switch</Button>
+                ),
+                token: isOnLinkNetwork(state.data) && !findLinkToken(state.data) && state.data.contractAddress && (
+                  <Button size="small" disabled={isImporting || isLoadingContracts} onClick={() => handleImportToken(state.data.contractAddress!)}>
+                    {isImporting ? 'Importing...' : 'Import'}
+                  </Button>
+                ),
+              }}
+            />
+            {importError && <Alert severity="error" sx={{ width: '100%' }}>{importError}</Alert>}
+            <Button variant="contained" size="large" onClick={doClaim} disabled={!canClaim(claimChecks(state.data))} sx={{ mt: 2, fontWeight: 'bold', px: 6 }}>Claim</Button>
           </Box>
         )}
         {state.phase === 'claiming' && <ClaimProgress phase="claiming" />}
         {state.phase === 'verifying' && <ClaimProgress phase="verifying" />}
         {state.phase === 'claimed' && (
-          <ClaimSuccess amount={state.data.amount} tokenName={tokenName(state.data.token)} verified={state.verified} onGoToSend={handleGoToSend} />
+          <ClaimSuccess amount={displayAmount(state.data)} tokenName={tokenName(state.data)} verified={state.verified} onGoToSend={handleGoToSend} />
         )}
         {state.phase === 'error' && <Alert severity="error">{state.message}</Alert>}
       </Box>
@@ -0,0 +1,58 @@
+import { Box, Typography } from '@mui/material';
+import type { AddLiquidityQuote } from '../../services/liquidityService';
+import type { TokenMetadata } from '../../config/networks';
+import { formatTokenAmount } from '../../utils/tokenAmount';
+import type { AddLiquidityAmounts } from '../../types';
+
+type TokenDisplay = Pick<TokenMetadata, 'symbol' | 'decimals'>;
+
+interface AddLiquidityDetailsProps {
+  quote: AddLiquidityQuote | null;
+  amounts: AddLiquidityAmounts | null;
+  slippageBps: number;
+  token0: TokenDisplay;
+  token1: TokenDisplay;
+  liquidityToken: TokenDisplay;
+}
+
+function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', py: 0.5 }}>
+      <Typography variant="caption" color="text.secondary">
+        {label}
+      </Typography>
+      <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 600 }}>
+        {value}
+      </Typography>
+    </Box>
+  );
+}
+
+export function AddLiquidityDetails({
+  quote,
+  amounts,
+  slippageBps,
+  token0,
+  token1,
+  liquidityToken,
+}: AddLiquidityDetailsProps) {
+  if (!quote || !amounts) return null;
+
+  const shareLabel = quote.poolSharePct < 0.01 ? '<0.01%' : `${quote.poolSharePct.toFixed(2)}%`;
+  const min0 = formatTokenAmount(amounts.amount0Min, token0.decimals, 6);
+  const min1 = formatTokenAmount(amounts.amount1Min, token1.decimals, 6);
+
+  return (
+    <Box sx={{ px: 2, pb: 1.5, backgroundColor: 'background.default' }}>
+      <DetailRow
+        label="You receive"
+        value={`${formatTokenAmount(quote.liquidity, liquidityToken.decimals, 6)} ${liquidityToken.symbol}`}
+      />
+      <DetailRow label="Share of pool" value={shareLabel} />
+      <DetailRow
+        label={`Minimum deposited (${slippageBps / 100}% slippage)`}
+        value={`${min0} ${token0.symbol} + ${min1} ${token1.symbol}`}
+      />
+    </Box>
+  );
+}
@@ -0,0 +1,387 @@
+/**
+ * PoolContainer Component
+ * Liquidity interface using contexts
+ */
+
+import { useEffect, useRef, useState, useCallback } from 'react';
+import {
+  Paper,
+  Box,
+  Alert,
+  Button,
+  Typography,
+  CircularProgress,
+  ToggleButtonGroup,
+  ToggleButton,
+  MenuItem,
+  TextField,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import { SwapBox } from '../swap/SwapBox';
+import { SwapProgress } from '../swap/SwapProgress';
+import { SwapErrorAlert } from '../swap/SwapErrorAlert';
+import { TxLifecycleStatus } from '../TxLifecycleStatus';
+import { AddLiquidityDetails } from './AddLiquidityDetails';
+import { RemoveLiquidityDetails } from './RemoveLiquidityDetails';
+import { PositionSummary } from './PositionSummary';
+import { useContracts } from '../../contexts/contracts';
+import { useWallet } from '../../contexts/wallet';
+import { useNetwork } from '../../contexts/network';
+import { useOnboarding } from '../../contexts/onboarding';
+import { usePool } from '../../contexts/pool';
+import { useBlocks } from '../../contexts/blocks';
+import { getSpotRate } from '../../services/quoteService';
+import { getToken, getTokenSymbol, type PoolConfig } from '../../config/networks';
+import { formatTokenAmount, parseTokenAmount } from '../../utils/tokenAmount';
+import type { Balances, TokenKey } from '../../types';
+
+export function PoolContainer() {
+  const { isLoadingContracts, fetchBalances } = useContracts();
+  const { blockNumber, cachedRead } = useBlocks();
+  const { currentAddress, isUsingEmbeddedWallet } = useWallet();
+  const { activeNetwork } = useNetwork();
+  const { status: onboardingStatus, startOnboarding } = useOnboarding();
+  const {
+    view,
+    pools,
+    pool,
+    amounts,
+    withdrawAmount,
+    position,
+    isLoadingPosition,
+    tokenDecimals,
+    slippageBps,
+    depositAmounts,
+    depositQuote,
+    withdrawAmounts,
+    withdrawQuote,
+    positionSummary,
+    canAddLiquidity,
+    canRemoveLiquidity,
+    isSubmitting,
+    txLifecycle,
+    phase,
+    error,
+    errorRetryable,
+    setView,
+    setPool,
+    setAmount,
+    setWithdrawAmount,
+    refreshPosition,
+    executeAddLiquidity,
+    executeRemoveLiquidity,
+    dismissError,
+  } = usePool();
+
+  const [balances, setBalances] = useState<Balances>({});
+  const [isLoadingBalances, setIsLoadingBalances] = useState(false);
+  const errorRef = useRef<HTMLDivElement | null>(null);
+
+  const isOnboarded = onboardingStatus === 'completed';
+  const showBalance = isOnboarded && currentAddress !== null;
+
+  // Block-driven refreshes keep the last balances on screen instead of showing a loader
+  const refetchBalances = useCallback(
+    async (showLoading = true) => {
+      if (!isOnboarded || !currentAddress) {
+        setBalances({});
+        return;
+      }
+
+      if (showLoading) setIsLoadingBalances(true);
+      try {
+        setBalances(await cachedRead(`balances:${currentAddress.toString()}`, fetchBalances));
+      } catch {
+        if (showLoading) setBalances({});
+      } finally {
+        if (showLoading) setIsLoadingBalances(false);
+      }
+    },
+    [fetchBalances, cachedRead, currentAddress, isOnboarded],
+  );
+
+  // Balances on load and after each deposit or withdrawal
+  useEffect(() => {
+    if (phase !== 'sending') {
+      refetchBalances();
+    }
+  }, [phase, refetchBalances]);
+
+  // Keep balances and the pool position fresh while the tab is open, re-reading them as each block lands
+  useEffect(() => {
+    if (!isOnboarded || isSubmitting) return;
+    refetchBalances(false);
+    refreshPosition();
+  }, [blockNumber, isOnboarded, isSubmitting, refreshPosition]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Scroll to error when it appears
+  useEffect(() => {
+    if (error) {
+      setTimeout(() => {
+        errorRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+      }, 100);
+    }
+  }, [error]);
+
+  if (!pool) {
+    return (
+      <Paper elevation={3} sx={{ p: 3, backgroundColor: 'background.paper' }}>
+        <Alert severity="info">No liquidity pools are configured on this network.</Alert>
+      </Paper>
+    );
+  }
+
+  const poolTokens = [pool.token0, pool.token1];
+  const token0 = getToken(activeNetwork, pool.token0);
+  const token1 = getToken(activeNetwork, pool.token1);
+  const poolLabel = (p: PoolConfig) =>
+    `${getTokenSymbol(activeNetwork, p.token0)} / ${getTokenSymbol(activeNetwork, p.token1)}`;
+
+  const exceedsBalance = (token: TokenKey) => {
+    const balance = balances[token] ?? null;
+    const amount = parseTokenAmount(amounts[token] ?? '', tokenDecimals[token]);
+    return showBalance && balance !== null && amount !== null && amount > balance;
+  };
+  const liquidityBalance = position?.liquidityBalance ?? null;
+  const parsedWithdrawAmount = parseTokenAmount(withdrawAmount, pool.liquidityToken.decimals);
+  const withdrawExceedsBalance =
+    liquidityBalance !== null && parsedWithdrawAmount !== null && parsedWithdrawAmount > liquidityBalance;
+  const hasBalanceError = view === 'add' ? poolTokens.some(exceedsBalance) : withdrawExceedsBalance;
+
+  const handleMaxClick = (token: TokenKey) => {
+    const balance = balances[token];
+    if (balance !== null && balance !== undefined) {
+      setAmount(token, formatTokenAmount(balance, tokenDecimals[token]));
+    }
+  };
+
+  const handleMaxWithdrawClick = () => {
+    if (liquidityBalance !== null) {
+      setWithdrawAmount(formatTokenAmount(liquidityBalance, pool.liquidityToken.decimals));
+    }
+  };
+
+  const hasAmount = view === 'add' ? depositAmounts !== null : withdrawAmounts !== null;
+  const canSubmit = view === 'add' ? canAddLiquidity : canRemoveLiquidity;
+  const execute = view === 'add' ? executeAddLiquidity : executeRemoveLiquidity;
+
+  const getButtonText = () => {
+    if (!isOnboarded) return 'Connect wallet';
+    if (isLoadingContracts) return 'Loading contracts...';
+    if (!hasAmount) return 'Enter an amount';
+    if (hasBalanceError) return 'Insufficient balance';
+    return view === 'add' ? 'Add liquidity' : 'Remove liquidity';
+  };
+
+  const handleButtonClick = () => {
+    if (!isOnboarded) {
+      startOnboarding();
+    } else {
+      execute();
+    }
+  };
+
+  // Liquidity isn't sponsored, so the embedded wallet has no way to pay the fee
+  const buttonDisabled = isOnboarded && (!canSubmit || hasBalanceError || isUsingEmbeddedWallet);
+  const poolRate = position ? getSpotRate(position.reserves, { tokenIn: pool.token0, tokenOut: pool.token1 }) : null;
+
+  return (
+    <>
+      <Paper
+        elevation={3}
+        sx={{
+          p: 3,
+          backgroundColor: 'background.paper',
+          border: '1px solid',
+          borderColor: 'rgba(212, 255, 40, 0.2)',
+          backdropFilter: 'blur(20px)',
+        }}
+      >
+        {/* Pool */}
+        {pools.length > 1 && (
+          <TextField
+            select
+            fullWidth
+            size="small"
+            label="Pool"
+            value={pool.key}
+            disabled={isSubmitting}
+            onChange={e => setPool(e.target.value)}
+            sx={{ mb: 2 }}
+          >
+            {pools.map(p => (
+              <MenuItem key={p.key} value={p.key}>
+                {poolLabel(p)}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+
+        {/* Add / Remove */}
+        <ToggleButtonGroup
+          value={view}
+          exclusive
+          fullWidth
+          size="small"
+          disabled={isSubmitting}
+          onChange={(_, value) => value && setView(value)}
+          sx={{ mb: 2 }}
+        >
+          <ToggleButton value="add">Add</ToggleButton>
+          <ToggleButton value="remove">Remove</ToggleButton>
+        </ToggleButtonGroup>
+
+        {/* Deposit amounts */}
+        {view === 'add' &&
+          poolTokens.map((token, i) => (
+            <Box key={token}>
+              {i > 0 && (
+                <Box sx={{ display: 'flex', justifyContent: 'center', my: 1, color: 'primary.main' }}>
+                  <AddIcon />
+                </Box>
+              )}
+              <SwapBox
+                label="Deposit"
+                tokenName={getTokenSymbol(activeNetwork, token)}
+                decimals={tokenDecimals[token]}
+                value={amounts[token] ?? ''}
+                onChange={value => setAmount(token, value)}
+                disabled={isSubmitting}
+                balance={balances[token] ?? null}
+                showBalance={showBalance}
+                isLoadingBalance={isLoadingBalances}
+                onMaxClick={() => handleMaxClick(token)}
+                hasError={exceedsBalance(token)}
+              />
+            </Box>
+          ))}
+
+        {/* Withdraw amount */}
+        {view === 'remove' && (
+          <SwapBox
+            label="Withdraw"
+            tokenName={pool.liquidityToken.symbol}
+            decimals={pool.liquidityToken.decimals}
+            value={withdrawAmount}
+            onChange={setWithdrawAmount}
+            disabled={isSubmitting}
+            balance={liquidityBalance}
+            showBalance={showBalance}
+            isLoadingBalance={isLoadingPosition && position === null}
+            onMaxClick={handleMaxWithdrawClick}
+            hasError={withdrawExceedsBalance}
+          />
+        )}
+
+        {/* Pool info */}
+        <Box
+          sx={{
+            mt: 2,
+            p: 2,
+            backgroundColor: 'background.default',
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+          }}
+        >
+          <Typography variant="body2" color="text.secondary">
+            Pool ratio:
+          </Typography>
+          {poolRate === null ? (
+            isLoadingPosition || isOnboarded ? (
+              <CircularProgress size={14} sx={{ color: 'primary.main' }} />
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                -
+              </Typography>
+            )
+          ) : (
+            <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 600 }}>
+              1 {token0.symbol} = {poolRate.toFixed(6)} {token1.symbol}
+            </Typography>
+          )}
+        </Box>
+        {view === 'add' ? (
+          <AddLiquidityDetails
+            quote={depositQuote}
+            amounts={depositAmounts}
+            slippageBps={slippageBps}
+            token0={token0}
+            token1={token1}
+            liquidityToken={pool.liquidityToken}
+          />
+        ) : (
+          <RemoveLiquidityDetails
+            quote={withdrawQuote}
+            amounts={withdrawAmounts}
+            slippageBps={slippageBps}
+            token0={token0}
+            token1={token1}
+          />
+        )}
+
+        {isOnboarded && isUsingEmbeddedWallet && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            Liquidity transactions aren't sponsored. Connect an external wallet to pay the network fee yourself.
+          </Alert>
+        )}
+
+        {/* Submit Button or Progress */}
+        {isSubmitting ? (
+          <SwapProgress
+            lifecycle={txLifecycle}
+            statusText={view === 'add' ? 'Adding liquidity' : 'Removing liquidity'}
+          />
+        ) : (
+          <>
+            <Button
+              fullWidth
+              variant="contained"
+              size="large"
+              disabled={buttonDisabled}
+              onClick={handleButtonClick}
+              sx={{
+                mt: 3,
+                py: 2,
+                fontSize: '1.125rem',
+                fontWeight: 600,
+                background: 'linear-gradient(135deg, #80336A 0%, #9d4d87 100%)',
+                color: '#F2EEE1',
+                '&:hover': {
+                  background: 'linear-gradient(135deg, #9d4d87 0%, #b35fa0 100%)',
+                  boxShadow: '0px 4px 20px rgba(128, 51, 106, 0.5)',
+                },
+                '&:disabled': {
+                  backgroundColor: 'rgba(255, 255, 255, 0.12)',
+                  color: 'rgba(255, 255, 255, 0.3)',
+                },
+              }}
+            >
+              {getButtonText()}
+            </Button>
+            {/* Last deposit or withdrawal, followed until its block is finalized */}
+            <TxLifecycleStatus lifecycle={txLifecycle} />
+          </>
+        )}
+
+        {/* Error Display */}
+        <SwapErrorAlert
+          error={error}
+          onDismiss={dismissError}
+          onRetry={errorRetryable ? execute : undefined}
+          errorRef={errorRef}
+        />
+      </Paper>
+
+      {/* LP position */}
+      {positionSummary && (
+        <PositionSummary
+          summary={positionSummary}
+          token0={token0}
+          token1={token1}
+          liquidityToken={pool.liquidityToken}
+        />
+      )}
+    </>
+  );
+}
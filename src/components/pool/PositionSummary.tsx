@@ -0,0 +1,73 @@
+import { Box, Paper, Typography } from '@mui/material';
+import type { PositionSummary as PositionSummaryData } from '../../services/liquidityService';
+import { formatTokenAmount } from '../../utils/tokenAmount';
+import type { TokenMetadata } from '../../config/networks';
+
+type TokenDisplay = Pick<TokenMetadata, 'symbol' | 'decimals'>;
+
+interface PositionSummaryProps {
+  summary: PositionSummaryData;
+  token0: TokenDisplay;
+  token1: TokenDisplay;
+  liquidityToken: TokenDisplay;
+}
+
+function PositionRow({ label, value, color }: { label: string; value: string; color?: string }) {
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', py: 0.5 }}>
+      <Typography variant="body2" color="text.secondary">
+        {label}
+      </Typography>
+      <Typography variant="body2" color={color ?? 'text.primary'} sx={{ fontWeight: 600 }}>
+        {value}
+      </Typography>
+    </Box>
+  );
+}
+
+export function PositionSummary({ summary, token0, token1, liquidityToken }: PositionSummaryProps) {
+  const format = (amount: bigint, token: TokenDisplay) =>
+    `${formatTokenAmount(amount, token.decimals, 6)} ${token.symbol}`;
+
+  const shareLabel = summary.poolSharePct < 0.01 ? '<0.01%' : `${summary.poolSharePct.toFixed(2)}%`;
+
+  let changeLabel = 'Unknown';
+  let changeColor: string | undefined;
+  if (summary.valueChange !== null && summary.valueChangePct !== null) {
+    const sign = summary.valueChange < 0n ? '-' : '+';
+    const magnitude = summary.valueChange < 0n ? -summary.valueChange : summary.valueChange;
+    changeLabel = `${sign}${format(magnitude, token0)} (${sign}${Math.abs(summary.valueChangePct).toFixed(2)}%)`;
+    changeColor = summary.valueChange < 0n ? 'error.main' : 'success.main';
+  }
+
+  return (
+    <Paper
+      elevation={3}
+      sx={{
+        mt: 3,
+        p: 2,
+        backgroundColor: 'background.paper',
+        border: '1px solid',
+        borderColor: 'rgba(212, 255, 40, 0.2)',
+      }}
+    >
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+        Your position
+      </Typography>
+      <PositionRow
+        label="Liquidity tokens"
+        value={`${formatTokenAmount(summary.liquidity, liquidityToken.decimals, 6)} ${liquidityToken.symbol}`}
+      />
+      <PositionRow label="Share of pool" value={shareLabel} />
+      <PositionRow label={`Pooled ${token0.symbol}`} value={format(summary.amount0, token0)} />
+      <PositionRow label={`Pooled ${token1.symbol}`} value={format(summary.amount1, token1)} />
+      <PositionRow label="Value" value={format(summary.value, token0)} />
+      <PositionRow label="Change since deposit" value={changeLabel} color={changeColor} />
+      {summary.valueChange === null && (
+        <Typography variant="caption" color="text.secondary">
+          No deposits recorded in this browser for this position.
+        </Typography>
+      )}
+    </Paper>
+  );
+}
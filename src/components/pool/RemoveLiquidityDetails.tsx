@@ -0,0 +1,44 @@
+import { Box, Typography } from '@mui/material';
+import { formatTokenAmount } from '../../utils/tokenAmount';
+import type { TokenMetadata } from '../../config/networks';
+import type { RemoveLiquidityAmounts } from '../../types';
+
+type TokenDisplay = Pick<TokenMetadata, 'symbol' | 'decimals'>;
+
+interface RemoveLiquidityDetailsProps {
+  quote: { amount0: bigint; amount1: bigint } | null;
+  amounts: RemoveLiquidityAmounts | null;
+  slippageBps: number;
+  token0: TokenDisplay;
+  token1: TokenDisplay;
+}
+
+function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', py: 0.5 }}>
+      <Typography variant="caption" color="text.secondary">
+        {label}
+      </Typography>
+      <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 600 }}>
+        {value}
+      </Typography>
+    </Box>
+  );
+}
+
+export function RemoveLiquidityDetails({ quote, amounts, slippageBps, token0, token1 }: RemoveLiquidityDetailsProps) {
+  if (!quote || !amounts) return null;
+
+  const format = (amount: bigint, token: TokenDisplay) =>
+    `${formatTokenAmount(amount, token.decimals, 6)} ${token.symbol}`;
+
+  return (
+    <Box sx={{ px: 2, pb: 1.5, backgroundColor: 'background.default' }}>
+      <DetailRow label="You receive" value={`${format(quote.amount0, token0)} + ${format(quote.amount1, token1)}`} />
+      <DetailRow
+        label={`Minimum received (${slippageBps / 100}% slippage)`}
+        value={`${format(amounts.amount0Min, token0)} + ${format(amounts.amount1Min, token1)}`}
+      />
+    </Box>
+  );
+}
@@ -0,0 +1 @@
+export { PoolContainer } from './PoolContainer';
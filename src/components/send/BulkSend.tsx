@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Alert, Box, Button, LinearProgress, Typography } from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import DownloadIcon from '@mui/icons-material/Download';
+import { useSend } from '../../contexts/send';
+import { useWallet } from '../../contexts/wallet';
+import {
+  batchBulkSend,
+  buildBulkSendResultsCsv,
+  parseBulkSendCsv,
+  type BulkSendParseResult,
+  type BulkSendResult,
+} from '../../services/bulkSendService';
+import { TokenAmount } from '../../utils/tokenAmount';
+import { downloadFile } from '../../utils/csv';
+
+type BulkSendPhase =
+  | { phase: 'idle' }
+  | { phase: 'parsed'; fileName: string; parsed: BulkSendParseResult }
+  | { phase: 'sending'; batch: number; batchCount: number }
+  | { phase: 'done'; results: BulkSendResult[] };
+
+interface BulkSendProps {
+  onClose: () => void;
+}
+
+export function BulkSend({ onClose }: BulkSendProps) {
+  const { tokens, executeBulkSend } = useSend();
+  const { currentAddress, isUsingEmbeddedWallet } = useWallet();
+  const [state, setState] = useState<BulkSendPhase>({ phase: 'idle' });
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    accept: { 'text/csv': ['.csv'], 'text/plain': ['.txt'] },
+    multiple: false,
+    disabled: !currentAddress || isUsingEmbeddedWallet || state.phase === 'sending',
+    onDrop: async ([file]) => {
+      if (!file || !currentAddress) return;
+      const parsed = parseBulkSendCsv(await file.text(), tokens, currentAddress);
+      setState({ phase: 'parsed', fileName: file.name, parsed });
+    },
+  });
+
+  const handleSend = async (parsed: BulkSendParseResult) => {
+    const results = await executeBulkSend(parsed.rows, (batch, batchCount) =>
+      setState({ phase: 'sending', batch, batchCount }),
+    );
+    setState({ phase: 'done', results });
+  };
+
+  // Per-token totals, so the sender can check the file before anything goes out
+  const totals = (parsed: BulkSendParseResult) => {
+    const byToken = new Map<string, { symbol: string; decimals: number; amount: bigint }>();
+    for (const { token, amount } of parsed.rows) {
+      const total = byToken.get(token.key) ?? { symbol: token.symbol, decimals: token.decimals, amount: 0n };
+      byToken.set(token.key, { ...total, amount: total.amount + amount });
+    }
+    return [...byToken.values()]
+      .map(({ symbol, decimals, amount }) => `${new TokenAmount(amount, decimals).format()} ${symbol}`)
+      .join(', ');
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Typography variant="h6" color="text.primary">
+        Bulk send
+      </Typography>
+
+      {isUsingEmbeddedWallet && (
+        <Alert severity="info">
+          Batched transfers aren't sponsored. Connect an external wallet to pay the network fee yourself.
+        </Alert>
+      )}
+
+      {(state.phase === 'idle' || state.phase === 'parsed') && (
+        <Box
+          {...getRootProps()}
+          sx={{
+            p: 3,
+            textAlign: 'center',
+            cursor: 'pointer',
+            border: '1px dashed',
+            borderColor: isDragActive ? 'primary.main' : 'divider',
+            borderRadius: 2,
+          }}
+        >
+          <input {...getInputProps()} />
+          <UploadFileIcon color="primary" />
+          <Typography variant="body2" color="text.secondary">
+            {state.phase === 'parsed' ? state.fileName : 'Drop a CSV here, or click to pick one'}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            One transfer per line: address, amount, token symbol
+          </Typography>
+        </Box>
+      )}
+
+      {state.phase === 'parsed' && state.parsed.errors.length > 0 && (
+        <Alert severity="error">
+          {state.parsed.errors.slice(0, 5).map(error => (
+            <Box key={error}>{error}</Box>
+          ))}
+          {state.parsed.errors.length > 5 && <Box>and {state.parsed.errors.length - 5} more</Box>}
+        </Alert>
+      )}
+
+      {state.phase === 'parsed' && state.parsed.errors.length === 0 && (
+        <>
+          <Typography variant="body2" color="text.secondary">
+            {state.parsed.rows.length} transfers in {batchBulkSend(state.parsed.rows).length} transactions:{' '}
+            {totals(state.parsed)}
+          </Typography>
+          <Button
+            variant="contained"
+            fullWidth
+            disabled={isUsingEmbeddedWallet}
+            onClick={() => handleSend(state.parsed)}
+            sx={{ fontWeight: 'bold' }}
+          >
+            Send & Generate Links
+          </Button>
+        </>
+      )}
+
+      {state.phase === 'sending' && (
+        <Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            Sending transaction {state.batch} of {state.batchCount}...
+          </Typography>
+          <LinearProgress variant="determinate" value={((state.batch - 1) / state.batchCount) * 100} />
+        </Box>
+      )}
+
+      {state.phase === 'done' && (
+        <>
+          {state.results.some(r => r.status !== 'sent') ? (
+            <Alert severity="error">
+              {state.results.filter(r => r.status === 'sent').length} of {state.results.length} transfers were sent.{' '}
+              {state.results.find(r => r.status !== 'sent')?.error}
+              {state.results.some(r => r.status === 'pending') && (
+                <Box>
+                  {state.results.filter(r => r.status === 'pending').length} more were submitted but not seen mined.
+                  Their links work once they are, and Sent history keeps track of them.
+                </Box>
+              )}
+            </Alert>
+          ) : (
+            <Alert severity="success">All {state.results.length} transfers were sent.</Alert>
+          )}
+          <Button
+            variant="contained"
+            fullWidth
+            startIcon={<DownloadIcon />}
+            onClick={() =>
+              downloadFile('gregoswap-claim-links.csv', buildBulkSendResultsCsv(state.results), 'text/csv')
+            }
+            sx={{ fontWeight: 'bold' }}
+          >
+            Download claim links
+          </Button>
+        </>
+      )}
+
+      <Button variant="outlined" fullWidth onClick={onClose} disabled={state.phase === 'sending'}>
+        {state.phase === 'done' ? 'Done' : 'Back to single send'}
+      </Button>
+    </Box>
+  );
+}
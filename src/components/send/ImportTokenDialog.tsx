@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Alert, Button, Dialog, DialogActions, DialogContent, DialogTitle, TextField, Typography } from '@mui/material';
+import { useContracts } from '../../contexts/contracts';
+import type { ImportedToken } from '../../services/importedTokenService';
+
+interface ImportTokenDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImported: (token: ImportedToken) => void;
+}
+
+export function ImportTokenDialog({ open, onClose, onImported }: ImportTokenDialogProps) {
+  const { importToken, isLoadingContracts } = useContracts();
+  const [address, setAddress] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    if (isImporting) return; // don't allow close while in-flight
+    setAddress('');
+    setError(null);
+    onClose();
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      const token = await importToken(address);
+      setAddress('');
+      onImported(token);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import token');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Import token</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Enter the address of a Token contract on this network. Its name, symbol and decimals are read from the
+          contract.
+        </Typography>
+        <TextField
+          label="Token address"
+          placeholder="0x..."
+          value={address}
+          onChange={e => setAddress(e.target.value)}
+          fullWidth
+          size="small"
+          disabled={isImporting}
+        />
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={isImporting}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleImport}
+          variant="contained"
+          disabled={!address.trim() || isImporting || isLoadingContracts}
+        >
+          {isImporting ? 'Importing...' : 'Import'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
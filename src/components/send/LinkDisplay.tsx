@@ -6,14 +6,13 @@ import { useState } from 'react';
 interface LinkDisplayProps {
   link: string;
   amount: string;
-  token: 'gc' | 'gcp';
+  tokenName: string;
   recipient: string;
   onReset: () => void;
 }
 
-export function LinkDisplay({ link, amount, token, recipient, onReset }: LinkDisplayProps) {
+export function LinkDisplay({ link, amount, tokenName, recipient, onReset }: LinkDisplayProps) {
   const [copied, setCopied] = useState(false);
-  const tokenName = token === 'gc' ? 'GregoCoin' : 'GregoCoinPremium';
 
   const handleCopy = async () => {
     await navigator.clipboard.writeText(link);
@@ -1,36 +1,39 @@
-import { Box, Alert, Dialog, DialogTitle, DialogContent, CircularProgress, Typography } from '@mui/material';
+import { Box, Alert, Button, Dialog, DialogTitle, DialogContent, CircularProgress, Typography } from '@mui/material';
 import { useSend } from '../../contexts/send';
 import { useWallet } from '../../contexts/wallet';
 import { useContracts } from '../../contexts/contracts';
+import { useBlocks } from '../../contexts/blocks';
 import { SendForm } from './SendForm';
 import { SendProgress } from './SendProgress';
 import { LinkDisplay } from './LinkDisplay';
 import { SentHistory } from './SentHistory';
+import { BulkSend } from './BulkSend';
+import { TxLifecycleStatus } from '../TxLifecycleStatus';
 import { DripPasswordInput } from '../onboarding/DripPasswordInput';
-import { parseDripError } from '../../services/contractService';
+import { classifyError } from '../../services/errorService';
+import { useTxLifecycle } from '../../hooks/useTxLifecycle';
 import { useEffect, useState } from 'react';
+import type { Balances } from '../../types';
 
 type FaucetPhase = 'idle' | 'registering' | 'awaiting_password' | 'dripping';
 
 export function SendContainer() {
-  const { phase, error, generatedLink, token, amount, recipientAddress, dismissError, reset } = useSend();
+  const { phase, error, generatedLink, selectedToken, amount, recipientAddress, txLifecycle, dismissError, reset } = useSend();
   const { currentAddress } = useWallet();
   const { fetchBalances, registerDripContracts, drip } = useContracts();
-  const [balances, setBalances] = useState<{ gc: bigint | null; gcp: bigint | null }>({ gc: null, gcp: null });
+  const { blockNumber, cachedRead } = useBlocks();
+  const [balances, setBalances] = useState<Balances>({});
   const [faucetPhase, setFaucetPhase] = useState<FaucetPhase>('idle');
   const [faucetError, setFaucetError] = useState<string | null>(null);
+  const [isBulk, setIsBulk] = useState(false);
+  const dripTx = useTxLifecycle();
 
+  // Balances on load and on every new block, which also picks up sends once they're mined
   useEffect(() => {
     if (currentAddress) {
-      fetchBalances().then(([gc, gcp]) => setBalances({ gc, gcp }));
+      cachedRead(`balances:${currentAddress.toString()}`, fetchBalances).then(setBalances, () => {});
     }
-  }, [currentAddress, fetchBalances]);
-
-  useEffect(() => {
-    if (phase === 'link_ready' && currentAddress) {
-      fetchBalances().then(([gc, gcp]) => setBalances({ gc, gcp }));
-    }
-  }, [phase, currentAddress, fetchBalances]);
+  }, [currentAddress, fetchBalances, cachedRead, blockNumber]);
 
   const handleOpenFaucet = async () => {
     setFaucetError(null);
@@ -47,13 +50,14 @@ export function SendContainer() {
   const handleDripSubmit = async (password: string) => {
     if (!currentAddress) return;
     setFaucetPhase('dripping');
+    dripTx.start();
     try {
-      await drip(password, currentAddress);
-      const [gc, gcp] = await fetchBalances();
-      setBalances({ gc, gcp });
+      dripTx.complete(await drip(password, currentAddress, dripTx.update));
+      setBalances(await fetchBalances());
       setFaucetPhase('idle');
     } catch (err) {
-      setFaucetError(parseDripError(err));
+      dripTx.fail();
+      setFaucetError(classifyError(err, 'drip').message);
       setFaucetPhase('awaiting_password');
     }
   };
@@ -66,17 +70,25 @@ export function SendContainer() {
 
   return (
     <Box>
-      {phase === 'link_ready' && generatedLink ? (
-        <LinkDisplay link={generatedLink} amount={amount} token={token} recipient={recipientAddress} onReset={reset} />
+      {isBulk ? (
+        <BulkSend onClose={() => setIsBulk(false)} />
+      ) : phase === 'link_ready' && generatedLink ? (
+        <>
+          <LinkDisplay link={generatedLink} amount={amount} tokenName={selectedToken?.name ?? ''} recipient={recipientAddress} onReset={reset} />
+          <TxLifecycleStatus lifecycle={txLifecycle} />
+        </>
       ) : (
         <>
-          <SendForm balance={balances} onRequestFaucet={handleOpenFaucet} faucetBusy={faucetPhase !== 'idle'} />
-          <SendProgress phase={phase} />
+          <SendForm balances={balances} onRequestFaucet={handleOpenFaucet} faucetBusy={faucetPhase !== 'idle'} />
+          <SendProgress phase={phase} lifecycle={txLifecycle} />
+          {phase === 'idle' && (
+            <Button variant="text" fullWidth size="small" onClick={() => setIsBulk(true)} sx={{ mt: 1 }}>Bulk send from CSV</Button>
+          )}
         </>
       )}
       {error && <Alert severity="error" onClose={dismissError} sx={{ mt: 2 }}>{error}</Alert>}
       {faucetError && <Alert severity="error" onClose={() => setFaucetError(null)} sx={{ mt: 2 }}>{faucetError}</Alert>}
-      {currentAddress && <SentHistory senderAddress={currentAddress.toString()} />}
+      <SentHistory />
 
       <Dialog open={faucetPhase === 'awaiting_password' || faucetPhase === 'dripping'} onClose={closeDialog} maxWidth="xs" fullWidth>
         <DialogTitle>Get tokens from faucet</DialogTitle>
@@ -85,6 +97,7 @@ export function SendContainer() {
             <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 2, py: 3 }}>
               <CircularProgress size={24} color="primary" />
               <Typography variant="body2" color="text.secondary">Claiming tokens...</Typography>
+              <TxLifecycleStatus lifecycle={dripTx.lifecycle} />
             </Box>
           ) : (
             <DripPasswordInput onSubmit={handleDripSubmit} />
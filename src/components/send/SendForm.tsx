@@ -1,18 +1,31 @@
-import { Box, TextField, Typography, ToggleButton, ToggleButtonGroup, Button } from '@mui/material';
+import { Alert, Box, TextField, Typography, MenuItem, Button, FormControlLabel, Switch } from '@mui/material';
 import WaterDropIcon from '@mui/icons-material/WaterDrop';
+import AddIcon from '@mui/icons-material/Add';
+import { useState } from 'react';
 import { useSend } from '../../contexts/send';
+import { useNetwork } from '../../contexts/network';
+import { useWallet } from '../../contexts/wallet';
+import { ImportTokenDialog } from './ImportTokenDialog';
+import { formatTokenAmount } from '../../utils/tokenAmount';
+import type { Balances } from '../../types';
 
 interface SendFormProps {
-  balance: { gc: bigint | null; gcp: bigint | null };
+  balances: Balances;
   onRequestFaucet: () => void;
   faucetBusy: boolean;
 }
 
-export function SendForm({ balance, onRequestFaucet, faucetBusy }: SendFormProps) {
-  const { token, recipientAddress, amount, phase, setToken, setRecipientAddress, setAmount, canSend, executeSend } = useSend();
+export function SendForm({ balances, onRequestFaucet, faucetBusy }: SendFormProps) {
+  const { token, tokens, selectedToken, recipientAddress, isBearer, isTokenSponsored, canSendBearer, amount, phase, setToken, setRecipientAddress, setBearer, setAmount, canSend, executeSend } = useSend();
+  const [importOpen, setImportOpen] = useState(false);
   const isSending = phase === 'sending' || phase === 'generating_link';
-  const currentBalance = token === 'gc' ? balance.gc : balance.gcp;
-  const selectedTokenIsEmpty = currentBalance === 0n;
+  const { activeNetwork } = useNetwork();
+  const { isUsingEmbeddedWallet } = useWallet();
+  const currentBalance = balances[token] ?? null;
+  const decimals = selectedToken?.decimals ?? 0;
+  // The faucet only mints the network's own tokens, not imported ones
+  const isConfiguredToken = activeNetwork.tokens.some(t => t.key === token);
+  const selectedTokenIsEmpty = currentBalance === 0n && isConfiguredToken;
 
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
@@ -20,15 +33,31 @@ export function SendForm({ balance, onRequestFaucet, faucetBusy }: SendFormProps
         <Typography variant="caption" color="text.secondary" sx={{ mb: 0.5, display: 'block' }}>
           Token
         </Typography>
-        <ToggleButtonGroup value={token} exclusive onChange={(_, v) => v && setToken(v)} size="small" fullWidth disabled={isSending}>
-          <ToggleButton value="gc">GregoCoin</ToggleButton>
-          <ToggleButton value="gcp">GregoCoinPremium</ToggleButton>
-        </ToggleButtonGroup>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <TextField select value={selectedToken ? token : ''} onChange={e => setToken(e.target.value)} size="small" fullWidth disabled={isSending}>
+            {tokens.map(t => (
+              <MenuItem key={t.key} value={t.key}>{t.name} ({t.symbol})</MenuItem>
+            ))}
+          </TextField>
+          <Button variant="outlined" size="small" onClick={() => setImportOpen(true)} disabled={isSending} startIcon={<AddIcon />} sx={{ whiteSpace: 'nowrap' }}>
+            Import
+          </Button>
+        </Box>
       </Box>
-      <TextField label="Recipient Address" placeholder="0x..." value={recipientAddress} onChange={e => setRecipientAddress(e.target.value)} fullWidth disabled={isSending} size="small" />
+      <FormControlLabel
+        control={<Switch checked={isBearer} onChange={e => setBearer(e.target.checked)} disabled={isSending || !canSendBearer} size="small" />}
+        label={<Typography variant="body2">Anyone with the link can claim</Typography>}
+      />
+      {isBearer ? (
+        <Typography variant="caption" color="text.secondary">
+          The link carries the key to the funds. Share it only with the person you're paying, like cash.
+        </Typography>
+      ) : (
+        <TextField label="Recipient Address" placeholder="0x..." value={recipientAddress} onChange={e => setRecipientAddress(e.target.value)} fullWidth disabled={isSending} size="small" />
+      )}
       <Box>
         <TextField label="Amount" type="number" value={amount} onChange={e => setAmount(e.target.value)} fullWidth disabled={isSending} size="small"
-          slotProps={{ input: { endAdornment: currentBalance !== null ? <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>Balance: {currentBalance.toString()}</Typography> : null } }} />
+          slotProps={{ input: { endAdornment: currentBalance !== null ? <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>Balance: {formatTokenAmount(currentBalance, decimals, 4)}</Typography> : null } }} />
       </Box>
       {selectedTokenIsEmpty && (
         <Button
@@ -42,9 +71,15 @@ export function SendForm({ balance, onRequestFaucet, faucetBusy }: SendFormProps
           {faucetBusy ? 'Preparing faucet...' : 'Get tokens from faucet'}
         </Button>
       )}
+      {selectedToken && !isTokenSponsored && isUsingEmbeddedWallet && (
+        <Alert severity="info">
+          Transfers of {selectedToken.symbol} aren't sponsored, so the sender pays the network fee. Connect an external wallet to send it.
+        </Alert>
+      )}
       <Button variant="contained" fullWidth disabled={!canSend || isSending} onClick={executeSend} sx={{ mt: 1, fontWeight: 'bold' }}>
         {isSending ? 'Sending...' : 'Send & Generate Link'}
       </Button>
+      <ImportTokenDialog open={importOpen} onClose={() => setImportOpen(false)} onImported={t => setToken(t.key)} />
     </Box>
   );
 }
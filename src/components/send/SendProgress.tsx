@@ -1,8 +1,11 @@
 import { Box, Typography, CircularProgress } from '@mui/material';
 import type { SendPhase } from '../../contexts/send';
+import { useWallet } from '../../contexts/wallet';
+import { getTxStageLabel, shortTxHash, type TxLifecycle } from '../../services/txLifecycleService';
 
 interface SendProgressProps {
   phase: SendPhase;
+  lifecycle: TxLifecycle | null;
 }
 
 const phaseMessages: Record<string, string> = {
@@ -10,13 +13,17 @@ const phaseMessages: Record<string, string> = {
   generating_link: 'Generating claim link...',
 };
 
-export function SendProgress({ phase }: SendProgressProps) {
-  const message = phaseMessages[phase];
+export function SendProgress({ phase, lifecycle }: SendProgressProps) {
+  const { isUsingEmbeddedWallet } = useWallet();
+  const message = phase === 'sending' && lifecycle ? getTxStageLabel(lifecycle, isUsingEmbeddedWallet) : phaseMessages[phase];
   if (!message) return null;
   return (
     <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, py: 2, justifyContent: 'center' }}>
       <CircularProgress size={20} color="primary" />
-      <Typography variant="body2" color="text.secondary">{message}</Typography>
+      <Box>
+        <Typography variant="body2" color="text.secondary">{message}</Typography>
+        {lifecycle?.txHash && <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>{shortTxHash(lifecycle.txHash)}</Typography>}
+      </Box>
     </Box>
   );
 }
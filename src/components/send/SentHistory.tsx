@@ -1,22 +1,13 @@
-import { Box, Typography, IconButton, Snackbar, Chip } from '@mui/material';
+import { Box, Typography, IconButton, Snackbar, Chip, Tooltip } from '@mui/material';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import AutorenewIcon from '@mui/icons-material/Autorenew';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import { useState } from 'react';
-import { getSentTransfers, type SentTransfer } from '../../services/sentHistoryService';
-
-interface SentHistoryProps {
-  senderAddress: string;
-}
-
-function timeAgo(timestamp: number): string {
-  const seconds = Math.floor((Date.now() - timestamp) / 1000);
-  if (seconds < 60) return `${seconds}s ago`;
-  const minutes = Math.floor(seconds / 60);
-  if (minutes < 60) return `${minutes}m ago`;
-  const hours = Math.floor(minutes / 60);
-  if (hours < 24) return `${hours}h ago`;
-  return `${Math.floor(hours / 24)}d ago`;
-}
+import { getSentTransferToken, type SentTransfer } from '../../services/sentHistoryService';
+import { useNetwork } from '../../contexts/network';
+import { useSend } from '../../contexts/send';
+import { formatTokenAmount, parseStoredAmount } from '../../utils/tokenAmount';
+import { timeAgo } from '../../utils/time';
 
 function StatusChip({ status }: { status: SentTransfer['status'] }) {
   if (status === 'confirmed') return null;
@@ -24,10 +15,14 @@ function StatusChip({ status }: { status: SentTransfer['status'] }) {
   return <Chip label={status} size="small" color={color} variant="outlined" sx={{ fontSize: '0.7em' }} />;
 }
 
-export function SentHistory({ senderAddress }: SentHistoryProps) {
+export function SentHistory() {
   const [copied, setCopied] = useState(false);
+  const [copiedMessage, setCopiedMessage] = useState('');
   const [expanded, setExpanded] = useState(false);
-  const transfers = getSentTransfers(senderAddress);
+  const { activeNetwork } = useNetwork();
+  const { sentTransfers: transfers, regenerateSentLink } = useSend();
+
+  const displayToken = (transfer: SentTransfer) => getSentTransferToken(transfer, activeNetwork);
 
   if (transfers.length === 0) return null;
 
@@ -36,6 +31,13 @@ export function SentHistory({ senderAddress }: SentHistoryProps) {
 
   const handleCopy = async (link: string) => {
     await navigator.clipboard.writeText(link);
+    setCopiedMessage('Link copied!');
+    setCopied(true);
+  };
+
+  const handleRegenerate = async (transferId: string) => {
+    await navigator.clipboard.writeText(regenerateSentLink(transferId));
+    setCopiedMessage('Link regenerated and copied!');
     setCopied(true);
   };
 
@@ -45,13 +47,19 @@ export function SentHistory({ senderAddress }: SentHistoryProps) {
       {visibleTransfers.map(transfer => (
         <Box key={transfer.id} sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', py: 1, borderBottom: '1px solid', borderColor: 'divider' }}>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-            <Typography variant="body2" color="primary" sx={{ fontWeight: 'bold' }}>{transfer.amount} {transfer.token === 'gc' ? 'GC' : 'GCP'}</Typography>
-            <Typography variant="caption" color="text.secondary">→ {transfer.recipient.slice(0, 8)}...{transfer.recipient.slice(-4)}</Typography>
+            <Typography variant="body2" color="primary" sx={{ fontWeight: 'bold' }}>{formatTokenAmount(parseStoredAmount(transfer.amount), displayToken(transfer).decimals, 4)} {displayToken(transfer).symbol}</Typography>
+            <Typography variant="caption" color="text.secondary">→ {transfer.bearer ? 'anyone with the link' : `${transfer.recipient.slice(0, 8)}...${transfer.recipient.slice(-4)}`}</Typography>
             <StatusChip status={transfer.status} />
           </Box>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
             <Typography variant="caption" color="text.secondary">{timeAgo(transfer.createdAt)}</Typography>
-            <IconButton size="small" color="primary" onClick={() => handleCopy(transfer.link)}><ContentCopyIcon fontSize="small" /></IconButton>
+            {/* Links of transfers that never made it on chain can't be claimed, so they aren't handed out again */}
+            {transfer.status === 'confirmed' && (
+              <>
+                <Tooltip title="Regenerate link"><IconButton size="small" color="primary" onClick={() => handleRegenerate(transfer.id)}><AutorenewIcon fontSize="small" /></IconButton></Tooltip>
+                <Tooltip title="Copy link"><IconButton size="small" color="primary" onClick={() => handleCopy(transfer.link)}><ContentCopyIcon fontSize="small" /></IconButton></Tooltip>
+              </>
+            )}
           </Box>
         </Box>
       ))}
@@ -62,7 +70,7 @@ export function SentHistory({ senderAddress }: SentHistoryProps) {
           </IconButton>
         </Box>
       )}
-      <Snackbar open={copied} autoHideDuration={2000} onClose={() => setCopied(false)} message="Link copied!" />
+      <Snackbar open={copied} autoHideDuration={2000} onClose={() => setCopied(false)} message={copiedMessage} />
     </Box>
   );
 }
@@ -0,0 +1,125 @@
+import { useState, type ChangeEvent } from 'react';
+import { Alert, Box, Button, Typography } from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import { useWallet } from '../../contexts/wallet';
+import { useNetwork } from '../../contexts/network';
+import { useSend } from '../../contexts/send';
+import {
+  buildSentTransfersCsv,
+  exportLocalData,
+  importLocalData,
+  parseLocalDataFile,
+  type LocalDataImportSummary,
+} from '../../services/localDataService';
+import { downloadFile } from '../../utils/csv';
+
+function describeImport(summary: LocalDataImportSummary): string {
+  const counts: [number, string][] = [
+    [summary.sentTransfers, 'sent transfers'],
+    [summary.swaps, 'swaps'],
+    [summary.liquidityRecords, 'liquidity records'],
+    [summary.importedTokens, 'imported tokens'],
+    [summary.claimedLinks, 'claimed links'],
+    [summary.subscriptions, 'subscriptions'],
+  ];
+  const parts = counts.filter(([count]) => count !== 0).map(([count, label]) => `${count} ${label}`);
+  const skipped = summary.skipped > 0 ? ` Skipped ${summary.skipped} unreadable entries.` : '';
+  if (parts.length === 0) {
+    return skipped ? `Nothing was restored.${skipped}` : 'Everything in the file was already here.';
+  }
+  // Imported tokens are registered with the wallet when the app loads
+  const reload = summary.importedTokens > 0 ? ' Reload the app to use the restored tokens.' : '';
+  return `Restored ${parts.join(', ')}.${skipped}${reload}`;
+}
+
+export function SettingsContainer() {
+  const { currentAddress } = useWallet();
+  const { activeNetwork, availableNetworks } = useNetwork();
+  const { sentTransfers, refreshSentTransfers } = useSend();
+  const [result, setResult] = useState<{ severity: 'success' | 'error'; message: string } | null>(null);
+
+  if (!currentAddress) {
+    return (
+      <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center' }}>
+        Connect a wallet to back up or restore its data.
+      </Typography>
+    );
+  }
+  const account = currentAddress.toString();
+
+  const handleExport = () => {
+    const networkIds = availableNetworks.map(n => n.id);
+    const data = exportLocalData(account, networkIds);
+    downloadFile(`gregoswap-${account.slice(0, 10)}.json`, JSON.stringify(data, null, 2), 'application/json');
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(
+      `gregoswap-transfers-${account.slice(0, 10)}.csv`,
+      buildSentTransfersCsv(sentTransfers, activeNetwork),
+      'text/csv',
+    );
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // lets the same file be picked again
+    if (!file) return;
+
+    try {
+      const summary = importLocalData(parseLocalDataFile(await file.text()), account);
+      refreshSentTransfers();
+      setResult({ severity: 'success', message: describeImport(summary) });
+    } catch (err) {
+      setResult({ severity: 'error', message: err instanceof Error ? err.message : 'Failed to import the file' });
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Box>
+        <Typography variant="h6" color="text.primary">
+          Your data
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Sent transfers, swap and liquidity history, imported tokens and subscriptions are kept only in this browser.
+          Export them to keep a backup or to move them to another device.
+        </Typography>
+      </Box>
+      <Alert severity="warning">
+        The export holds the claim links of your transfers. Anyone with an unclaimed bearer link can take its funds, so
+        keep the file as private as the links themselves.
+      </Alert>
+      <Button variant="contained" fullWidth startIcon={<DownloadIcon />} onClick={handleExport}>
+        Export data
+      </Button>
+      <Button variant="outlined" fullWidth startIcon={<UploadFileIcon />} component="label">
+        Import data
+        <input type="file" accept="application/json,.json" hidden onChange={handleImport} />
+      </Button>
+      {result && (
+        <Alert severity={result.severity} onClose={() => setResult(null)}>
+          {result.message}
+        </Alert>
+      )}
+      <Box sx={{ mt: 2 }}>
+        <Typography variant="h6" color="text.primary">
+          Bookkeeping
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Every transfer sent from this account, with its amount, recipient, status and claim link.
+        </Typography>
+      </Box>
+      <Button
+        variant="outlined"
+        fullWidth
+        startIcon={<DownloadIcon />}
+        onClick={handleExportCsv}
+        disabled={sentTransfers.length === 0}
+      >
+        Export transfers (CSV)
+      </Button>
+    </Box>
+  );
+}
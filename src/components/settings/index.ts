@@ -0,0 +1 @@
+export { SettingsContainer } from './SettingsContainer';
@@ -3,9 +3,11 @@ import { Box, Typography, CircularProgress } from '@mui/material';
 interface ExchangeRateDisplayProps {
   exchangeRate: number | null;
   isLoadingRate: boolean;
+  fromSymbol: string;
+  toSymbol: string;
 }
 
-export function ExchangeRateDisplay({ exchangeRate, isLoadingRate }: ExchangeRateDisplayProps) {
+export function ExchangeRateDisplay({ exchangeRate, isLoadingRate, fromSymbol, toSymbol }: ExchangeRateDisplayProps) {
 
   return (
     <Box
@@ -30,7 +32,7 @@ export function ExchangeRateDisplay({ exchangeRate, isLoadingRate }: ExchangeRat
         </Box>
       ) : (
         <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 600 }}>
-          1 GRG = {exchangeRate.toFixed(18)} GRGP
+          1 {fromSymbol} = {exchangeRate.toFixed(18)} {toSymbol}
         </Typography>
       )}
     </Box>
@@ -1,8 +1,10 @@
-import { Box, Typography, TextField, Paper, Button } from '@mui/material';
+import { Box, Typography, TextField, Paper, Button, Select, MenuItem } from '@mui/material';
+import { formatTokenAmount } from '../../utils/tokenAmount';
 
 interface SwapBoxProps {
   label: string;
   tokenName: string;
+  decimals: number;
   value: string;
   onChange: (value: string) => void;
   disabled?: boolean;
@@ -13,22 +15,28 @@ interface SwapBoxProps {
   onMaxClick?: () => void;
   placeholder?: string;
   hasError?: boolean;
+  /** Tokens to choose from; without them the token is fixed */
+  tokenOptions?: { key: string; symbol: string }[];
+  selectedToken?: string;
+  onTokenChange?: (token: string) => void;
 }
 
-export function SwapBox({ label, tokenName, value, onChange, disabled = false, usdValue, balance, showBalance = false, isLoadingBalance = false, onMaxClick, placeholder = '0.0', hasError = false }: SwapBoxProps) {
-  // Format balance: balance is stored as whole units (not wei)
+export function SwapBox({ label, tokenName, decimals, value, onChange, disabled = false, usdValue, balance, showBalance = false, isLoadingBalance = false, onMaxClick, placeholder = '0.0', hasError = false, tokenOptions, selectedToken, onTokenChange }: SwapBoxProps) {
+  // Format balance: balance is stored in base units
   const formatBalance = (bal: bigint | null | undefined, loading: boolean): string => {
     // If loading, always show "..." regardless of whether we have old data
     if (loading) return '...';
     if (bal === null || bal === undefined) return '0.00';
-    return Number(bal).toFixed(2);
+    return formatTokenAmount(bal, decimals, 4);
   };
 
+  // Only allow numbers and a decimal point, with no more fraction digits than the token has
+  const inputPattern = new RegExp(`^\\d*\\.?\\d{0,${decimals}}$`);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
 
-    // Only allow numbers and decimal point
-    if (newValue === '' || /^\d*\.?\d*$/.test(newValue)) {
+    if (newValue === '' || inputPattern.test(newValue)) {
       onChange(newValue);
     }
   };
@@ -60,7 +68,7 @@ export function SwapBox({ label, tokenName, value, onChange, disabled = false, u
             <Typography variant="body2" color="text.secondary" fontWeight={500}>
               Balance: {formatBalance(balance, isLoadingBalance)}
             </Typography>
-            {onMaxClick && !isLoadingBalance && balance !== null && balance !== undefined && Number(balance) > 0 && (
+            {onMaxClick && !isLoadingBalance && balance !== null && balance !== undefined && balance > 0n && (
               <Button
                 size="small"
                 onClick={onMaxClick}
@@ -135,9 +143,33 @@ export function SwapBox({ label, tokenName, value, onChange, disabled = false, u
             color: '#9d4d87',
           }}
         >
-          <Typography variant="body1" fontWeight={700} sx={{ fontSize: '0.9rem', letterSpacing: '0.02em' }}>
-            {tokenName}
-          </Typography>
+          {tokenOptions && onTokenChange ? (
+            <Select
+              variant="standard"
+              disableUnderline
+              value={selectedToken ?? ''}
+              onChange={e => onTokenChange(e.target.value)}
+              disabled={disabled}
+              aria-label={`${label} token`}
+              sx={{
+                fontSize: '0.9rem',
+                fontWeight: 700,
+                letterSpacing: '0.02em',
+                color: 'inherit',
+                '& .MuiSelect-icon': { color: 'inherit' },
+              }}
+            >
+              {tokenOptions.map(option => (
+                <MenuItem key={option.key} value={option.key}>
+                  {option.symbol}
+                </MenuItem>
+              ))}
+            </Select>
+          ) : (
+            <Typography variant="body1" fontWeight={700} sx={{ fontSize: '0.9rem', letterSpacing: '0.02em' }}>
+              {tokenName}
+            </Typography>
+          )}
         </Box>
       </Box>
 
@@ -4,25 +4,48 @@
  */
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { Paper, Box, Collapse, Alert } from '@mui/material';
+import {
+  Paper,
+  Box,
+  Collapse,
+  Alert,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+} from '@mui/material';
 import SwapVertIcon from '@mui/icons-material/SwapVert';
 import { SwapBox } from './SwapBox';
 import { SwapProgress } from './SwapProgress';
 import { ExchangeRateDisplay } from './ExchangeRateDisplay';
+import { SwapLimitDisplay } from './SwapLimitDisplay';
+import { SwapSettings } from './SwapSettings';
+import { SwapDetailsPanel } from './SwapDetailsPanel';
+import { SwapHistory } from './SwapHistory';
 import { SwapButton } from './SwapButton';
 import { SwapErrorAlert } from './SwapErrorAlert';
 import { SubscriptionStatusBadge } from './SubscriptionStatusBadge';
 import { SponsorshipToggle } from './SponsorshipToggle';
+import { TxLifecycleStatus } from '../TxLifecycleStatus';
 import { useContracts } from '../../contexts/contracts';
 import { useWallet } from '../../contexts/wallet';
+import { useNetwork } from '../../contexts/network';
 import { useOnboarding } from '../../contexts/onboarding';
 import { useSwap } from '../../contexts/swap';
+import { useBlocks } from '../../contexts/blocks';
 import { useSubscriptionStatus } from '../../hooks/useSubscriptionStatus';
+import { getTokenSymbol } from '../../config/networks';
 import type { Balances } from '../../types';
+import { formatTokenAmount, parseTokenAmount } from '../../utils/tokenAmount';
 
 export function SwapContainer() {
   const { isLoadingContracts, fetchBalances } = useContracts();
   const { currentAddress, isUsingEmbeddedWallet } = useWallet();
+  const { activeNetwork } = useNetwork();
+  const { blockNumber, cachedRead } = useBlocks();
   const {
     status: onboardingStatus,
     startOnboarding,
@@ -33,26 +56,60 @@ export function SwapContainer() {
   } = useOnboarding();
 
   const {
+    direction,
+    tokens,
+    hasRoute,
+    route,
+    isMultiHop,
+    routeNotice,
+    sponsorshipNotice,
     fromAmount,
     toAmount,
-    exchangeRate,
+    tokenDecimals,
+    directionalRate,
     isLoadingRate,
     fromAmountUSD,
     toAmountUSD,
     canSwap,
     isSwapping,
-    phase: swapPhase,
+    txLifecycle,
+    swapAmounts,
+    swapDetails,
+    swapSettings,
+    updateSwapSettings,
+    mode: swapMode,
     error: swapError,
+    errorRetryable: swapErrorRetryable,
     bypassSponsorship,
     setBypassSponsorship,
     setFromAmount,
     setToAmount,
+    flipDirection,
+    selectToken,
     executeSwap,
     dismissError: dismissSwapError,
   } = useSwap();
 
-  const subscriptionStatus = useSubscriptionStatus(swapPhase, dripPhase);
+  const { tokenIn, tokenOut } = direction;
+  const symbolIn = getTokenSymbol(activeNetwork, tokenIn);
+  const symbolOut = getTokenSymbol(activeNetwork, tokenOut);
+  const tokenOptions = tokens.map(t => ({ key: t.key, symbol: t.symbol }));
+  const tokenSymbols = Object.fromEntries(tokens.map(t => [t.key, t.symbol]));
+  const routeSymbols = route
+    ? [symbolIn, ...route.hops.map(hop => getTokenSymbol(activeNetwork, hop.tokenOut))]
+    : [symbolIn, symbolOut];
+
+  const subscriptionStatus = useSubscriptionStatus(direction, swapMode);
   const isBlocked = subscriptionStatus.kind === 'full' || subscriptionStatus.kind === 'depleted';
+  const isSponsored =
+    !bypassSponsorship &&
+    !isMultiHop &&
+    (subscriptionStatus.kind === 'sponsored' || subscriptionStatus.kind === 'active');
+
+  // Extra confirmation for swaps above the price impact threshold
+  const [confirmHighImpactOpen, setConfirmHighImpactOpen] = useState(false);
+  const needsImpactConfirmation =
+    swapDetails !== null && swapDetails.priceImpactPct * 100 > swapSettings.priceImpactConfirmBps;
 
   // Drip success banner
   const [showDripSuccess, setShowDripSuccess] = useState(false);
@@ -69,35 +126,37 @@ export function SwapContainer() {
   }, [dripPhase]);
 
   // Local balance state
-  const [balances, setBalances] = useState<Balances>({ gregoCoin: null, gregoCoinPremium: null });
+  const [balances, setBalances] = useState<Balances>({});
   const [isLoadingBalances, setIsLoadingBalances] = useState(false);
 
   const swapErrorRef = useRef<HTMLDivElement | null>(null);
 
   const isOnboarded = onboardingStatus === 'completed';
 
-  // Fetch balances
-  const refetchBalances = useCallback(async () => {
-    if (!isOnboarded || !currentAddress) {
-      setBalances({ gregoCoin: null, gregoCoinPremium: null });
-      return;
-    }
+  // Fetch balances. Block-driven refreshes keep the last balances on screen instead of showing a loader
+  const refetchBalances = useCallback(
+    async (showLoading = true) => {
+      if (!isOnboarded || !currentAddress) {
+        setBalances({});
+        return;
+      }
 
-    setIsLoadingBalances(true);
-    try {
-      const [gcBalance, gcpBalance] = await fetchBalances();
-      setBalances({ gregoCoin: gcBalance, gregoCoinPremium: gcpBalance });
-    } catch {
-      setBalances({ gregoCoin: null, gregoCoinPremium: null });
-    } finally {
-      setIsLoadingBalances(false);
-    }
-  }, [fetchBalances, currentAddress, isOnboarded]);
+      if (showLoading) setIsLoadingBalances(true);
+      try {
+        setBalances(await cachedRead(`balances:${currentAddress.toString()}`, fetchBalances));
+      } catch {
+        if (showLoading) setBalances({});
+      } finally {
+        if (showLoading) setIsLoadingBalances(false);
+      }
+    },
+    [fetchBalances, cachedRead, currentAddress, isOnboarded],
+  );
 
   // Clear balances when not onboarded or losing address
   useEffect(() => {
     if (!isOnboarded || !currentAddress) {
-      setBalances({ gregoCoin: null, gregoCoinPremium: null });
+      setBalances({});
     }
   }, [isOnboarded, currentAddress]);
 
@@ -108,13 +167,12 @@ export function SwapContainer() {
     }
   }, [onboardingStatus, refetchBalances]);
 
-  // Batched refresh after swap or drip success — single wallet roundtrip for
-  // exchange rate + balances + subscription status
+  // Refresh on every new block, which also picks up the user's own swaps once they're mined
   useEffect(() => {
-    if (swapPhase === 'success') {
-      refetchBalances();
+    if (isOnboarded) {
+      refetchBalances(false);
     }
-  }, [swapPhase, refetchBalances]);
+  }, [blockNumber]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Scroll to error when it appears
   useEffect(() => {
@@ -125,8 +183,8 @@ export function SwapContainer() {
     }
   }, [swapError, dripError]);
 
-  const handleSwapClick = () => {
-    setShowDripSuccess(false);
+  // Onboarding runs the swap as soon as it completes, so the price impact is confirmed before it starts
+  const startSwap = () => {
     if (!isOnboarded) {
       startOnboarding(true);
     } else {
@@ -134,15 +192,31 @@ export function SwapContainer() {
     }
   };
 
+  const handleSwapClick = () => {
+    setShowDripSuccess(false);
+    if (needsImpactConfirmation) {
+      setConfirmHighImpactOpen(true);
+    } else {
+      startSwap();
+    }
+  };
+
+  const handleConfirmHighImpact = () => {
+    setConfirmHighImpactOpen(false);
+    startSwap();
+  };
+
   const handleMaxFromClick = () => {
-    if (balances.gregoCoin !== null) {
-      setFromAmount(balances.gregoCoin.toString());
+    const balance = balances[tokenIn];
+    if (balance !== null && balance !== undefined) {
+      setFromAmount(formatTokenAmount(balance, tokenDecimals[tokenIn]));
     }
   };
 
   const handleMaxToClick = () => {
-    if (balances.gregoCoinPremium !== null) {
-      setToAmount(balances.gregoCoinPremium.toString());
+    const balance = balances[tokenOut];
+    if (balance !== null && balance !== undefined) {
+      setToAmount(formatTokenAmount(balance, tokenDecimals[tokenOut]));
     }
   };
 
@@ -153,16 +227,15 @@ export function SwapContainer() {
   const disableToBox = isSwapping;
 
   // Show "..." placeholder when rate is unavailable and opposite box has value
-  const isRateUnavailable = isLoadingRate || exchangeRate === null;
+  const isRateUnavailable = isLoadingRate || directionalRate === null;
   const fromPlaceholder = isRateUnavailable && toAmount !== '' ? '...' : '0.0';
   const toPlaceholder = isRateUnavailable && fromAmount !== '' ? '...' : '0.0';
 
   // Calculate if FROM amount exceeds balance
+  const fromBalance = balances[tokenIn] ?? null;
+  const parsedFromAmount = parseTokenAmount(fromAmount, tokenDecimals[tokenIn]);
   const fromHasError =
-    showBalance &&
-    balances.gregoCoin !== null &&
-    fromAmount !== '' &&
-    parseFloat(fromAmount) > Number(balances.gregoCoin);
+    showBalance && fromBalance !== null && parsedFromAmount !== null && parsedFromAmount > fromBalance;
 
   // Combined error handling
   const displayError = swapError || dripError;
@@ -172,111 +245,215 @@ export function SwapContainer() {
   };
 
   return (
-    <Paper
-      elevation={3}
-      sx={{
-        p: 3,
-        backgroundColor: 'background.paper',
-        border: '1px solid',
-        borderColor: 'rgba(212, 255, 40, 0.2)',
-        backdropFilter: 'blur(20px)',
-      }}
-    >
-      {/* From Token */}
-      <SwapBox
-        label="From"
-        tokenName="GRG"
-        value={fromAmount}
-        onChange={setFromAmount}
-        disabled={disableFromBox}
-        usdValue={fromAmountUSD}
-        balance={balances.gregoCoin}
-        showBalance={showBalance}
-        isLoadingBalance={isLoadingBalances}
-        onMaxClick={handleMaxFromClick}
-        placeholder={fromPlaceholder}
-        hasError={fromHasError}
-      />
-
-      {/* Swap Direction Icon (visual only) */}
-      <Box sx={{ display: 'flex', justifyContent: 'center', my: -2, position: 'relative', zIndex: 1 }}>
-        <Box
-          sx={{
-            backgroundColor: 'rgba(18, 18, 28, 1)',
-            border: '2px solid',
-            borderColor: 'rgba(212, 255, 40, 0.3)',
-            color: 'primary.main',
-            boxShadow: '0 0 0 4px rgba(18, 18, 28, 1)',
-            borderRadius: '50%',
-            width: 40,
-            height: 40,
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center',
-          }}
-        >
-          <SwapVertIcon />
+    <>
+      <Paper
+        elevation={3}
+        sx={{
+          p: 3,
+          backgroundColor: 'background.paper',
+          border: '1px solid',
+          borderColor: 'rgba(212, 255, 40, 0.2)',
+          backdropFilter: 'blur(20px)',
+        }}
+      >
+        {/* Swap Settings */}
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: -1.5, mb: 0.5 }}>
+          <SwapSettings settings={swapSettings} onChange={updateSwapSettings} disabled={isSwapping} />
         </Box>
-      </Box>
-
-      {/* To Token */}
-      <SwapBox
-        label="To"
-        tokenName="GRGP"
-        value={toAmount}
-        onChange={setToAmount}
-        disabled={disableToBox}
-        usdValue={toAmountUSD * 5}
-        balance={balances.gregoCoinPremium}
-        showBalance={showBalance}
-        isLoadingBalance={isLoadingBalances}
-        onMaxClick={handleMaxToClick}
-        placeholder={toPlaceholder}
-      />
-
-      {/* Exchange Rate Info */}
-      <ExchangeRateDisplay exchangeRate={exchangeRate} isLoadingRate={isLoadingRate} />
-
-      {/* Drip success banner */}
-      <Collapse in={showDripSuccess} timeout={{ enter: 300, exit: 600 }}>
-        <Alert
-          severity="success"
-          onClose={() => setShowDripSuccess(false)}
-          sx={{
-            mt: 2,
-            backgroundColor: 'rgba(212, 255, 40, 0.08)',
-            border: '1px solid rgba(212, 255, 40, 0.3)',
-            color: '#D4FF28',
-            '& .MuiAlert-icon': { color: '#D4FF28' },
-            '& .MuiIconButton-root': { color: '#D4FF28' },
-          }}
-        >
-          GregoCoin received — you're ready to swap!
-        </Alert>
-      </Collapse>
-
-      {/* Swap Button or Progress */}
-      {isSwapping ? (
-        <SwapProgress />
-      ) : (
-        <>
-          <SwapButton
-            onClick={handleSwapClick}
-            disabled={!canSwap || isDripping || isBlocked}
-            contractsLoading={isLoadingContracts}
-            hasAmount={!!fromAmount && parseFloat(fromAmount) > 0}
-            subscriptionStatus={subscriptionStatus}
-          />
-          {!isUsingEmbeddedWallet && subscriptionStatus.kind !== 'no_fpc' ? (
-            <SponsorshipToggle status={subscriptionStatus} value={bypassSponsorship} onChange={setBypassSponsorship} />
-          ) : (
-            <SubscriptionStatusBadge status={subscriptionStatus} />
-          )}
-        </>
-      )}
 
-      {/* Error Display */}
-      <SwapErrorAlert error={displayError} onDismiss={handleDismissError} errorRef={swapErrorRef} />
-    </Paper>
+        {/* From Token */}
+        <SwapBox
+          label="From"
+          tokenName={symbolIn}
+          tokenOptions={tokenOptions}
+          selectedToken={tokenIn}
+          onTokenChange={token => selectToken('in', token)}
+          decimals={tokenDecimals[tokenIn]}
+          value={fromAmount}
+          onChange={setFromAmount}
+          disabled={disableFromBox}
+          usdValue={fromAmountUSD}
+          balance={fromBalance}
+          showBalance={showBalance}
+          isLoadingBalance={isLoadingBalances}
+          onMaxClick={handleMaxFromClick}
+          placeholder={fromPlaceholder}
+          hasError={fromHasError}
+        />
+
+        {/* Swap Direction Toggle */}
+        <Box sx={{ display: 'flex', justifyContent: 'center', my: -2, position: 'relative', zIndex: 1 }}>
+          <IconButton
+            onClick={flipDirection}
+            disabled={isSwapping}
+            aria-label="Flip swap direction"
+            sx={{
+              backgroundColor: 'rgba(18, 18, 28, 1)',
+              border: '2px solid',
+              borderColor: 'rgba(212, 255, 40, 0.3)',
+              color: 'primary.main',
+              boxShadow: '0 0 0 4px rgba(18, 18, 28, 1)',
+              borderRadius: '50%',
+              width: 40,
+              height: 40,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              transition: 'transform 0.2s ease-in-out',
+              '&:hover': {
+                backgroundColor: 'rgba(18, 18, 28, 1)',
+                borderColor: 'primary.main',
+                transform: 'rotate(180deg)',
+              },
+            }}
+          >
+            <SwapVertIcon />
+          </IconButton>
+        </Box>
+
+        {/* To Token */}
+        <SwapBox
+          label="To"
+          tokenName={symbolOut}
+          tokenOptions={tokenOptions}
+          selectedToken={tokenOut}
+          onTokenChange={token => selectToken('out', token)}
+          decimals={tokenDecimals[tokenOut]}
+          value={toAmount}
+          onChange={setToAmount}
+          disabled={disableToBox}
+          usdValue={toAmountUSD}
+          balance={balances[tokenOut] ?? null}
+          showBalance={showBalance}
+          isLoadingBalance={isLoadingBalances}
+          onMaxClick={handleMaxToClick}
+          placeholder={toPlaceholder}
+        />
+
+        {!hasRoute && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            No pools route {symbolIn} to {symbolOut} on this network.
+          </Alert>
+        )}
+
+        {/* Exchange Rate Info */}
+        <ExchangeRateDisplay
+          exchangeRate={directionalRate}
+          isLoadingRate={isLoadingRate}
+          fromSymbol={symbolIn}
+          toSymbol={symbolOut}
+        />
+        <SwapLimitDisplay
+          swapAmounts={swapAmounts}
+          slippageBps={swapSettings.slippageBps}
+          fromSymbol={symbolIn}
+          toSymbol={symbolOut}
+          fromDecimals={tokenDecimals[tokenIn]}
+          toDecimals={tokenDecimals[tokenOut]}
+        />
+        <SwapDetailsPanel
+          details={swapDetails}
+          fromSymbol={symbolIn}
+          toSymbol={symbolOut}
+          fromDecimals={tokenDecimals[tokenIn]}
+          toDecimals={tokenDecimals[tokenOut]}
+          route={routeSymbols}
+          isSponsored={isSponsored}
+          priceImpactWarnBps={swapSettings.priceImpactWarnBps}
+        />
+
+        {routeNotice && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            {routeNotice}
+          </Alert>
+        )}
+
+        {sponsorshipNotice && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            {sponsorshipNotice}
+          </Alert>
+        )}
+
+        {/* Drip success banner */}
+        <Collapse in={showDripSuccess} timeout={{ enter: 300, exit: 600 }}>
+          <Alert
+            severity="success"
+            onClose={() => setShowDripSuccess(false)}
+            sx={{
+              mt: 2,
+              backgroundColor: 'rgba(212, 255, 40, 0.08)',
+              border: '1px solid rgba(212, 255, 40, 0.3)',
+              color: '#D4FF28',
+              '& .MuiAlert-icon': { color: '#D4FF28' },
+              '& .MuiIconButton-root': { color: '#D4FF28' },
+            }}
+          >
+            GregoCoin received — you're ready to swap!
+          </Alert>
+        </Collapse>
+
+        {/* Swap Button or Progress */}
+        {isSwapping ? (
+          <SwapProgress lifecycle={txLifecycle} />
+        ) : (
+          <>
+            <SwapButton
+              onClick={handleSwapClick}
+              disabled={!canSwap || isDripping || isBlocked}
+              contractsLoading={isLoadingContracts}
+              hasAmount={parsedFromAmount !== null && parsedFromAmount > 0n}
+              subscriptionStatus={subscriptionStatus}
+            />
+            {!isUsingEmbeddedWallet && subscriptionStatus.kind !== 'no_fpc' ? (
+              <SponsorshipToggle
+                status={subscriptionStatus}
+                value={bypassSponsorship}
+                onChange={setBypassSponsorship}
+              />
+            ) : (
+              <SubscriptionStatusBadge status={subscriptionStatus} />
+            )}
+            {/* Last swap, followed until its block is finalized */}
+            <TxLifecycleStatus lifecycle={txLifecycle} />
+          </>
+        )}
+
+        {/* Error Display */}
+        <SwapErrorAlert
+          error={displayError}
+          onDismiss={handleDismissError}
+          onRetry={swapError && swapErrorRetryable && !dripError ? handleSwapClick : undefined}
+          errorRef={swapErrorRef}
+        />
+
+        {/* High price impact confirmation */}
+        <Dialog open={confirmHighImpactOpen} onClose={() => setConfirmHighImpactOpen(false)}>
+          <DialogTitle>High price impact</DialogTitle>
+          <DialogContent>
+            <Typography variant="body2" color="text.secondary">
+              This swap moves the price by {swapDetails?.priceImpactPct.toFixed(2)}%, above your{' '}
+              {swapSettings.priceImpactConfirmBps / 100}% confirmation threshold. You will receive noticeably less than
+              the spot price suggests.
+            </Typography>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setConfirmHighImpactOpen(false)}>Cancel</Button>
+            <Button onClick={handleConfirmHighImpact} variant="contained" color="warning">
+              Swap anyway
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Paper>
+
+      {/* Swap History */}
+      {currentAddress && (
+        <SwapHistory
+          networkId={activeNetwork.id}
+          accountAddress={currentAddress.toString()}
+          tokenDecimals={tokenDecimals}
+          tokenSymbols={tokenSymbols}
+        />
+      )}
+    </>
   );
 }
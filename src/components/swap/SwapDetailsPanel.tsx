@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { Box, Typography, Collapse, ButtonBase } from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import type { SwapDetails } from '../../services/quoteService';
+import { formatTokenAmount } from '../../utils/tokenAmount';
+
+interface SwapDetailsPanelProps {
+  details: SwapDetails | null;
+  fromSymbol: string;
+  toSymbol: string;
+  fromDecimals: number;
+  toDecimals: number;
+  /** Symbols of the tokens the swap trades through, from input to output */
+  route: string[];
+  isSponsored: boolean;
+  priceImpactWarnBps: number;
+}
+
+function DetailRow({ label, value, color }: { label: string; value: string; color?: string }) {
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', py: 0.5 }}>
+      <Typography variant="caption" color="text.secondary">
+        {label}
+      </Typography>
+      <Typography variant="caption" sx={{ fontWeight: 600, color: color ?? 'text.secondary' }}>
+        {value}
+      </Typography>
+    </Box>
+  );
+}
+
+export function SwapDetailsPanel({
+  details,
+  fromSymbol,
+  toSymbol,
+  fromDecimals,
+  toDecimals,
+  route,
+  isSponsored,
+  priceImpactWarnBps,
+}: SwapDetailsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (!details) return null;
+
+  const isHighImpact = details.priceImpactPct * 100 > priceImpactWarnBps;
+  const impactColor = isHighImpact ? '#ff9800' : undefined;
+  const impactLabel = details.priceImpactPct < 0.01 ? '<0.01%' : `${details.priceImpactPct.toFixed(2)}%`;
+  const isMultiHop = route.length > 2;
+
+  return (
+    <Box sx={{ px: 2, pb: 1.5, backgroundColor: 'background.default' }}>
+      <ButtonBase
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+        sx={{ width: '100%', display: 'flex', justifyContent: 'space-between', py: 0.5 }}
+      >
+        <Typography variant="caption" color="text.secondary">
+          Swap details
+        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <Typography variant="caption" sx={{ fontWeight: 600, color: impactColor ?? 'text.secondary' }}>
+            {impactLabel} price impact
+          </Typography>
+          <ExpandMoreIcon
+            fontSize="small"
+            sx={{
+              color: 'text.secondary',
+              transform: expanded ? 'rotate(180deg)' : 'none',
+              transition: 'transform 0.2s ease-in-out',
+            }}
+          />
+        </Box>
+      </ButtonBase>
+
+      <Collapse in={expanded}>
+        <DetailRow label="Route" value={route.join(' → ')} />
+        <DetailRow label="Price impact" value={impactLabel} color={impactColor} />
+        <DetailRow
+          label={isMultiHop ? 'LP fees (0.3% per hop)' : 'LP fee (0.3%)'}
+          value={`${formatTokenAmount(details.lpFee, fromDecimals, 6)} ${fromSymbol}`}
+        />
+        <DetailRow
+          label="Execution price"
+          value={`1 ${fromSymbol} = ${details.executionRate.toFixed(6)} ${toSymbol}`}
+        />
+        <DetailRow label="Spot price" value={`1 ${fromSymbol} = ${details.spotRate.toFixed(6)} ${toSymbol}`} />
+        {/* A route's reserves span several pools, so there's no single pair to show */}
+        {!isMultiHop && (
+          <DetailRow
+            label="Pool reserves"
+            value={`${formatTokenAmount(details.reserveIn, fromDecimals, 2)} ${fromSymbol} / ${formatTokenAmount(details.reserveOut, toDecimals, 2)} ${toSymbol}`}
+          />
+        )}
+        <DetailRow label="Network fee" value={isSponsored ? 'Sponsored' : 'Paid by you'} />
+      </Collapse>
+
+      {isHighImpact && (
+        <Typography variant="caption" sx={{ display: 'block', mt: 0.5, color: '#ff9800' }}>
+          This trade moves the price by {impactLabel}. Consider a smaller amount.
+        </Typography>
+      )}
+    </Box>
+  );
+}
@@ -1,19 +1,28 @@
-import { Collapse, Alert } from '@mui/material';
+import { Collapse, Alert, Button } from '@mui/material';
 import type { RefObject } from 'react';
 
 interface SwapErrorAlertProps {
   error: string | null;
   onDismiss: () => void;
+  /** Offered when the same swap can be submitted again */
+  onRetry?: () => void;
   errorRef?: RefObject<HTMLDivElement>;
 }
 
-export function SwapErrorAlert({ error, onDismiss, errorRef }: SwapErrorAlertProps) {
+export function SwapErrorAlert({ error, onDismiss, onRetry, errorRef }: SwapErrorAlertProps) {
   return (
     <Collapse in={!!error}>
       <Alert
         ref={errorRef}
         severity="error"
         onClose={onDismiss}
+        action={
+          onRetry && (
+            <Button color="inherit" size="small" onClick={onRetry}>
+              Try again
+            </Button>
+          )
+        }
         sx={{
           mt: 2,
           backgroundColor: 'rgba(211, 47, 47, 0.1)',
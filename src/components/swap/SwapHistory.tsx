@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { Box, Typography, IconButton, Snackbar, Chip, Tooltip } from '@mui/material';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import { getSwapHistory, type SwapRecord } from '../../services/swapHistoryService';
+import { DEFAULT_TOKEN_DECIMALS, type TokenKey } from '../../types';
+import { formatTokenAmount } from '../../utils/tokenAmount';
+import { timeAgo } from '../../utils/time';
+
+interface SwapHistoryProps {
+  networkId: string;
+  accountAddress: string;
+  tokenDecimals: Record<TokenKey, number>;
+  tokenSymbols: Record<TokenKey, string>;
+}
+
+function SwapRecordRow({
+  record,
+  tokenDecimals,
+  tokenSymbols,
+  onCopy,
+}: {
+  record: SwapRecord;
+  tokenDecimals: Record<TokenKey, number>;
+  tokenSymbols: Record<TokenKey, string>;
+  onCopy: (value: string) => void;
+}) {
+  const { tokenIn, tokenOut } = record;
+  const format = (amount: string, token: TokenKey) =>
+    formatTokenAmount(BigInt(amount), tokenDecimals[token] ?? DEFAULT_TOKEN_DECIMALS, 4);
+  // Only the fixed side is exact: the other one, and so the price, is the quote the swap was sent with
+  const amountIn = `${record.mode === 'exactOut' ? '~' : ''}${format(record.amountIn, tokenIn)}`;
+  const amountOut = `${record.mode === 'exactIn' ? '~' : ''}${format(record.amountOut, tokenOut)}`;
+  const symbolIn = tokenSymbols[tokenIn] ?? tokenIn;
+  const symbolOut = tokenSymbols[tokenOut] ?? tokenOut;
+  const limit =
+    record.mode === 'exactIn'
+      ? `min ${format(record.amountLimit, tokenOut)} ${symbolOut}`
+      : `max ${format(record.amountLimit, tokenIn)} ${symbolIn}`;
+
+  return (
+    <Box sx={{ py: 1, borderBottom: '1px solid', borderColor: 'divider' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="body2" color="primary" sx={{ fontWeight: 'bold' }}>
+            {amountIn} {symbolIn} → {amountOut} {symbolOut}
+          </Typography>
+          {record.status === 'pending' && (
+            <Chip label="pending" size="small" color="warning" variant="outlined" sx={{ fontSize: '0.7em' }} />
+          )}
+          {record.status === 'failed' && (
+            <Tooltip title={record.error ?? ''}>
+              <Chip label="failed" size="small" color="error" variant="outlined" sx={{ fontSize: '0.7em' }} />
+            </Tooltip>
+          )}
+        </Box>
+        <Typography variant="caption" color="text.secondary">
+          {timeAgo(record.createdAt)}
+        </Typography>
+      </Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Typography variant="caption" color="text.secondary">
+          1 {symbolIn} ≈ {record.effectivePrice.toFixed(6)} {symbolOut}
+          {` · ${limit}`} · {record.sponsored ? 'Sponsored' : 'Self-paid'}
+          {record.blockNumber !== undefined && ` · Block ${record.blockNumber}`}
+        </Typography>
+        {record.txHash && (
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+              {record.txHash.slice(0, 8)}...{record.txHash.slice(-4)}
+            </Typography>
+            <IconButton size="small" color="primary" onClick={() => onCopy(record.txHash!)} aria-label="Copy tx hash">
+              <ContentCopyIcon sx={{ fontSize: 14 }} />
+            </IconButton>
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+}
+
+export function SwapHistory({ networkId, accountAddress, tokenDecimals, tokenSymbols }: SwapHistoryProps) {
+  const [copied, setCopied] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+  const records = getSwapHistory(networkId, accountAddress);
+
+  if (records.length === 0) return null;
+
+  const visibleRecords = expanded ? records : records.slice(0, 3);
+  const hasMore = records.length > 3;
+
+  const handleCopy = async (value: string) => {
+    await navigator.clipboard.writeText(value);
+    setCopied(true);
+  };
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+        Swap history
+      </Typography>
+      {visibleRecords.map(record => (
+        <SwapRecordRow
+          key={record.id}
+          record={record}
+          tokenDecimals={tokenDecimals}
+          tokenSymbols={tokenSymbols}
+          onCopy={handleCopy}
+        />
+      ))}
+      {hasMore && (
+        <Box sx={{ textAlign: 'center', mt: 1 }}>
+          <IconButton
+            size="small"
+            onClick={() => setExpanded(!expanded)}
+            sx={{ transform: expanded ? 'rotate(180deg)' : 'none', transition: '0.2s' }}
+          >
+            <ExpandMoreIcon />
+          </IconButton>
+        </Box>
+      )}
+      <Snackbar open={copied} autoHideDuration={2000} onClose={() => setCopied(false)} message="Tx hash copied!" />
+    </Box>
+  );
+}
@@ -0,0 +1,48 @@
+import { Box, Typography } from '@mui/material';
+import type { SwapAmounts } from '../../types';
+import { formatTokenAmount } from '../../utils/tokenAmount';
+
+interface SwapLimitDisplayProps {
+  swapAmounts: SwapAmounts | null;
+  slippageBps: number;
+  fromSymbol: string;
+  toSymbol: string;
+  fromDecimals: number;
+  toDecimals: number;
+}
+
+export function SwapLimitDisplay({
+  swapAmounts,
+  slippageBps,
+  fromSymbol,
+  toSymbol,
+  fromDecimals,
+  toDecimals,
+}: SwapLimitDisplayProps) {
+  if (!swapAmounts) return null;
+
+  const [label, amount, symbol, decimals] =
+    swapAmounts.mode === 'exactIn'
+      ? ['Minimum received', swapAmounts.amountOutMin, toSymbol, toDecimals]
+      : ['Maximum sold', swapAmounts.amountInMax, fromSymbol, fromDecimals];
+
+  return (
+    <Box
+      sx={{
+        px: 2,
+        pb: 2,
+        backgroundColor: 'background.default',
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+      }}
+    >
+      <Typography variant="body2" color="text.secondary">
+        {label} ({slippageBps / 100}% slippage):
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 600 }}>
+        {formatTokenAmount(amount, decimals, 6)} {symbol}
+      </Typography>
+    </Box>
+  );
+}
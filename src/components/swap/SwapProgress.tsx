@@ -1,4 +1,6 @@
 import { Box, Typography, keyframes } from '@mui/material';
+import { useWallet } from '../../contexts/wallet';
+import { getTxStageLabel, shortTxHash, type TxLifecycle } from '../../services/txLifecycleService';
 
 const spin = keyframes`
   0% {
@@ -39,9 +41,16 @@ const shimmer = keyframes`
   }
 `;
 
-export function SwapProgress() {
-  const statusText = 'Swapping';
-  const statusDetail = 'Proving & sending transaction...';
+interface SwapProgressProps {
+  lifecycle: TxLifecycle | null;
+  statusText?: string;
+}
+
+export function SwapProgress({ lifecycle, statusText = 'Swapping' }: SwapProgressProps) {
+  const { isUsingEmbeddedWallet } = useWallet();
+  const statusDetail = lifecycle
+    ? getTxStageLabel(lifecycle, isUsingEmbeddedWallet)
+    : 'Proving & sending transaction...';
   return (
     <Box
       sx={{
@@ -165,6 +174,19 @@ export function SwapProgress() {
         >
           {statusDetail}
         </Typography>
+
+        {/* Tx hash, once the wallet has produced the tx */}
+        {lifecycle?.txHash && (
+          <Typography
+            variant="caption"
+            sx={{
+              color: 'rgba(242, 238, 225, 0.5)',
+              fontFamily: 'monospace',
+            }}
+          >
+            {shortTxHash(lifecycle.txHash)}
+          </Typography>
+        )}
       </Box>
     </Box>
   );
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import {
+  Box,
+  IconButton,
+  Popover,
+  ToggleButtonGroup,
+  ToggleButton,
+  TextField,
+  Typography,
+  InputAdornment,
+} from '@mui/material';
+import SettingsIcon from '@mui/icons-material/Settings';
+import {
+  SLIPPAGE_PRESETS_BPS,
+  MAX_SLIPPAGE_BPS,
+  type SwapSettings as SwapSettingsValues,
+} from '../../services/swapSettingsService';
+
+interface SwapSettingsProps {
+  settings: SwapSettingsValues;
+  onChange: (update: Partial<SwapSettingsValues>) => void;
+  disabled?: boolean;
+}
+
+function formatPercent(bps: number): string {
+  return `${bps / 100}%`;
+}
+
+/**
+ * Parses a percentage with up to two decimals into basis points, or null if it isn't one
+ */
+function parsePercentToBps(value: string): number | null {
+  if (!/^\d*\.?\d{0,2}$/.test(value)) return null;
+  const bps = Math.round(parseFloat(value) * 100);
+  return isNaN(bps) ? null : bps;
+}
+
+interface ThresholdFieldProps {
+  label: string;
+  bps: number;
+  onChange: (bps: number) => void;
+}
+
+function ThresholdField({ label, bps, onChange }: ThresholdFieldProps) {
+  const [value, setValue] = useState(String(bps / 100));
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newValue = e.target.value;
+    if (newValue !== '' && parsePercentToBps(newValue) === null) return;
+    setValue(newValue);
+
+    const next = parsePercentToBps(newValue);
+    if (next !== null && next > 0 && next <= 10000) {
+      onChange(next);
+    }
+  };
+
+  return (
+    <TextField
+      size="small"
+      label={label}
+      value={value}
+      onChange={handleChange}
+      slotProps={{
+        input: { endAdornment: <InputAdornment position="end">%</InputAdornment> },
+        htmlInput: { inputMode: 'decimal' },
+      }}
+      sx={{ flex: 1 }}
+    />
+  );
+}
+
+export function SwapSettings({ settings, onChange, disabled = false }: SwapSettingsProps) {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [customValue, setCustomValue] = useState('');
+
+  const { slippageBps } = settings;
+  const isPreset = SLIPPAGE_PRESETS_BPS.includes(slippageBps);
+
+  const handleCustomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newValue = e.target.value;
+    if (newValue !== '' && parsePercentToBps(newValue) === null) return;
+    setCustomValue(newValue);
+
+    const bps = parsePercentToBps(newValue);
+    if (bps !== null && bps > 0 && bps <= MAX_SLIPPAGE_BPS) {
+      onChange({ slippageBps: bps });
+    }
+  };
+
+  const handleClose = () => {
+    setAnchorEl(null);
+    setCustomValue('');
+  };
+
+  return (
+    <>
+      <IconButton
+        size="small"
+        onClick={e => setAnchorEl(e.currentTarget)}
+        disabled={disabled}
+        aria-label="Swap settings"
+        sx={{ color: 'text.secondary', '&:hover': { color: 'primary.main' } }}
+      >
+        <SettingsIcon fontSize="small" />
+      </IconButton>
+      <Popover
+        open={anchorEl !== null}
+        anchorEl={anchorEl}
+        onClose={handleClose}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+        slotProps={{
+          paper: {
+            sx: {
+              p: 2,
+              width: 300,
+              backgroundColor: 'background.paper',
+              border: '1px solid',
+              borderColor: 'rgba(212, 255, 40, 0.2)',
+            },
+          },
+        }}
+      >
+        <Typography variant="body2" fontWeight={600} sx={{ mb: 0.5 }}>
+          Slippage tolerance
+        </Typography>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1.5 }}>
+          Your swap reverts if the price moves against you by more than this.
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={isPreset ? slippageBps : null}
+            onChange={(_, next) => {
+              if (next !== null) {
+                setCustomValue('');
+                onChange({ slippageBps: next });
+              }
+            }}
+            sx={{
+              '& .MuiToggleButton-root': {
+                px: 1.25,
+                textTransform: 'none',
+                color: 'text.secondary',
+                borderColor: 'rgba(255,255,255,0.1)',
+                '&.Mui-selected': {
+                  color: '#D4FF28',
+                  backgroundColor: 'rgba(212,255,40,0.1)',
+                  borderColor: 'rgba(212,255,40,0.3)',
+                },
+              },
+            }}
+          >
+            {SLIPPAGE_PRESETS_BPS.map(bps => (
+              <ToggleButton key={bps} value={bps}>
+                {formatPercent(bps)}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <TextField
+            size="small"
+            placeholder={isPreset ? 'Custom' : String(slippageBps / 100)}
+            value={customValue}
+            onChange={handleCustomChange}
+            slotProps={{
+              input: { endAdornment: <InputAdornment position="end">%</InputAdornment> },
+              htmlInput: { inputMode: 'decimal' },
+            }}
+            sx={{ flex: 1 }}
+          />
+        </Box>
+        {slippageBps > 500 && (
+          <Typography variant="caption" sx={{ display: 'block', mt: 1, color: '#ff9800' }}>
+            High tolerance: you may receive a much worse price than quoted.
+          </Typography>
+        )}
+
+        <Typography variant="body2" fontWeight={600} sx={{ mt: 2.5, mb: 0.5 }}>
+          Price impact
+        </Typography>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1.5 }}>
+          Warn about large trades, and ask for confirmation above the second threshold.
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <ThresholdField
+            label="Warn above"
+            bps={settings.priceImpactWarnBps}
+            onChange={bps => onChange({ priceImpactWarnBps: bps })}
+          />
+          <ThresholdField
+            label="Confirm above"
+            bps={settings.priceImpactConfirmBps}
+            onChange={bps => onChange({ priceImpactConfirmBps: bps })}
+          />
+        </Box>
+      </Popover>
+    </>
+  );
+}
@@ -5,34 +5,45 @@
 
 import type { AppCapabilities, ContractFunctionPattern } from '@aztec/aztec.js/wallet';
 import { AztecAddress } from '@aztec/aztec.js/addresses';
-import type { NetworkConfig } from './networks';
+import type { NetworkConfig, TokenMetadata } from './networks';
 
 /**
  * Creates a comprehensive capability manifest for GregoSwap based on network configuration.
  *
  * This manifest requests upfront authorization for all operations needed during:
  * - Onboarding (account access, contract registration, initial simulations)
- * - Swap flow (simulations, transaction execution, auth witness creation)
+ * - Swap flow in both directions on every pool (simulations, transaction execution, auth witness creation)
  * - Balance queries (private balance lookups)
  * - Drip flow (ProofOfPassword token claiming)
+ * - Liquidity deposits and withdrawals (LQT supply and balance queries, add/remove_liquidity with token authwits)
+ * - Offchain sends and claims of the network's tokens and the ones the user imported (direct transfers, note delivery)
  *
  * With these capabilities granted:
  * - First launch: 1 capability dialog + per-transaction approvals
  * - Subsequent launches: 0 capability dialogs (already granted) + per-transaction approvals
  * - Reduction from 15+ authorization dialogs to 2 total
  *
- * @param network - Network configuration with contract addresses
+ * Tokens imported after the manifest was granted aren't covered, so their calls are approved one by one.
+ *
+ * @param network - Network configuration with token, pool and contract addresses
+ * @param importedTokens - Tokens the user imported on this network
  * @returns AppCapabilities manifest with specific contract addresses and functions
  */
-export function createGregoSwapCapabilities(network: NetworkConfig): AppCapabilities {
+export function createGregoSwapCapabilities(
+  network: NetworkConfig,
+  importedTokens: TokenMetadata[] = [],
+): AppCapabilities {
   // Parse contract addresses from network config
-  const gregoCoinAddress = AztecAddress.fromString(network.contracts.gregoCoin);
-  const gregoCoinPremiumAddress = AztecAddress.fromString(network.contracts.gregoCoinPremium);
-  const ammAddress = AztecAddress.fromString(network.contracts.amm);
+  const tokenAddresses = network.tokens.map(token => AztecAddress.fromString(token.address));
+  const importedTokenAddresses = importedTokens.map(token => AztecAddress.fromString(token.address));
+  // Every token the user can send, configured or imported
+  const sendableTokenAddresses = [...tokenAddresses, ...importedTokenAddresses];
+  const ammAddresses = network.pools.map(pool => AztecAddress.fromString(pool.address));
+  const liquidityTokenAddresses = network.pools.map(pool => AztecAddress.fromString(pool.liquidityToken.address));
   const popAddress = AztecAddress.fromString(network.contracts.pop);
 
   // All contracts that need registration
-  const contractAddresses = [ammAddress, gregoCoinAddress, gregoCoinPremiumAddress, popAddress];
+  const contractAddresses = [...ammAddresses, ...sendableTokenAddresses, ...liquidityTokenAddresses, popAddress];
 
   // Include subscription FPC if configured
   const hasSubFPC = !!network.subscriptionFPC;
@@ -42,20 +53,50 @@ export function createGregoSwapCapabilities(network: NetworkConfig): AppCapabili
 
   // Simulation patterns
   const txSimulationPatterns: ContractFunctionPattern[] = [
-    { contract: gregoCoinAddress, function: 'balance_of_public' },
-    { contract: gregoCoinPremiumAddress, function: 'balance_of_public' },
+    ...tokenAddresses.map(contract => ({ contract, function: 'balance_of_public' })),
+    ...liquidityTokenAddresses.map(contract => ({ contract, function: 'total_supply' })),
   ];
 
   const utilitySimulationPatterns: ContractFunctionPattern[] = [
-    { contract: gregoCoinAddress, function: 'balance_of_private' },
-    { contract: gregoCoinPremiumAddress, function: 'balance_of_private' },
+    ...sendableTokenAddresses.map(contract => ({ contract, function: 'balance_of_private' })),
+    ...liquidityTokenAddresses.map(contract => ({ contract, function: 'balance_of_private' })),
+    // Senders receive their own change notes and claimers the notes carried by claim links
+    ...sendableTokenAddresses.map(contract => ({ contract, function: 'offchain_receive' })),
   ];
 
   // Transaction patterns
   const transactionPatterns: ContractFunctionPattern[] = [
-    { contract: ammAddress, function: 'swap_tokens_for_exact_tokens' },
     { contract: popAddress, function: 'check_password_and_mint' },
   ];
+  for (const ammAddress of ammAddresses) {
+    transactionPatterns.push(
+      { contract: ammAddress, function: 'swap_tokens_for_exact_tokens' },
+      { contract: ammAddress, function: 'swap_exact_tokens_for_tokens' },
+      { contract: ammAddress, function: 'add_liquidity' },
+      { contract: ammAddress, function: 'remove_liquidity' },
+    );
+  }
+
+  // Swaps go in either direction, so any pooled token can be the one an AMM pulls from the user.
+  // Exact-output swaps also prepare a change note; exact-input swaps transfer the full amount.
+  // Liquidity deposits pull both tokens the same way as exact-output swaps.
+  for (const tokenInAddress of tokenAddresses) {
+    transactionPatterns.push(
+      { contract: tokenInAddress, function: 'transfer_to_public_and_prepare_private_balance_increase' },
+      { contract: tokenInAddress, function: 'transfer_to_public' },
+    );
+  }
+
+  // Offchain sends: the sender calls the token directly when the FPC doesn't sponsor it, and the FPC makes the
+  // same call on the user's behalf when it does
+  for (const tokenAddress of sendableTokenAddresses) {
+    transactionPatterns.push({ contract: tokenAddress, function: 'transfer_in_private_deliver_offchain' });
+  }
+
+  // Withdrawals move the LQT to the AMM's public balance before it burns them
+  for (const liquidityTokenAddress of liquidityTokenAddresses) {
+    transactionPatterns.push({ contract: liquidityTokenAddress, function: 'transfer_to_public' });
+  }
 
   // Subscription FPC: the user calls subscribe/sponsor which internally dispatch
   // the sponsored call + auth witnesses
@@ -66,9 +107,9 @@ export function createGregoSwapCapabilities(network: NetworkConfig): AppCapabili
       { contract: fpcAddress, function: 'sponsor' },
     );
     // The _from variant of the swap is called by the FPC on behalf of the user
-    transactionPatterns.push(
-      { contract: ammAddress, function: 'swap_tokens_for_exact_tokens_from' },
-    );
+    for (const ammAddress of ammAddresses) {
+      transactionPatterns.push({ contract: ammAddress, function: 'swap_tokens_for_exact_tokens_from' });
+    }
     // Utility queries on the FPC: subscription status and available slots
     utilitySimulationPatterns.push(
       { contract: fpcAddress, function: 'count_available_slots' },
@@ -85,14 +126,15 @@ export function createGregoSwapCapabilities(network: NetworkConfig): AppCapabili
       url: 'https://gregoswap.aztec.network',
     },
     capabilities: [
-      // Account access - needed for wallet connection and account selection
+      // Account access - needed for wallet connection and account selection, and for the
+      // token transfer authwits the AMM needs to pull liquidity deposits
       {
         type: 'accounts',
         canGet: true,
-        canCreateAuthWit: false,
+        canCreateAuthWit: true,
       },
 
-      // Contract operations - specific contracts (AMM, tokens, ProofOfPassword, SponsoredFPC)
+      // Contract operations - specific contracts (AMM, tokens, LP token, ProofOfPassword, SponsoredFPC)
       {
         type: 'contracts',
         contracts: contractAddresses,
@@ -111,7 +153,7 @@ export function createGregoSwapCapabilities(network: NetworkConfig): AppCapabili
         },
       },
 
-      // Transaction execution - specific functions (swap, drip)
+      // Transaction execution - specific functions (swap, add/remove liquidity, drip)
       {
         type: 'transaction',
         scope: transactionPatterns,
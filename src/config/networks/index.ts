@@ -1,3 +1,5 @@
+import { DEFAULT_TOKEN_DECIMALS, type TokenKey } from '../../types';
+
 export interface SubscriptionFPCConfig {
   /** Address of the SubscriptionFPC contract */
   address: string;
@@ -7,20 +9,58 @@ export interface SubscriptionFPCConfig {
   functions: Record<string, Record<string, number>>;
 }
 
+/** Address and display details of a token contract */
+export interface TokenMetadata {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * A token contract, with the constructor args it was deployed with so it can be registered without
+ * fetching its instance from the node
+ */
+export interface TokenConfig extends TokenMetadata {
+  /** Key the app refers to the token by, e.g. in balances and pool reserves */
+  key: TokenKey;
+  /** Salt the token was deployed with */
+  salt: string;
+  /** Account that deployed the token (also its admin) */
+  deployer: string;
+}
+
+export interface PoolConfig {
+  /** Key the app refers to the pool by */
+  key: string;
+  /** Address of the pool's AMM contract */
+  address: string;
+  /** Key of the AMM's token0 */
+  token0: TokenKey;
+  /** Key of the AMM's token1 */
+  token1: TokenKey;
+  /** The pool's LP token */
+  liquidityToken: TokenMetadata;
+  /** Salt the AMM and its LP token were deployed with */
+  salt: string;
+  /** Account that deployed the AMM and its LP token */
+  deployer: string;
+}
+
 export interface NetworkConfig {
   id: string;
   nodeUrl: string;
   chainId: string;
   rollupVersion: string;
   contracts: {
-    gregoCoin: string;
-    gregoCoinPremium: string;
-    amm: string;
-    liquidityToken: string;
     pop: string;
     sponsoredFPC: string;
     salt: string;
   };
+  /** Tokens the app can hold, swap and send */
+  tokens: TokenConfig[];
+  /** AMM pools between pairs of the listed tokens. The first one is the default pool */
+  pools: PoolConfig[];
   deployer: {
     address: string;
   };
@@ -62,6 +102,42 @@ export function initializeNetworks(): NetworkConfig[] {
   return loadNetworkConfigs();
 }
 
+// Helper to get a token by key. Throws for keys the network doesn't list
+export function getToken(network: NetworkConfig, token: TokenKey): TokenConfig {
+  const config = network.tokens.find(t => t.key === token);
+  if (!config) {
+    throw new Error(`Token ${token} is not configured on ${network.id}`);
+  }
+  return config;
+}
+
+// Helper to get the decimals of a token on a network
+export function getTokenDecimals(network: NetworkConfig, token: TokenKey): number {
+  return network.tokens.find(t => t.key === token)?.decimals ?? DEFAULT_TOKEN_DECIMALS;
+}
+
+// Helper to get the symbol of a token on a network, falling back to its key
+export function getTokenSymbol(network: NetworkConfig, token: TokenKey): string {
+  return network.tokens.find(t => t.key === token)?.symbol ?? token;
+}
+
+// Helper to get the decimals of every token on a network, keyed by token
+export function getTokenDecimalsMap(network: NetworkConfig): Record<TokenKey, number> {
+  return Object.fromEntries(network.tokens.map(t => [t.key, t.decimals]));
+}
+
+// Helper to get a pool by key
+export function getPool(network: NetworkConfig, poolKey: string): PoolConfig | undefined {
+  return network.pools.find(p => p.key === poolKey);
+}
+
+// Helper to find the pool trading a pair of tokens, in either order
+export function findPoolForPair(network: NetworkConfig, tokenA: TokenKey, tokenB: TokenKey): PoolConfig | undefined {
+  return network.pools.find(
+    p => (p.token0 === tokenA && p.token1 === tokenB) || (p.token0 === tokenB && p.token1 === tokenA),
+  );
+}
+
 // Helper to get network by id from an array
 export function getNetworkById(networks: NetworkConfig[], id: string): NetworkConfig | undefined {
   return networks.find(n => n.id === id);
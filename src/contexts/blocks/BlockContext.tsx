@@ -0,0 +1,56 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, type ReactNode } from 'react';
+import { useWallet } from '../wallet';
+import { createBlockCache, watchBlockNumber } from '../../services/blockRefreshService';
+
+interface BlockContextType {
+  /** Latest block number seen on the node, null until the first poll returns */
+  blockNumber: number | null;
+  /** Runs a read at most once per key per block; components asking for the same key share the result */
+  cachedRead: <T>(key: string, fetch: () => Promise<T>) => Promise<T>;
+}
+
+const BlockContext = createContext<BlockContextType | undefined>(undefined);
+
+export function useBlocks() {
+  const context = useContext(BlockContext);
+  if (context === undefined) {
+    throw new Error('useBlocks must be used within a BlockProvider');
+  }
+  return context;
+}
+
+interface BlockProviderProps {
+  children: ReactNode;
+}
+
+export function BlockProvider({ children }: BlockProviderProps) {
+  const { node } = useWallet();
+  const [blockNumber, setBlockNumber] = useState<number | null>(null);
+  const blockNumberRef = useRef<number | null>(null);
+  const cache = useMemo(() => createBlockCache(), []);
+
+  // Follow the active network's node. Reads cached against the previous node don't apply to this one
+  useEffect(() => {
+    cache.clear();
+    blockNumberRef.current = null;
+    setBlockNumber(null);
+    if (!node) return;
+
+    return watchBlockNumber(node, next => {
+      blockNumberRef.current = next;
+      setBlockNumber(next);
+    });
+  }, [node, cache]);
+
+  const cachedRead = useCallback(
+    <T,>(key: string, fetch: () => Promise<T>) => cache.read(key, blockNumberRef.current, fetch),
+    [cache],
+  );
+
+  const value: BlockContextType = {
+    blockNumber,
+    cachedRead,
+  };
+
+  return <BlockContext.Provider value={value}>{children}</BlockContext.Provider>;
+}
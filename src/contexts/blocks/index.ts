@@ -0,0 +1 @@
+export { BlockProvider, useBlocks } from './BlockContext';
@@ -3,8 +3,8 @@
  * Manages contract instances and registration state
  */
 
-import { createContext, useContext, useEffect, type ReactNode, useCallback } from 'react';
-import type { AztecAddress } from '@aztec/aztec.js/addresses';
+import { createContext, useContext, useEffect, useMemo, useState, type ReactNode, useCallback } from 'react';
+import { AztecAddress } from '@aztec/aztec.js/addresses';
 import type { Fr } from '@aztec/foundation/curves/bn254';
 import type { TxReceipt } from '@aztec/stdlib/tx';
 import type { AMMContract } from '../../../contracts/target/AMM';
@@ -13,8 +13,25 @@ import type { SubscriptionFPC } from '@gregojuice/contracts/subscription-fpc';
 import { useWallet } from '../wallet';
 import { useNetwork } from '../network';
 import * as contractService from '../../services/contractService';
+import * as walletService from '../../services/walletService';
+import type { TxLifecycleListener } from '../../services/txLifecycleService';
+import type { QuotedRoute } from '../../services/routeService';
+import { createReadCoordinator } from '../../services/readCoordinatorService';
+import { getImportedTokens, saveImportedToken, type ImportedToken } from '../../services/importedTokenService';
 import { useContractsReducer } from './reducer';
 import { stat } from 'fs';
+import { findPoolForPair } from '../../config/networks';
+import type { OnboardingResult } from '../onboarding/reducer';
+import type {
+  AddLiquidityAmounts,
+  Balances,
+  PoolReserves,
+  RemoveLiquidityAmounts,
+  SwapAmounts,
+  SwapDirection,
+  SwapMode,
+  TokenKey,
+} from '../../types';
 
 interface ContractsContextType {
   isLoadingContracts: boolean;
@@ -23,24 +40,68 @@ interface ContractsContextType {
   registerBaseContracts: () => Promise<void>;
   registerDripContracts: () => Promise<void>;
 
+  // Tokens imported by address on the active network
+  importedTokens: ImportedToken[];
+  /** Registers a Token contract by address, reads its metadata and remembers it for the active network */
+  importToken: (address: string) => Promise<ImportedToken>;
+
   // Utility methods
-  getAmm: () => AMMContract | null;
+  /** AMM of the pool trading a swap's pair, null if none does or contracts aren't registered yet */
+  getAmm: (direction: SwapDirection) => AMMContract | null;
   getFpc: () => SubscriptionFPC | null;
-  getExchangeRate: () => Promise<number>;
-  swap: (amountOut: number, amountInMax: number) => Promise<TxReceipt>;
-  unsponsoredSwap: (amountOut: number, amountInMax: number) => Promise<TxReceipt>;
-  fetchBalances: () => Promise<[bigint, bigint]>;
-  simulateOnboardingQueries: () => Promise<[number, bigint, bigint]>;
-  drip: (password: string, recipient: AztecAddress) => Promise<TxReceipt>;
+  getPoolReserves: (poolKeys: string[]) => Promise<Record<string, PoolReserves>>;
+  querySubscriptionStatus: (direction: SwapDirection, mode: SwapMode) => Promise<contractService.SubscriptionStatus>;
+  simulateSwap: (direction: SwapDirection, amounts: SwapAmounts) => Promise<void>;
+  simulateUnsponsoredSwap: (direction: SwapDirection, amounts: SwapAmounts) => Promise<void>;
+  swap: (direction: SwapDirection, amounts: SwapAmounts, onProgress?: TxLifecycleListener) => Promise<TxReceipt>;
+  unsponsoredSwap: (
+    direction: SwapDirection,
+    amounts: SwapAmounts,
+    onProgress?: TxLifecycleListener,
+  ) => Promise<TxReceipt>;
+  simulateRouteSwap: (route: QuotedRoute, hopAmounts: SwapAmounts[]) => Promise<void>;
+  routeSwap: (route: QuotedRoute, hopAmounts: SwapAmounts[], onProgress?: TxLifecycleListener) => Promise<TxReceipt>;
+  fetchBalances: () => Promise<Balances>;
+  getLiquidityPosition: (poolKey: string) => Promise<contractService.LiquidityPosition>;
+  addLiquidity: (poolKey: string, amounts: AddLiquidityAmounts, onProgress?: TxLifecycleListener) => Promise<TxReceipt>;
+  removeLiquidity: (
+    poolKey: string,
+    amounts: RemoveLiquidityAmounts,
+    onProgress?: TxLifecycleListener,
+  ) => Promise<TxReceipt>;
+  simulateOnboardingQueries: () => Promise<OnboardingResult>;
+  drip: (password: string, recipient: AztecAddress, onProgress?: TxLifecycleListener) => Promise<TxReceipt>;
+  /** Sends a transfer and returns its recipient messages; onSubmitted gets them as soon as the tx is submitted */
   sendOffchain: (
-    tokenKey: 'gregoCoin' | 'gregoCoinPremium',
+    tokenKey: TokenKey,
     recipient: AztecAddress,
     amount: bigint,
+    onSubmitted?: contractService.OffchainTransferSubmittedListener,
+    onProgress?: TxLifecycleListener,
   ) => Promise<{ receipt: TxReceipt; offchainMessages: OffchainMessage[] }>;
+  /** Sends the transfers in one tx and returns each one's recipient message, in order */
+  sendOffchainBatch: (
+    transfers: contractService.OffchainTransfer[],
+    onSubmitted?: contractService.OffchainTransferSubmittedListener,
+    onProgress?: TxLifecycleListener,
+  ) => Promise<{ receipt: TxReceipt; messages: OffchainMessage[] }>;
   claimOffchainTransfer: (
-    tokenKey: 'gregoCoin' | 'gregoCoinPremium',
+    tokenKey: TokenKey,
     message: { ciphertext: Fr[]; recipient: AztecAddress; tx_hash: Fr; anchor_block_timestamp: bigint },
   ) => Promise<void>;
+  /** Sweeps a bearer link's transfer out of its throwaway account into the current account */
+  claimBearerTransfer: (
+    tokenKey: TokenKey,
+    bearerSecret: Fr,
+    message: { ciphertext: Fr[]; tx_hash: Fr; anchor_block_timestamp: bigint },
+    amount: bigint,
+  ) => Promise<void>;
+  /** What a bearer link's account still holds of the link's token, which drops once the link is claimed */
+  getBearerBalance: (
+    tokenAddress: AztecAddress,
+    bearerSecret: Fr,
+    message: { ciphertext: Fr[]; tx_hash: Fr; anchor_block_timestamp: bigint },
+  ) => Promise<bigint>;
 }
 
 const ContractsContext = createContext<ContractsContextType | undefined>(undefined);
@@ -62,8 +123,24 @@ export function ContractsProvider({ children }: ContractsProviderProps) {
   const { activeNetwork } = useNetwork();
 
   const [state, actions] = useContractsReducer();
+  const [importedTokens, setImportedTokens] = useState(() => getImportedTokens(activeNetwork.id));
+
+  // Reads made at the same moment by different components share one simulation per sender
+  const reader = useMemo(() => (wallet ? createReadCoordinator(wallet) : null), [wallet]);
 
-  // Register base contracts (AMM, tokens)
+  // Load the tokens imported on the active network
+  useEffect(() => {
+    setImportedTokens(getImportedTokens(activeNetwork.id));
+  }, [activeNetwork.id]);
+
+  // Swap contracts, available once the base registration has instantiated all of them
+  const swapContracts = useMemo((): contractService.SwapContracts | null => {
+    const { tokens, pools, fpc } = state.contracts;
+    if (!tokens || !pools) return null;
+    return { tokens, pools, fpc };
+  }, [state.contracts]);
+
+  // Register base contracts (every token and pool)
   const registerBaseContracts = useCallback(async () => {
     if (!wallet || !node) {
       throw new Error('Wallet not initialized');
@@ -73,7 +150,18 @@ export function ContractsProvider({ children }: ContractsProviderProps) {
 
     try {
       const swapContracts = await contractService.registerSwapContracts(wallet, node, activeNetwork);
-      actions.registerSuccess('base', swapContracts);
+
+      // Imported tokens aren't in the config, so they're registered from the instances on the node.
+      // One that's gone (e.g. after a local network restart) shouldn't keep the configured ones from loading.
+      let imported = {};
+      try {
+        const addresses = getImportedTokens(activeNetwork.id).map(token => AztecAddress.fromString(token.address));
+        imported = await contractService.registerImportedTokens(wallet, node, addresses);
+      } catch (error) {
+        console.warn('Error registering imported tokens:', error);
+      }
+
+      actions.registerSuccess('base', { ...swapContracts, tokens: { ...swapContracts.tokens, ...imported } });
     } catch (error) {
       actions.registerFail(error instanceof Error ? error.message : 'Registration failed');
       throw error;
@@ -97,143 +185,254 @@ export function ContractsProvider({ children }: ContractsProviderProps) {
     }
   }, [wallet, node, activeNetwork, actions]);
 
-  // Get AMM contract instance (for hooks that need it)
-  const getAmm = useCallback((): AMMContract | null => {
-    return state.contracts.amm ?? null;
-  }, [state.contracts.amm]);
+  // Import a Token contract by address
+  const importToken = useCallback(
+    async (address: string): Promise<ImportedToken> => {
+      if (!wallet || !node || !currentAddress || !swapContracts) {
+        throw new Error('Contracts not initialized');
+      }
+
+      if (!/^0x[0-9a-fA-F]{1,64}$/.test(address.trim())) {
+        throw new Error('Enter a contract address starting with 0x');
+      }
+      const tokenAddress = AztecAddress.fromString(address.trim());
+      if (activeNetwork.tokens.some(token => AztecAddress.fromString(token.address).equals(tokenAddress))) {
+        throw new Error('This token is already listed');
+      }
+
+      const { contract, metadata } = await contractService.importToken(wallet, node, tokenAddress, currentAddress);
+      const token: ImportedToken = { ...metadata, key: tokenAddress.toString() };
+      saveImportedToken(activeNetwork.id, token);
+      setImportedTokens(getImportedTokens(activeNetwork.id));
+      actions.addTokens({ [token.key]: contract });
+      return token;
+    },
+    [wallet, node, currentAddress, swapContracts, activeNetwork, actions],
+  );
+
+  // Get the AMM contract instance for a pair (for hooks that need it)
+  const getAmm = useCallback(
+    (direction: SwapDirection): AMMContract | null => {
+      const pool = findPoolForPair(activeNetwork, direction.tokenIn, direction.tokenOut);
+      return (pool && state.contracts.pools?.[pool.key]?.amm) ?? null;
+    },
+    [activeNetwork, state.contracts.pools],
+  );
 
   // Get FPC wrapper instance (for hooks that need it)
   const getFpc = useCallback((): SubscriptionFPC | null => {
     return state.contracts.fpc ?? null;
   }, [state.contracts.fpc]);
 
-  // Get exchange rate
-  const getExchangeRate = useCallback(async (): Promise<number> => {
-    if (
-      !wallet ||
-      !currentAddress ||
-      !state.contracts.amm ||
-      !state.contracts.gregoCoin ||
-      !state.contracts.gregoCoinPremium
-    ) {
-      throw new Error('Contracts not initialized');
-    }
+  // Get pool reserves
+  const getPoolReserves = useCallback(
+    async (poolKeys: string[]): Promise<Record<string, PoolReserves>> => {
+      if (!reader || !currentAddress || !swapContracts) {
+        throw new Error('Contracts not initialized');
+      }
+
+      return contractService.getPoolReserves(reader, swapContracts, poolKeys, currentAddress);
+    },
+    [reader, swapContracts, currentAddress],
+  );
 
-    return contractService.getExchangeRate(
-      wallet,
-      {
-        gregoCoin: state.contracts.gregoCoin,
-        gregoCoinPremium: state.contracts.gregoCoinPremium,
-        amm: state.contracts.amm,
-        fpc: state.contracts.fpc,
-      },
-      currentAddress,
-    );
-  }, [wallet, state.contracts, currentAddress]);
+  // Query the FPC subscription covering swaps in a direction and mode
+  const querySubscriptionStatus = useCallback(
+    async (direction: SwapDirection, mode: SwapMode): Promise<contractService.SubscriptionStatus> => {
+      const amm = getAmm(direction);
+      if (!reader || !currentAddress || !amm) {
+        throw new Error('Contracts not initialized');
+      }
+
+      return contractService.querySubscriptionStatus(
+        reader,
+        activeNetwork,
+        amm,
+        currentAddress,
+        state.contracts.fpc ?? null,
+        mode,
+      );
+    },
+    [reader, currentAddress, activeNetwork, getAmm, state.contracts.fpc],
+  );
+
+  // Pre-flight the sponsored swap without proving
+  const simulateSwap = useCallback(
+    async (direction: SwapDirection, amounts: SwapAmounts): Promise<void> => {
+      if (!wallet || !currentAddress || !swapContracts?.fpc) {
+        throw new Error('Contracts not initialized');
+      }
+
+      await contractService.simulateSponsoredSwap(
+        activeNetwork,
+        swapContracts,
+        swapContracts.fpc,
+        currentAddress,
+        direction,
+        amounts,
+      );
+    },
+    [wallet, currentAddress, activeNetwork, swapContracts],
+  );
+
+  // Pre-flight the unsponsored swap without proving
+  const simulateUnsponsoredSwap = useCallback(
+    async (direction: SwapDirection, amounts: SwapAmounts): Promise<void> => {
+      if (!wallet || !currentAddress || !swapContracts) {
+        throw new Error('Contracts not initialized');
+      }
+
+      await contractService.simulateUnsponsoredSwap(activeNetwork, swapContracts, currentAddress, direction, amounts);
+    },
+    [wallet, currentAddress, activeNetwork, swapContracts],
+  );
 
   // Execute swap
   const swap = useCallback(
-    async (amountOut: number, amountInMax: number): Promise<TxReceipt> => {
-      if (
-        !wallet ||
-        !currentAddress ||
-        !state.contracts.amm ||
-        !state.contracts.gregoCoin ||
-        !state.contracts.gregoCoinPremium ||
-        !state.contracts.fpc
-      ) {
+    async (direction: SwapDirection, amounts: SwapAmounts, onProgress?: TxLifecycleListener): Promise<TxReceipt> => {
+      if (!wallet || !node || !currentAddress || !swapContracts?.fpc) {
         throw new Error('Contracts not initialized');
       }
 
       return contractService.executeSponsoredSwap(
         activeNetwork,
-        state.contracts.amm,
-        state.contracts.gregoCoin,
-        state.contracts.gregoCoinPremium,
-        state.contracts.fpc,
+        swapContracts,
+        swapContracts.fpc,
+        node,
         currentAddress,
-        amountOut,
-        amountInMax,
+        direction,
+        amounts,
+        onProgress,
       );
     },
-    [wallet, currentAddress, activeNetwork, state.contracts],
+    [wallet, node, currentAddress, activeNetwork, swapContracts],
   );
 
   // Execute unsponsored swap (user pays own gas)
   const unsponsoredSwap = useCallback(
-    async (amountOut: number, amountInMax: number): Promise<TxReceipt> => {
-      if (
-        !wallet ||
-        !currentAddress ||
-        !state.contracts.amm ||
-        !state.contracts.gregoCoin ||
-        !state.contracts.gregoCoinPremium
-      ) {
+    async (direction: SwapDirection, amounts: SwapAmounts, onProgress?: TxLifecycleListener): Promise<TxReceipt> => {
+      if (!wallet || !node || !currentAddress || !swapContracts) {
         throw new Error('Contracts not initialized');
       }
 
       return contractService.executeUnsponsoredSwap(
-        {
-          gregoCoin: state.contracts.gregoCoin,
-          gregoCoinPremium: state.contracts.gregoCoinPremium,
-          amm: state.contracts.amm,
-          fpc: state.contracts.fpc,
-        },
+        activeNetwork,
+        swapContracts,
+        node,
+        currentAddress,
+        direction,
+        amounts,
+        onProgress,
+      );
+    },
+    [wallet, node, currentAddress, activeNetwork, swapContracts],
+  );
+
+  // Pre-flight a multi-hop swap without proving
+  const simulateRouteSwap = useCallback(
+    async (route: QuotedRoute, hopAmounts: SwapAmounts[]): Promise<void> => {
+      if (!wallet || !currentAddress || !swapContracts) {
+        throw new Error('Contracts not initialized');
+      }
+
+      await contractService.simulateRouteSwap(wallet, swapContracts, currentAddress, route, hopAmounts);
+    },
+    [wallet, currentAddress, swapContracts],
+  );
+
+  // Execute multi-hop swap (user pays own gas)
+  const routeSwap = useCallback(
+    async (route: QuotedRoute, hopAmounts: SwapAmounts[], onProgress?: TxLifecycleListener): Promise<TxReceipt> => {
+      if (!wallet || !node || !currentAddress || !swapContracts) {
+        throw new Error('Contracts not initialized');
+      }
+
+      return contractService.executeRouteSwap(
+        wallet,
+        swapContracts,
+        node,
         currentAddress,
-        amountOut,
-        amountInMax,
+        route,
+        hopAmounts,
+        onProgress,
       );
     },
-    [wallet, currentAddress, state.contracts],
+    [wallet, node, currentAddress, swapContracts],
   );
 
   // Fetch balances
-  const fetchBalances = useCallback(async (): Promise<[bigint, bigint]> => {
-    if (!wallet || !currentAddress || !state.contracts.gregoCoin || !state.contracts.gregoCoinPremium) {
+  const fetchBalances = useCallback(async (): Promise<Balances> => {
+    if (!reader || !currentAddress || !swapContracts) {
       throw new Error('Contracts not initialized');
     }
 
-    return contractService.fetchBalances(
-      wallet,
-      {
-        gregoCoin: state.contracts.gregoCoin,
-        gregoCoinPremium: state.contracts.gregoCoinPremium,
-        amm: state.contracts.amm!,
-        fpc: state.contracts.fpc,
-      },
-      currentAddress,
-    );
-  }, [wallet, currentAddress, state.contracts]);
+    return contractService.fetchBalances(reader, swapContracts, currentAddress);
+  }, [reader, currentAddress, swapContracts]);
+
+  // Fetch pool reserves, LQT supply and the user's LQT balance
+  const getLiquidityPosition = useCallback(
+    async (poolKey: string): Promise<contractService.LiquidityPosition> => {
+      if (!reader || !currentAddress || !swapContracts) {
+        throw new Error('Contracts not initialized');
+      }
+
+      return contractService.getLiquidityPosition(reader, swapContracts, poolKey, currentAddress);
+    },
+    [reader, currentAddress, swapContracts],
+  );
+
+  // Deposit liquidity (user pays own gas)
+  const addLiquidity = useCallback(
+    async (poolKey: string, amounts: AddLiquidityAmounts, onProgress?: TxLifecycleListener): Promise<TxReceipt> => {
+      if (!wallet || !node || !currentAddress || !swapContracts) {
+        throw new Error('Contracts not initialized');
+      }
+
+      return contractService.executeAddLiquidity(
+        wallet,
+        swapContracts,
+        poolKey,
+        node,
+        currentAddress,
+        amounts,
+        onProgress,
+      );
+    },
+    [wallet, node, currentAddress, swapContracts],
+  );
+
+  // Withdraw liquidity (user pays own gas)
+  const removeLiquidity = useCallback(
+    async (poolKey: string, amounts: RemoveLiquidityAmounts, onProgress?: TxLifecycleListener): Promise<TxReceipt> => {
+      if (!wallet || !node || !currentAddress || !swapContracts) {
+        throw new Error('Contracts not initialized');
+      }
+
+      return contractService.executeRemoveLiquidity(
+        wallet,
+        swapContracts,
+        poolKey,
+        node,
+        currentAddress,
+        amounts,
+        onProgress,
+      );
+    },
+    [wallet, node, currentAddress, swapContracts],
+  );
 
   // Simulate onboarding queries
-  const simulateOnboardingQueries = useCallback(async (): Promise<[number, bigint, bigint]> => {
-    if (
-      !wallet ||
-      !currentAddress ||
-      !state.contracts.amm ||
-      !state.contracts.gregoCoin ||
-      !state.contracts.gregoCoinPremium
-    ) {
+  const simulateOnboardingQueries = useCallback(async (): Promise<OnboardingResult> => {
+    if (!reader || !currentAddress || !swapContracts) {
       throw new Error('Contracts not initialized');
     }
 
-    const result = await contractService.simulateOnboardingQueries(
-      wallet,
-      {
-        gregoCoin: state.contracts.gregoCoin,
-        gregoCoinPremium: state.contracts.gregoCoinPremium,
-        amm: state.contracts.amm,
-        fpc: state.contracts.fpc,
-      },
-      currentAddress,
-    );
-
-    return [result.exchangeRate, result.balances.gregoCoin, result.balances.gregoCoinPremium];
-  }, [wallet, currentAddress, state.contracts]);
+    return contractService.simulateOnboardingQueries(reader, swapContracts, currentAddress);
+  }, [reader, currentAddress, swapContracts]);
 
   // Execute drip
   const drip = useCallback(
-    async (password: string, recipient: AztecAddress): Promise<TxReceipt> => {
+    async (password: string, recipient: AztecAddress, onProgress?: TxLifecycleListener): Promise<TxReceipt> => {
       if (!wallet || !node || !state.contracts.pop || !state.contracts.fpc) {
         throw new Error('ProofOfPassword contract not initialized');
       }
@@ -243,55 +442,140 @@ export function ContractsProvider({ children }: ContractsProviderProps) {
         activeNetwork,
         state.contracts.pop,
         state.contracts.fpc,
+        node,
         password,
         recipient,
+        onProgress,
       );
     },
-    [wallet, activeNetwork, state.contracts.pop, state.contracts.fpc],
+    [wallet, node, activeNetwork, state.contracts.pop, state.contracts.fpc],
   );
 
   // Execute offchain transfer (send with link)
   const sendOffchain = useCallback(
-    async (tokenKey: 'gregoCoin' | 'gregoCoinPremium', recipient: AztecAddress, amount: bigint) => {
-      if (
-        !wallet ||
-        !currentAddress ||
-        !state.contracts.gregoCoin ||
-        !state.contracts.gregoCoinPremium ||
-        !state.contracts.amm
-      ) {
+    async (
+      tokenKey: TokenKey,
+      recipient: AztecAddress,
+      amount: bigint,
+      onSubmitted?: contractService.OffchainTransferSubmittedListener,
+      onProgress?: TxLifecycleListener,
+    ) => {
+      if (!wallet || !node || !currentAddress || !swapContracts) {
         throw new Error('Contracts not initialized');
       }
       return contractService.executeTransferOffchain(
         activeNetwork,
-        {
-          gregoCoin: state.contracts.gregoCoin,
-          gregoCoinPremium: state.contracts.gregoCoinPremium,
-          amm: state.contracts.amm,
-          fpc: state.contracts.fpc,
-        },
+        swapContracts,
+        node,
         tokenKey,
         currentAddress,
         recipient,
         amount,
+        onSubmitted,
+        onProgress,
+      );
+    },
+    [wallet, node, activeNetwork, currentAddress, swapContracts],
+  );
+
+  // Send several offchain transfers in one tx
+  const sendOffchainBatch = useCallback(
+    async (
+      transfers: contractService.OffchainTransfer[],
+      onSubmitted?: contractService.OffchainTransferSubmittedListener,
+      onProgress?: TxLifecycleListener,
+    ) => {
+      if (!wallet || !node || !currentAddress || !swapContracts) {
+        throw new Error('Contracts not initialized');
+      }
+      return contractService.executeBatchTransferOffchain(
+        wallet,
+        activeNetwork,
+        swapContracts,
+        node,
+        currentAddress,
+        transfers,
+        onSubmitted,
+        onProgress,
       );
     },
-    [wallet, activeNetwork, currentAddress, state.contracts],
+    [wallet, node, activeNetwork, currentAddress, swapContracts],
   );
 
   // Claim an offchain transfer via offchain_receive
   const claimOffchainTransfer = useCallback(
     async (
-      tokenKey: 'gregoCoin' | 'gregoCoinPremium',
+      tokenKey: TokenKey,
       message: { ciphertext: Fr[]; recipient: AztecAddress; tx_hash: Fr; anchor_block_timestamp: bigint },
     ) => {
-      if (!wallet || !currentAddress || !state.contracts.gregoCoin || !state.contracts.gregoCoinPremium) {
+      const token = state.contracts.tokens?.[tokenKey];
+      if (!wallet || !currentAddress || !token) {
         throw new Error('Contracts not initialized');
       }
-      const token = tokenKey === 'gregoCoin' ? state.contracts.gregoCoin : state.contracts.gregoCoinPremium;
       await token.methods.offchain_receive([message]).simulate({ from: currentAddress });
     },
-    [wallet, currentAddress, state.contracts],
+    [wallet, currentAddress, state.contracts.tokens],
+  );
+
+  const claimBearerTransfer = useCallback(
+    async (
+      tokenKey: TokenKey,
+      bearerSecret: Fr,
+      message: { ciphertext: Fr[]; tx_hash: Fr; anchor_block_timestamp: bigint },
+      amount: bigint,
+    ) => {
+      const token = state.contracts.tokens?.[tokenKey];
+      if (!wallet || !node || !currentAddress || !token) {
+        throw new Error('Contracts not initialized');
+      }
+
+      const bearer = await walletService.openBearerWallet(node, bearerSecret);
+      try {
+        const { receipt, offchainMessages } = await contractService.sweepBearerTransfer(
+          bearer.wallet,
+          node,
+          activeNetwork,
+          bearer.address,
+          token.address,
+          message,
+          amount,
+          currentAddress,
+        );
+        await token.methods
+          .offchain_receive(
+            offchainMessages.map(msg => ({
+              ciphertext: msg.payload,
+              recipient: currentAddress,
+              tx_hash: receipt.txHash.hash,
+              anchor_block_timestamp: msg.anchorBlockTimestamp,
+            })),
+          )
+          .simulate({ from: currentAddress });
+      } finally {
+        await bearer.wallet.stop();
+      }
+    },
+    [wallet, node, currentAddress, activeNetwork, state.contracts.tokens],
+  );
+
+  const getBearerBalance = useCallback(
+    async (
+      tokenAddress: AztecAddress,
+      bearerSecret: Fr,
+      message: { ciphertext: Fr[]; tx_hash: Fr; anchor_block_timestamp: bigint },
+    ) => {
+      if (!node) {
+        throw new Error('Node not initialized');
+      }
+
+      const bearer = await walletService.openBearerWallet(node, bearerSecret);
+      try {
+        return await contractService.getBearerBalance(bearer.wallet, node, bearer.address, tokenAddress, message);
+      } finally {
+        await bearer.wallet.stop();
+      }
+    },
+    [node],
   );
 
   // Initialize contracts for embedded wallet
@@ -321,16 +605,29 @@ export function ContractsProvider({ children }: ContractsProviderProps) {
     isLoadingContracts: state.isLoading,
     registerBaseContracts,
     registerDripContracts,
+    importedTokens,
+    importToken,
     getAmm,
     getFpc,
-    getExchangeRate,
+    getPoolReserves,
+    querySubscriptionStatus,
+    simulateSwap,
+    simulateUnsponsoredSwap,
     swap,
     unsponsoredSwap,
+    simulateRouteSwap,
+    routeSwap,
     fetchBalances,
+    getLiquidityPosition,
+    addLiquidity,
+    removeLiquidity,
     simulateOnboardingQueries,
     drip,
     sendOffchain,
+    sendOffchainBatch,
     claimOffchainTransfer,
+    claimBearerTransfer,
+    getBearerBalance,
   };
 
   return <ContractsContext.Provider value={value}>{children}</ContractsContext.Provider>;
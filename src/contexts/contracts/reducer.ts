@@ -4,19 +4,21 @@
  */
 
 import type { TokenContract } from '../../../contracts/target/Token';
-import type { AMMContract } from '../../../contracts/target/AMM';
 import type { ProofOfPasswordContract } from '../../../contracts/target/ProofOfPassword';
 import type { SubscriptionFPC } from '@gregojuice/contracts/subscription-fpc';
 import { createReducerHook, type ActionsFrom } from '../utils';
+import type { PoolContracts } from '../../services/contractService';
+import type { TokenKey } from '../../types';
 
 // =============================================================================
 // State
 // =============================================================================
 
 export interface Contracts {
-  gregoCoin: TokenContract | null;
-  gregoCoinPremium: TokenContract | null;
-  amm: AMMContract | null;
+  /** Every configured and imported token, keyed by token (null until the base registration) */
+  tokens: Record<TokenKey, TokenContract> | null;
+  /** Every configured pool, keyed by pool (null until the base registration) */
+  pools: Record<string, PoolContracts> | null;
   pop: ProofOfPasswordContract | null;
   fpc: SubscriptionFPC | null;
 }
@@ -30,9 +32,8 @@ export interface ContractsState {
 
 export const initialContractsState: ContractsState = {
   contracts: {
-    gregoCoin: null,
-    gregoCoinPremium: null,
-    amm: null,
+    tokens: null,
+    pools: null,
     pop: null,
     fpc: null,
   },
@@ -51,6 +52,7 @@ export const contractsActions = {
     contracts,
   }),
   registerFail: (error: string) => ({ type: 'contracts/REGISTER_FAIL' as const, error }),
+  addTokens: (tokens: Record<TokenKey, TokenContract>) => ({ type: 'contracts/ADD_TOKENS' as const, tokens }),
 };
 
 export type ContractsAction = ActionsFrom<typeof contractsActions>;
@@ -74,6 +76,12 @@ export function contractsReducer(state: ContractsState, action: ContractsAction)
     case 'contracts/REGISTER_FAIL':
       return { ...state, isLoading: false };
 
+    case 'contracts/ADD_TOKENS':
+      return {
+        ...state,
+        contracts: { ...state.contracts, tokens: { ...state.contracts.tokens, ...action.tokens } },
+      };
+
     default:
       return state;
   }
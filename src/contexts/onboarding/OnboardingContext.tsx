@@ -20,7 +20,10 @@ import {
   type OnboardingResult,
   type DripPhase,
 } from './reducer';
-import { parseDripError } from '../../services/contractService';
+import { classifyError } from '../../services/errorService';
+import { setOnboardingComplete } from '../../services/onboardingStatusService';
+import type { TxLifecycle } from '../../services/txLifecycleService';
+import { useTxLifecycle } from '../../hooks/useTxLifecycle';
 
 export type { OnboardingStatus, OnboardingStep };
 export { ONBOARDING_STEPS, ONBOARDING_STEPS_WITH_DRIP, getOnboardingSteps, getOnboardingStepsWithDrip };
@@ -51,6 +54,7 @@ interface OnboardingContextType {
   dripPhase: DripPhase;
   dripError: string | null;
   isDripping: boolean;
+  dripTxLifecycle: TxLifecycle | null;
 
   // Actions
   startOnboarding: (initiatedSwap?: boolean) => void;
@@ -85,11 +89,7 @@ interface OnboardingProviderProps {
 
 function setStoredOnboardingStatus(address: AztecAddress | null, completed: boolean) {
   if (!address) return;
-  try {
-    localStorage.setItem(`onboarding_complete_${address.toString()}`, String(completed));
-  } catch {
-    // Ignore localStorage errors
-  }
+  setOnboardingComplete(address.toString(), completed);
 }
 
 export function OnboardingProvider({ children }: OnboardingProviderProps) {
@@ -98,6 +98,13 @@ export function OnboardingProvider({ children }: OnboardingProviderProps) {
     useContracts();
 
   const [state, actions] = useOnboardingReducer();
+  const {
+    lifecycle: dripTxLifecycle,
+    start: startDripTx,
+    update: updateDripTx,
+    complete: completeDripTx,
+    fail: failDripTx,
+  } = useTxLifecycle();
 
   // Ref to prevent duplicate drip execution
   const dripTriggeredRef = useRef(false);
@@ -111,7 +118,7 @@ export function OnboardingProvider({ children }: OnboardingProviderProps) {
   const totalSteps = state.needsDrip ? baseSteps + 1 : baseSteps;
   const isSwapPending = state.status === 'completed' && state.pendingSwap;
   const isDripPending = state.status === 'executing_drip' && state.dripPassword !== null;
-  const isDripping = state.dripPhase === 'sending' || state.dripPhase === 'mining';
+  const isDripping = state.dripPhase === 'sending';
 
   // Onboarding orchestration effect
   useEffect(() => {
@@ -147,19 +154,11 @@ export function OnboardingProvider({ children }: OnboardingProviderProps) {
           actions.markSimulated();
           actions.advanceStatus('simulating');
 
-          const [exchangeRate, gcBalance, gcpBalance] = await simulateOnboardingQueries();
-
-          const result: OnboardingResult = {
-            exchangeRate,
-            balances: {
-              gregoCoin: gcBalance,
-              gregoCoinPremium: gcpBalance,
-            },
-          };
+          const result = await simulateOnboardingQueries();
           actions.setResult(result);
 
-          // Check if user has no tokens - need drip detour
-          const hasNoTokens = gcBalance === 0n;
+          // Check if user has no GregoCoin (the token the drip mints) - need drip detour
+          const hasNoTokens = !result.balances.gregoCoin;
 
           if (hasNoTokens) {
             actions.markNeedsDrip();
@@ -173,7 +172,7 @@ export function OnboardingProvider({ children }: OnboardingProviderProps) {
           }
         }
       } catch (error) {
-        actions.setError(error instanceof Error ? error.message : 'Onboarding failed');
+        actions.setError(classifyError(error, 'onboarding').message);
       }
     }
 
@@ -203,21 +202,23 @@ export function OnboardingProvider({ children }: OnboardingProviderProps) {
 
       dripTriggeredRef.current = true;
       actions.startDrip();
+      startDripTx();
 
       try {
-        await drip(state.dripPassword, currentAddress);
+        completeDripTx(await drip(state.dripPassword, currentAddress, updateDripTx));
         actions.dripSuccess();
         setStoredOnboardingStatus(currentAddress, true);
         actions.complete();
       } catch (error) {
-        actions.dripError(parseDripError(error));
+        failDripTx();
+        actions.dripError(classifyError(error, 'drip').message);
       } finally {
         dripTriggeredRef.current = false;
       }
     }
 
     handleDrip();
-  }, [isDripPending, state.dripPassword, isDripping, currentAddress, drip, actions]);
+  }, [isDripPending, state.dripPassword, isDripping, currentAddress, drip, startDripTx, updateDripTx, completeDripTx, failDripTx, actions]);
 
   // Only need useCallback for functions that do more than just forward to actions
   const completeDripExecution = useCallback(() => {
@@ -244,6 +245,7 @@ export function OnboardingProvider({ children }: OnboardingProviderProps) {
     dripPhase: state.dripPhase,
     dripError: state.dripError,
     isDripping,
+    dripTxLifecycle,
     startOnboarding: actions.startFlow,
     advanceStatus: actions.advanceStatus,
     setOnboardingResult: actions.setResult,
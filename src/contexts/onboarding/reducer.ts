@@ -4,6 +4,7 @@
  */
 
 import { createReducerHook, type ActionsFrom } from '../utils';
+import type { PoolReserves, TokenKey } from '../../types';
 
 // =============================================================================
 // State
@@ -20,14 +21,12 @@ export type OnboardingStatus =
   | 'completed'
   | 'error';
 
-export type DripPhase = 'idle' | 'sending' | 'mining' | 'success' | 'error';
+export type DripPhase = 'idle' | 'sending' | 'success' | 'error';
 
 export interface OnboardingResult {
-  exchangeRate: number;
-  balances: {
-    gregoCoin: bigint;
-    gregoCoinPremium: bigint;
-  };
+  /** Reserves of the default pool */
+  reserves: PoolReserves;
+  balances: Record<TokenKey, bigint>;
 }
 
 export interface OnboardingStep {
@@ -0,0 +1,332 @@
+/**
+ * Pool Context
+ * Manages liquidity UI state and execution
+ */
+
+import { createContext, useContext, useCallback, useEffect, useMemo, useRef, type ReactNode } from 'react';
+import { useContracts } from '../contracts';
+import { useNetwork } from '../network';
+import { useWallet } from '../wallet';
+import { usePoolReducer, type PoolState } from './reducer';
+import type { TxReceipt } from '@aztec/stdlib/tx';
+import {
+  getAddLiquidityAmounts,
+  getAmountsOnRemove,
+  getEquivalentAmount,
+  getPositionSummary,
+  getRemoveLiquidityAmounts,
+  quoteAddLiquidity,
+  type AddLiquidityQuote,
+  type PositionSummary,
+} from '../../services/liquidityService';
+import {
+  addLiquidityRecord,
+  getCostBasis,
+  getLiquidityHistory,
+  type LiquidityRecord,
+} from '../../services/liquidityHistoryService';
+import { getSwapSettings } from '../../services/swapSettingsService';
+import type { TxLifecycle, TxLifecycleListener } from '../../services/txLifecycleService';
+import { useTxLifecycle } from '../../hooks/useTxLifecycle';
+import { classifyError } from '../../services/errorService';
+import { getPool, getTokenDecimalsMap, type PoolConfig } from '../../config/networks';
+import { formatTokenAmount, parseTokenAmount } from '../../utils/tokenAmount';
+import type { AddLiquidityAmounts, PoolReserves, RemoveLiquidityAmounts, TokenKey } from '../../types';
+
+/** The pool's token on the other side from `token` */
+function otherToken(pool: PoolConfig, token: TokenKey): TokenKey {
+  return token === pool.token0 ? pool.token1 : pool.token0;
+}
+
+/**
+ * Quotes the amount of the other token that keeps the pool ratio for the amount the user entered.
+ * Returns null if the value isn't a number yet or the pool is empty, so the user picks both amounts.
+ */
+function quoteCounterpart(
+  reserves: PoolReserves,
+  pool: PoolConfig,
+  token: TokenKey,
+  value: string,
+  decimals: Record<TokenKey, number>,
+): string | null {
+  const amount = parseTokenAmount(value, decimals[token]);
+  if (amount === null) return null;
+
+  const other = otherToken(pool, token);
+  const equivalent = getEquivalentAmount(amount, reserves[token], reserves[other]);
+  return equivalent === null ? null : formatTokenAmount(equivalent, decimals[other]);
+}
+
+interface PoolContextType extends PoolState {
+  // Computed values
+  /** Pools on the active network */
+  pools: PoolConfig[];
+  /** The selected pool, null if the network has none */
+  pool: PoolConfig | null;
+  /** Decimals of each token on the active network */
+  tokenDecimals: Record<TokenKey, number>;
+  /** Slippage tolerance from the swap settings, applied to the deposit and withdrawal minimums */
+  slippageBps: number;
+  /** Deposit bounds that will be submitted (null until both amounts are set) */
+  depositAmounts: AddLiquidityAmounts | null;
+  /** Amounts the pool will take and the LQT minted for them */
+  depositQuote: AddLiquidityQuote | null;
+  /** Withdrawal bounds that will be submitted (null until a valid LQT amount is set) */
+  withdrawAmounts: RemoveLiquidityAmounts | null;
+  /** Tokens paid out for the LQT being withdrawn, at the current reserves */
+  withdrawQuote: { amount0: bigint; amount1: bigint } | null;
+  /** The connected account's LP position, null when it holds no LQT */
+  positionSummary: PositionSummary | null;
+  canAddLiquidity: boolean;
+  canRemoveLiquidity: boolean;
+  /** Whether a deposit or withdrawal is in progress */
+  isSubmitting: boolean;
+  /** Progress of the current deposit or withdrawal, kept after it is mined until its block is finalized */
+  txLifecycle: TxLifecycle | null;
+
+  // Actions
+  setView: (view: PoolState['view']) => void;
+  setPool: (poolKey: string) => void;
+  setAmount: (token: TokenKey, amount: string) => void;
+  setWithdrawAmount: (amount: string) => void;
+  refreshPosition: () => Promise<void>;
+  executeAddLiquidity: () => Promise<void>;
+  executeRemoveLiquidity: () => Promise<void>;
+  dismissError: () => void;
+  reset: () => void;
+}
+
+const PoolContext = createContext<PoolContextType | undefined>(undefined);
+
+export function usePool() {
+  const context = useContext(PoolContext);
+  if (context === undefined) {
+    throw new Error('usePool must be used within a PoolProvider');
+  }
+  return context;
+}
+
+interface PoolProviderProps {
+  children: ReactNode;
+}
+
+export function PoolProvider({ children }: PoolProviderProps) {
+  const { addLiquidity, removeLiquidity, getLiquidityPosition, isLoadingContracts } = useContracts();
+  const { activeNetwork } = useNetwork();
+  const { currentAddress } = useWallet();
+
+  const [state, actions] = usePoolReducer();
+  const {
+    lifecycle: txLifecycle,
+    update: updateTxLifecycle,
+    start: startTxLifecycle,
+    complete: completeTxLifecycle,
+    fail: failTxLifecycle,
+    reset: resetTxLifecycle,
+  } = useTxLifecycle();
+
+  const isFetchingPositionRef = useRef(false);
+
+  const isSubmitting = state.phase === 'sending';
+  const pool = (state.poolKey && getPool(activeNetwork, state.poolKey)) || activeNetwork.pools[0] || null;
+  const poolKeyRef = useRef(pool?.key);
+  poolKeyRef.current = pool?.key;
+  const tokenDecimals = useMemo(() => getTokenDecimalsMap(activeNetwork), [activeNetwork]);
+  // Read on every render so changes made in the swap settings apply here too
+  const { slippageBps } = getSwapSettings(activeNetwork.id);
+
+  const depositAmounts = useMemo(() => {
+    if (!pool) return null;
+    const amount0 = parseTokenAmount(state.amounts[pool.token0] ?? '', tokenDecimals[pool.token0]);
+    const amount1 = parseTokenAmount(state.amounts[pool.token1] ?? '', tokenDecimals[pool.token1]);
+    if (amount0 === null || amount1 === null || amount0 <= 0n || amount1 <= 0n) return null;
+    return getAddLiquidityAmounts(amount0, amount1, slippageBps);
+  }, [pool, state.amounts, tokenDecimals, slippageBps]);
+
+  const depositQuote = useMemo(() => {
+    if (!pool || !depositAmounts || !state.position) return null;
+    return quoteAddLiquidity(depositAmounts, state.position.reserves, pool, state.position.totalSupply);
+  }, [pool, depositAmounts, state.position]);
+
+  const withdrawQuote = useMemo(() => {
+    if (!pool || !state.position) return null;
+    const liquidity = parseTokenAmount(state.withdrawAmount, pool.liquidityToken.decimals);
+    if (liquidity === null) return null;
+    return getAmountsOnRemove(liquidity, state.position.reserves, pool, state.position.totalSupply);
+  }, [pool, state.withdrawAmount, state.position]);
+
+  const withdrawAmounts = useMemo(() => {
+    if (!pool || !withdrawQuote) return null;
+    const liquidity = parseTokenAmount(state.withdrawAmount, pool.liquidityToken.decimals);
+    if (liquidity === null) return null;
+    return getRemoveLiquidityAmounts(liquidity, withdrawQuote, slippageBps);
+  }, [pool, state.withdrawAmount, withdrawQuote, slippageBps]);
+
+  // Recomputed on each position refresh, which also follows every confirmed deposit or withdrawal
+  const positionSummary = useMemo(() => {
+    if (!pool || !state.position || !currentAddress) return null;
+    const { reserves, totalSupply, liquidityBalance } = state.position;
+    const records = getLiquidityHistory(activeNetwork.id, currentAddress.toString()).filter(r => r.pool === pool.key);
+    return getPositionSummary(liquidityBalance, reserves, pool, totalSupply, getCostBasis(records));
+  }, [pool, state.position, currentAddress, activeNetwork]);
+
+  const refreshPosition = useCallback(async () => {
+    if (isLoadingContracts || isFetchingPositionRef.current || !pool) return;
+
+    try {
+      isFetchingPositionRef.current = true;
+      actions.setLoadingPosition(true);
+      const position = await getLiquidityPosition(pool.key);
+      // Drop positions fetched for a pool the user has since moved away from
+      if (poolKeyRef.current === pool.key) {
+        actions.setPosition(position);
+      }
+    } catch {
+      // Keep the last known position; the next refresh will try again
+    } finally {
+      actions.setLoadingPosition(false);
+      isFetchingPositionRef.current = false;
+    }
+  }, [isLoadingContracts, pool, getLiquidityPosition, actions]);
+
+  // Runs a deposit or withdrawal through the shared phases and tx lifecycle, recording it once mined
+  const submit = useCallback(
+    async (
+      send: (onProgress: TxLifecycleListener) => Promise<TxReceipt>,
+      record: Pick<LiquidityRecord, 'pool' | 'kind' | 'amount0' | 'amount1' | 'liquidity'>,
+    ) => {
+      actions.startTransaction();
+      startTxLifecycle();
+
+      try {
+        const receipt = await send(updateTxLifecycle);
+        completeTxLifecycle(receipt);
+        if (currentAddress) {
+          addLiquidityRecord(activeNetwork.id, currentAddress.toString(), {
+            ...record,
+            id: receipt.txHash.toString(),
+            txHash: receipt.txHash.toString(),
+            blockNumber: receipt.blockNumber !== undefined ? Number(receipt.blockNumber) : undefined,
+            createdAt: Date.now(),
+          });
+        }
+        actions.transactionSuccess();
+        refreshPosition();
+      } catch (error) {
+        failTxLifecycle();
+        const { message, retryable } = classifyError(error, 'liquidity');
+        actions.transactionError(message, retryable);
+      }
+    },
+    [
+      currentAddress,
+      activeNetwork.id,
+      refreshPosition,
+      startTxLifecycle,
+      updateTxLifecycle,
+      completeTxLifecycle,
+      failTxLifecycle,
+      actions,
+    ],
+  );
+
+  const executeAddLiquidity = useCallback(async () => {
+    if (isLoadingContracts || !pool || !depositAmounts || !depositQuote) {
+      actions.transactionError('Cannot add liquidity: Missing data or invalid amount');
+      return;
+    }
+    await submit(onProgress => addLiquidity(pool.key, depositAmounts, onProgress), {
+      pool: pool.key,
+      kind: 'add',
+      amount0: depositQuote.amount0.toString(),
+      amount1: depositQuote.amount1.toString(),
+      liquidity: depositQuote.liquidity.toString(),
+    });
+  }, [isLoadingContracts, pool, depositAmounts, depositQuote, addLiquidity, submit, actions]);
+
+  const executeRemoveLiquidity = useCallback(async () => {
+    if (isLoadingContracts || !pool || !withdrawAmounts || !withdrawQuote) {
+      actions.transactionError('Cannot remove liquidity: Missing data or invalid amount');
+      return;
+    }
+    await submit(onProgress => removeLiquidity(pool.key, withdrawAmounts, onProgress), {
+      pool: pool.key,
+      kind: 'remove',
+      amount0: withdrawQuote.amount0.toString(),
+      amount1: withdrawQuote.amount1.toString(),
+      liquidity: withdrawAmounts.liquidity.toString(),
+    });
+  }, [isLoadingContracts, pool, withdrawAmounts, withdrawQuote, removeLiquidity, submit, actions]);
+
+  // Re-quote the amount the user didn't enter whenever the pool reserves change
+  useEffect(() => {
+    const { anchorToken, amounts } = state;
+    if (!pool || !state.position || !anchorToken || !amounts[anchorToken]) return;
+
+    const other = otherToken(pool, anchorToken);
+    const quote = quoteCounterpart(state.position.reserves, pool, anchorToken, amounts[anchorToken], tokenDecimals);
+    if (quote !== null && quote !== amounts[other]) {
+      actions.setAmounts({ ...amounts, [other]: quote }, anchorToken);
+    }
+  }, [state.position]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const setAmount = useCallback(
+    (token: TokenKey, value: string) => {
+      if (!pool) return;
+      const amounts = { ...state.amounts, [token]: value };
+      const other = otherToken(pool, token);
+
+      if (value === '') {
+        amounts[other] = '';
+      } else if (state.position) {
+        const quote = quoteCounterpart(state.position.reserves, pool, token, value, tokenDecimals);
+        if (quote !== null) {
+          amounts[other] = quote;
+        }
+      }
+      actions.setAmounts(amounts, token);
+    },
+    [pool, state.amounts, state.position, tokenDecimals, actions],
+  );
+
+  const reset = useCallback(() => {
+    actions.reset();
+    resetTxLifecycle();
+  }, [actions, resetTxLifecycle]);
+
+  const canAddLiquidity = depositQuote !== null && !isLoadingContracts && !isSubmitting;
+  const canRemoveLiquidity =
+    withdrawAmounts !== null &&
+    state.position !== null &&
+    withdrawAmounts.liquidity <= state.position.liquidityBalance &&
+    !isLoadingContracts &&
+    !isSubmitting;
+
+  const value: PoolContextType = {
+    ...state,
+    pools: activeNetwork.pools,
+    pool,
+    tokenDecimals,
+    slippageBps,
+    depositAmounts,
+    depositQuote,
+    withdrawAmounts,
+    withdrawQuote,
+    positionSummary,
+    canAddLiquidity,
+    canRemoveLiquidity,
+    isSubmitting,
+    txLifecycle,
+    setView: actions.setView,
+    setPool: actions.setPool,
+    setAmount,
+    setWithdrawAmount: actions.setWithdrawAmount,
+    refreshPosition,
+    executeAddLiquidity,
+    executeRemoveLiquidity,
+    dismissError: actions.dismissError,
+    reset,
+  };
+
+  return <PoolContext.Provider value={value}>{children}</PoolContext.Provider>;
+}
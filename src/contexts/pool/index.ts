@@ -0,0 +1,2 @@
+export { PoolProvider, usePool } from './PoolContext';
+export type { PoolPhase, PoolState, PoolView } from './reducer';
@@ -0,0 +1,132 @@
+/**
+ * Pool Reducer
+ * Manages liquidity UI state and transaction phases
+ */
+
+import { createReducerHook, type ActionsFrom } from '../utils';
+import type { LiquidityPosition } from '../../services/contractService';
+import type { TokenKey } from '../../types';
+
+// =============================================================================
+// State
+// =============================================================================
+
+export type PoolPhase = 'idle' | 'sending' | 'success' | 'error';
+
+/** Whether the pool tab is depositing or withdrawing liquidity */
+export type PoolView = 'add' | 'remove';
+
+export interface PoolState {
+  view: PoolView;
+  /** Selected pool, null for the network's default pool */
+  poolKey: string | null;
+  /** Deposit amounts as entered, per token of the selected pool */
+  amounts: Record<TokenKey, string>;
+  /** Which amount the user entered last; the other one follows the pool ratio */
+  anchorToken: TokenKey | null;
+  /** LQT to withdraw, as entered */
+  withdrawAmount: string;
+  position: LiquidityPosition | null;
+  isLoadingPosition: boolean;
+  phase: PoolPhase;
+  error: string | null;
+  /** Whether submitting the same deposit or withdrawal again can succeed */
+  errorRetryable: boolean;
+}
+
+export const initialPoolState: PoolState = {
+  view: 'add',
+  poolKey: null,
+  amounts: {},
+  anchorToken: null,
+  withdrawAmount: '',
+  position: null,
+  isLoadingPosition: false,
+  phase: 'idle',
+  error: null,
+  errorRetryable: false,
+};
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+export const poolActions = {
+  setView: (view: PoolView) => ({ type: 'pool/SET_VIEW' as const, view }),
+  setPool: (poolKey: string) => ({ type: 'pool/SET_POOL' as const, poolKey }),
+  setAmounts: (amounts: Record<TokenKey, string>, anchorToken: TokenKey) => ({
+    type: 'pool/SET_AMOUNTS' as const,
+    amounts,
+    anchorToken,
+  }),
+  setWithdrawAmount: (amount: string) => ({ type: 'pool/SET_WITHDRAW_AMOUNT' as const, amount }),
+  setPosition: (position: LiquidityPosition) => ({ type: 'pool/SET_POSITION' as const, position }),
+  setLoadingPosition: (loading: boolean) => ({ type: 'pool/SET_LOADING_POSITION' as const, loading }),
+  startTransaction: () => ({ type: 'pool/START_TRANSACTION' as const }),
+  transactionSuccess: () => ({ type: 'pool/TRANSACTION_SUCCESS' as const }),
+  transactionError: (error: string, retryable = false) => ({
+    type: 'pool/TRANSACTION_ERROR' as const,
+    error,
+    retryable,
+  }),
+  dismissError: () => ({ type: 'pool/DISMISS_ERROR' as const }),
+  reset: () => ({ type: 'pool/RESET' as const }),
+};
+
+export type PoolAction = ActionsFrom<typeof poolActions>;
+
+// =============================================================================
+// Reducer
+// =============================================================================
+
+export function poolReducer(state: PoolState, action: PoolAction): PoolState {
+  switch (action.type) {
+    case 'pool/SET_VIEW':
+      return { ...state, view: action.view, phase: 'idle', error: null, errorRetryable: false };
+
+    case 'pool/SET_POOL':
+      // Amounts and the position belong to the previous pool
+      return { ...initialPoolState, view: state.view, poolKey: action.poolKey };
+
+    case 'pool/SET_AMOUNTS':
+      return { ...state, amounts: action.amounts, anchorToken: action.anchorToken };
+
+    case 'pool/SET_WITHDRAW_AMOUNT':
+      return { ...state, withdrawAmount: action.amount };
+
+    case 'pool/SET_POSITION':
+      return { ...state, position: action.position, isLoadingPosition: false };
+
+    case 'pool/SET_LOADING_POSITION':
+      return { ...state, isLoadingPosition: action.loading };
+
+    case 'pool/START_TRANSACTION':
+      return { ...state, phase: 'sending', error: null, errorRetryable: false };
+
+    case 'pool/TRANSACTION_SUCCESS':
+      return {
+        ...state,
+        phase: 'success',
+        amounts: initialPoolState.amounts,
+        withdrawAmount: initialPoolState.withdrawAmount,
+      };
+
+    case 'pool/TRANSACTION_ERROR':
+      return { ...state, phase: 'error', error: action.error, errorRetryable: action.retryable };
+
+    case 'pool/DISMISS_ERROR':
+      return { ...state, phase: 'idle', error: null, errorRetryable: false };
+
+    case 'pool/RESET':
+      return { ...initialPoolState, view: state.view, poolKey: state.poolKey, position: state.position };
+
+    default:
+      return state;
+  }
+}
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+export const usePoolReducer = createReducerHook(poolReducer, poolActions, initialPoolState);
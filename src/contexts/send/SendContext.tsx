@@ -3,18 +3,51 @@
  * Manages offchain transfer flow and link generation
  */
 
-import { createContext, useContext, type ReactNode, useCallback } from 'react';
+import { createContext, useContext, type ReactNode, useCallback, useEffect, useMemo, useState } from 'react';
 import { AztecAddress } from '@aztec/aztec.js/addresses';
+import type { OffchainMessage } from '@aztec/aztec.js/contracts';
+import type { TxHash } from '@aztec/stdlib/tx';
 import { useSendReducer, type SendState, type SendPhase } from './reducer';
 import { useContracts } from '../contracts';
 import { useWallet } from '../wallet';
 import { useNetwork } from '../network';
-import { encodeTransferLink, type TransferLink } from '../../services/offchainLinkService';
-import { addSentTransfer } from '../../services/sentHistoryService';
+import { useBlocks } from '../blocks';
+import { encodeTransferLink, getLinkTokenCode, regenerateTransferLink } from '../../services/offchainLinkService';
+import {
+  addSentTransfer,
+  getSentTransfers,
+  updateSentTransferLink,
+  type SentTransfer,
+} from '../../services/sentHistoryService';
+import { reconcileSentTransfers } from '../../services/sentTransferReconcilerService';
+import { batchBulkSend, type BulkSendResult, type BulkSendRow } from '../../services/bulkSendService';
+import { createBearerAccount } from '../../services/walletService';
+import type { ImportedToken } from '../../services/importedTokenService';
+import type { TokenConfig } from '../../config/networks';
+import type { TokenKey } from '../../types';
+import { parseTokenAmount } from '../../utils/tokenAmount';
+import type { TxLifecycle } from '../../services/txLifecycleService';
+import { useTxLifecycle } from '../../hooks/useTxLifecycle';
+import { classifyError } from '../../services/errorService';
 
 interface SendContextType extends SendState {
-  setToken: (token: 'gc' | 'gcp') => void;
+  /** Configured tokens of the active network, followed by the ones the user imported */
+  tokens: (TokenConfig | ImportedToken)[];
+  /** The token being sent, null while the selection isn't available on the active network */
+  selectedToken: TokenConfig | ImportedToken | null;
+  setToken: (token: TokenKey) => void;
   setRecipientAddress: (address: string) => void;
+  setBearer: (isBearer: boolean) => void;
+  /**
+   * Whether the subscription FPC pays for transfers of the selected token. The sender pays for the others, which
+   * the embedded wallet can't do
+   */
+  isTokenSponsored: boolean;
+  /**
+   * Bearer links are swept by a throwaway account with no fee juice, so only sponsored tokens can use them. The
+   * account is new to the FPC, so every claim takes up a subscription slot of the token's transfer config
+   */
+  canSendBearer: boolean;
   setAmount: (amount: string) => void;
   startSend: () => void;
   generatingLink: () => void;
@@ -23,7 +56,50 @@ interface SendContextType extends SendState {
   dismissError: () => void;
   reset: () => void;
   canSend: boolean;
+  /** Progress of the transfer tx, kept after it is mined until its block is finalized */
+  txLifecycle: TxLifecycle | null;
   executeSend: () => Promise<void>;
+  /**
+   * Sends the rows of a bulk-send CSV batch by batch, recording each transfer in sent history.
+   * Stops at the first failed batch; the results say which transfers went out.
+   */
+  executeBulkSend: (
+    rows: BulkSendRow[],
+    onBatch?: (batch: number, batchCount: number) => void,
+  ) => Promise<BulkSendResult[]>;
+  /** Transfers sent from the current account, newest first */
+  sentTransfers: SentTransfer[];
+  /** Reloads the sent transfers from storage, e.g. after a data import */
+  refreshSentTransfers: () => void;
+  /** Re-encodes a sent transfer's link in the current format, stores it and returns it */
+  regenerateSentLink: (transferId: string) => string;
+}
+
+/**
+ * Encodes a transfer's claim link from the offchain message delivering it to the recipient
+ */
+function createTransferLink(
+  networkId: string,
+  token: TokenConfig | ImportedToken,
+  recipient: AztecAddress,
+  amount: bigint,
+  txHash: string,
+  message: OffchainMessage,
+  bearerSecret?: string,
+): string {
+  return encodeTransferLink({
+    networkId,
+    token: getLinkTokenCode(token.key),
+    symbol: token.symbol,
+    decimals: token.decimals,
+    amount: amount.toString(),
+    recipient: recipient.toString(),
+    contractAddress: token.address,
+    txHash,
+    anchorBlockTimestamp: message.anchorBlockTimestamp.toString(),
+    payload: message.payload.map(f => f.toString()),
+    bearerSecret,
+  });
 }
 
 const SendContext = createContext<SendContextType | undefined>(undefined);
@@ -42,81 +118,272 @@ interface SendProviderProps {
 
 export function SendProvider({ children }: SendProviderProps) {
   const [state, actions] = useSendReducer();
-  const { sendOffchain, isLoadingContracts } = useContracts();
-  const { currentAddress } = useWallet();
+  const { sendOffchain, sendOffchainBatch, isLoadingContracts, importedTokens } = useContracts();
+  const { wallet, node, currentAddress, isUsingEmbeddedWallet } = useWallet();
   const { activeNetwork } = useNetwork();
+  const { blockNumber } = useBlocks();
+  const [sentTransfers, setSentTransfers] = useState<SentTransfer[]>([]);
+  const {
+    lifecycle: txLifecycle,
+    update: updateTxLifecycle,
+    start: startTxLifecycle,
+    complete: completeTxLifecycle,
+    fail: failTxLifecycle,
+    reset: resetTxLifecycle,
+  } = useTxLifecycle();
+
+  const tokens = useMemo(() => [...activeNetwork.tokens, ...importedTokens], [activeNetwork.tokens, importedTokens]);
+  const selectedToken = tokens.find(t => t.key === state.token) ?? null;
+  const parsedAmount = selectedToken ? parseTokenAmount(state.amount, selectedToken.decimals) : null;
+
+  // Fall back to the first token when the selected one isn't available on the active network
+  useEffect(() => {
+    if (!selectedToken && tokens.length > 0) {
+      actions.setToken(tokens[0].key);
+    }
+  }, [selectedToken, tokens, actions]);
+
+  const refreshSentTransfers = useCallback(() => {
+    setSentTransfers(currentAddress ? getSentTransfers(currentAddress.toString()) : []);
+  }, [currentAddress]);
+
+  useEffect(() => {
+    refreshSentTransfers();
+  }, [refreshSentTransfers]);
+
+  // Settle pending transfers as new blocks come in, wherever the user is in the app
+  const hasPendingTransfers = sentTransfers.some(t => t.status === 'pending');
+  useEffect(() => {
+    if (!node || !currentAddress || !hasPendingTransfers) return;
+    reconcileSentTransfers(node, currentAddress.toString(), activeNetwork.id).then(changed => {
+      if (changed) refreshSentTransfers();
+    });
+  }, [node, currentAddress, activeNetwork.id, hasPendingTransfers, blockNumber, refreshSentTransfers]);
+
+  const isTokenSponsored = selectedToken !== null && !!activeNetwork.subscriptionFPC?.functions[selectedToken.address];
+  // Each sweep subscribes a fresh account, using up one of the config's slots rather than one of the sender's
+  // uses: the link can't be claimed once the slots run out, whatever the sender's own subscription has left
+  const canSendBearer = isTokenSponsored;
+  const isBearer = state.isBearer && canSendBearer;
 
   const canSend =
-    !!state.amount &&
-    parseFloat(state.amount) > 0 &&
-    !!state.recipientAddress &&
+    selectedToken !== null &&
+    parsedAmount !== null &&
+    parsedAmount > 0n &&
+    (isBearer || !!state.recipientAddress) &&
+    (isTokenSponsored || !isUsingEmbeddedWallet) &&
     !isLoadingContracts &&
     !!currentAddress;
 
   const executeSend = useCallback(async () => {
-    if (!currentAddress || !state.recipientAddress || !state.amount) {
+    if (
+      !wallet ||
+      !currentAddress ||
+      (!isBearer && !state.recipientAddress) ||
+      !selectedToken ||
+      parsedAmount === null
+    ) {
       actions.sendError('Missing required fields');
       return;
     }
 
     actions.startSend();
+    startTxLifecycle();
 
     try {
-      const recipient = AztecAddress.fromString(state.recipientAddress);
-      const amount = BigInt(Math.round(parseFloat(state.amount)));
-      const tokenKey = state.token === 'gc' ? 'gregoCoin' as const : 'gregoCoinPremium' as const;
-      const contractAddress = activeNetwork.contracts[tokenKey];
+      const bearer = isBearer ? await createBearerAccount(wallet) : null;
+      const recipient = bearer?.address ?? AztecAddress.fromString(state.recipientAddress);
+      const amount = parsedAmount;
+      const { key: tokenKey, symbol, decimals } = selectedToken;
+
+      const linkFor = (txHash: TxHash, recipientMessages: OffchainMessage[]) => {
+        if (!recipientMessages[0]) {
+          throw new Error('No offchain message generated for recipient');
+        }
+        return createTransferLink(
+          activeNetwork.id,
+          selectedToken,
+          recipient,
+          amount,
+          txHash.toString(),
+          recipientMessages[0],
+          bearer?.secretKey.toString(),
+        );
+      };
 
-      const { receipt, offchainMessages } = await sendOffchain(tokenKey, recipient, amount);
+      // Recorded as pending as soon as the tx is submitted, so the transfer and its link are kept even if the
+      // tx is never mined; the reconciler settles it from there
+      const { receipt, offchainMessages } = await sendOffchain(
+        tokenKey,
+        recipient,
+        amount,
+        (txHash, recipientMessages) => {
+          addSentTransfer(currentAddress.toString(), {
+            id: txHash.toString(),
+            txHash: txHash.toString(),
+            token: tokenKey,
+            symbol,
+            decimals,
+            amount: amount.toString(),
+            recipient: recipient.toString(),
+            bearer: isBearer || undefined,
+            link: linkFor(txHash, recipientMessages),
+            networkId: activeNetwork.id,
+            createdAt: Date.now(),
+            status: 'pending',
+          });
+          refreshSentTransfers();
+        },
+        updateTxLifecycle,
+      );
+      completeTxLifecycle(receipt);
 
       actions.generatingLink();
+      const link = linkFor(receipt.txHash, offchainMessages);
+      actions.linkReady(link);
+    } catch (error) {
+      failTxLifecycle();
+      actions.sendError(classifyError(error, 'send').message);
+    }
+  }, [
+    wallet,
+    currentAddress,
+    activeNetwork.id,
+    isBearer,
+    state.recipientAddress,
+    parsedAmount,
+    selectedToken,
+    sendOffchain,
+    startTxLifecycle,
+    updateTxLifecycle,
+    completeTxLifecycle,
+    failTxLifecycle,
+    refreshSentTransfers,
+    actions,
+  ]);
 
-      const recipientMessage = offchainMessages[0];
-      if (!recipientMessage) {
-        throw new Error('No offchain message generated for recipient');
+  const executeBulkSend = useCallback(
+    async (rows: BulkSendRow[], onBatch?: (batch: number, batchCount: number) => void) => {
+      if (!currentAddress) {
+        throw new Error('No wallet connected');
       }
 
-      const linkData: TransferLink = {
-        token: state.token,
-        amount: state.amount,
-        recipient: state.recipientAddress,
-        contractAddress,
-        txHash: receipt.txHash.toString(),
-        anchorBlockTimestamp: recipientMessage.anchorBlockTimestamp.toString(),
-        payload: recipientMessage.payload.map((f: any) => f.toString()),
-      };
+      const batches = batchBulkSend(rows);
+      const results: BulkSendResult[] = [];
+      let failure: string | null = null;
 
-      const link = encodeTransferLink(linkData);
-      actions.linkReady(link);
+      for (const [i, batch] of batches.entries()) {
+        if (failure !== null) {
+          results.push(...batch.map(row => ({ row, status: 'not_sent' as const })));
+          continue;
+        }
 
-      addSentTransfer(currentAddress.toString(), {
-        id: receipt.txHash.toString(),
-        token: state.token,
-        amount: state.amount,
-        recipient: state.recipientAddress,
-        link,
-        createdAt: Date.now(),
-        status: 'confirmed',
-      });
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Send failed. Please try again.';
-      actions.sendError(message);
-    }
-  }, [currentAddress, state.recipientAddress, state.amount, state.token, activeNetwork, sendOffchain, actions]);
+        onBatch?.(i + 1, batches.length);
+        // Filled in once the batch's tx is submitted, so its transfers keep their links even if it isn't mined
+        const submitted: { txHash?: string; links: string[] } = { links: [] };
+        try {
+          await sendOffchainBatch(
+            batch.map(row => ({ tokenKey: row.token.key, recipient: row.recipient, amount: row.amount })),
+            (txHash, messages) => {
+              const hash = txHash.toString();
+              submitted.txHash = hash;
+              submitted.links = batch.map((row, j) =>
+                createTransferLink(activeNetwork.id, row.token, row.recipient, row.amount, hash, messages[j]),
+              );
+              // Recorded as pending right away; the reconciler settles them. One tx carries the whole batch, so
+              // each transfer's id also says which of its transfers it is
+              batch.forEach((row, j) =>
+                addSentTransfer(currentAddress.toString(), {
+                  id: `${hash}:${j}`,
+                  txHash: hash,
+                  token: row.token.key,
+                  symbol: row.token.symbol,
+                  decimals: row.token.decimals,
+                  amount: row.amount.toString(),
+                  recipient: row.recipient.toString(),
+                  link: submitted.links[j],
+                  networkId: activeNetwork.id,
+                  createdAt: Date.now(),
+                  status: 'pending',
+                }),
+              );
+              refreshSentTransfers();
+            },
+          );
+          results.push(
+            ...batch.map((row, j) => ({
+              row,
+              status: 'sent' as const,
+              txHash: submitted.txHash,
+              link: submitted.links[j],
+            })),
+          );
+        } catch (error) {
+          const message = classifyError(error, 'send').message;
+          failure = message;
+          results.push(
+            ...batch.map((row, j) =>
+              submitted.txHash
+                ? {
+                    row,
+                    status: 'pending' as const,
+                    txHash: submitted.txHash,
+                    link: submitted.links[j],
+                    error: message,
+                  }
+                : { row, status: 'failed' as const, error: message },
+            ),
+          );
+        }
+      }
+      return results;
+    },
+    [currentAddress, activeNetwork.id, sendOffchainBatch, refreshSentTransfers],
+  );
+
+  const regenerateSentLink = useCallback(
+    (transferId: string) => {
+      const transfer = sentTransfers.find(t => t.id === transferId);
+      if (!currentAddress || !transfer) {
+        throw new Error('Transfer not found');
+      }
+      const link = regenerateTransferLink(transfer.link);
+      updateSentTransferLink(currentAddress.toString(), transferId, link);
+      refreshSentTransfers();
+      return link;
+    },
+    [currentAddress, sentTransfers, refreshSentTransfers],
+  );
+
+  const reset = useCallback(() => {
+    actions.reset();
+    resetTxLifecycle();
+  }, [actions, resetTxLifecycle]);
 
   const value: SendContextType = {
     ...state,
+    isBearer,
+    tokens,
+    selectedToken,
     setToken: actions.setToken,
     setRecipientAddress: actions.setRecipientAddress,
+    setBearer: actions.setBearer,
+    isTokenSponsored,
+    canSendBearer,
     setAmount: actions.setAmount,
     startSend: actions.startSend,
     generatingLink: actions.generatingLink,
     linkReady: actions.linkReady,
     sendError: actions.sendError,
     dismissError: actions.dismissError,
-    reset: actions.reset,
+    reset,
     canSend,
+    txLifecycle,
     executeSend,
+    executeBulkSend,
+    sentTransfers,
+    refreshSentTransfers,
+    regenerateSentLink,
   };
 
   return <SendContext.Provider value={value}>{children}</SendContext.Provider>;
@@ -4,13 +4,17 @@
  */
 
 import { createReducerHook, type ActionsFrom } from '../utils';
+import type { TokenKey } from '../../types';
 
 // State
 export type SendPhase = 'idle' | 'sending' | 'generating_link' | 'link_ready' | 'error';
 
 export interface SendState {
-  token: 'gc' | 'gcp';
+  /** Configured or imported token to send */
+  token: TokenKey;
   recipientAddress: string;
+  /** Send to a throwaway account whose key travels in the link, so anyone holding the link can claim */
+  isBearer: boolean;
   amount: string;
   phase: SendPhase;
   error: string | null;
@@ -18,8 +22,9 @@ export interface SendState {
 }
 
 export const initialSendState: SendState = {
-  token: 'gc',
+  token: 'gregoCoin',
   recipientAddress: '',
+  isBearer: false,
   amount: '',
   phase: 'idle',
   error: null,
@@ -28,8 +33,9 @@ export const initialSendState: SendState = {
 
 // Actions (namespaced with 'send/')
 export const sendActions = {
-  setToken: (token: 'gc' | 'gcp') => ({ type: 'send/SET_TOKEN' as const, token }),
+  setToken: (token: TokenKey) => ({ type: 'send/SET_TOKEN' as const, token }),
   setRecipientAddress: (address: string) => ({ type: 'send/SET_RECIPIENT' as const, address }),
+  setBearer: (isBearer: boolean) => ({ type: 'send/SET_BEARER' as const, isBearer }),
   setAmount: (amount: string) => ({ type: 'send/SET_AMOUNT' as const, amount }),
   startSend: () => ({ type: 'send/START_SEND' as const }),
   generatingLink: () => ({ type: 'send/GENERATING_LINK' as const }),
@@ -48,6 +54,8 @@ export function sendReducer(state: SendState, action: SendAction): SendState {
       return { ...state, token: action.token };
     case 'send/SET_RECIPIENT':
       return { ...state, recipientAddress: action.address };
+    case 'send/SET_BEARER':
+      return { ...state, isBearer: action.isBearer };
     case 'send/SET_AMOUNT':
       return { ...state, amount: action.amount };
     case 'send/START_SEND':
@@ -3,19 +3,164 @@
  * Manages swap UI state and execution
  */
 
-import { createContext, useContext, useCallback, useEffect, useRef, useState, type ReactNode } from 'react';
+import { createContext, useContext, useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
 import { useContracts } from '../contracts';
 import { useWallet } from '../wallet';
 import { useOnboarding } from '../onboarding';
+import { useNetwork } from '../network';
+import { useBlocks } from '../blocks';
 import { useSwapReducer, type SwapState } from './reducer';
-import { GREGOCOIN_USD_PRICE, EXCHANGE_RATE_POLL_INTERVAL_MS } from '../../types';
+import { getMaximumSold, getMinimumReceived, type SwapDetails } from '../../services/quoteService';
+import {
+  findBestRoute,
+  findRoutes,
+  findUnfundedHop,
+  getHopSwapAmounts,
+  getRouteDetails,
+  getRoutePools,
+  getRouteSpotRate,
+  type QuotedRoute,
+  type RouteHop,
+} from '../../services/routeService';
+import { getSwapSettings, saveSwapSettings, type SwapSettings } from '../../services/swapSettingsService';
+import { addSwapRecord, updateSwapRecord, type SwapRecord } from '../../services/swapHistoryService';
+import { reconcileSwapHistory } from '../../services/swapReconcilerService';
+import type { TxLifecycle, TxLifecycleUpdate } from '../../services/txLifecycleService';
+import { useTxLifecycle } from '../../hooks/useTxLifecycle';
+import { classifyError } from '../../services/errorService';
+import { getTokenDecimalsMap, getTokenSymbol, type TokenConfig } from '../../config/networks';
+import { TokenAmount, formatTokenAmount, parseTokenAmount } from '../../utils/tokenAmount';
+import {
+  GREGOCOIN_USD_PRICE,
+  GREGOCOIN_PREMIUM_USD_PRICE,
+  oppositeDirection,
+  type Balances,
+  type PoolReserves,
+  type SwapAmounts,
+  type SwapDirection,
+  type SwapMode,
+  type TokenKey,
+} from '../../types';
+
+/** Reference prices for the USD estimates; tokens without one show $0 */
+const TOKEN_USD_PRICES: Record<TokenKey, number> = {
+  gregoCoin: GREGOCOIN_USD_PRICE,
+  gregoCoinPremium: GREGOCOIN_PREMIUM_USD_PRICE,
+};
+
+/**
+ * Builds the swap amounts for the current mode. The amount the user entered is fixed and the
+ * quoted side is bounded by the slippage tolerance.
+ */
+function getSwapAmounts(
+  direction: SwapDirection,
+  mode: SwapMode,
+  fromAmount: string,
+  toAmount: string,
+  slippageBps: number,
+  decimals: Record<TokenKey, number>,
+): SwapAmounts | null {
+  const { tokenIn, tokenOut } = direction;
+  const amountIn = parseTokenAmount(fromAmount, decimals[tokenIn]);
+  const amountOut = parseTokenAmount(toAmount, decimals[tokenOut]);
+  if (amountIn === null || amountOut === null || amountIn <= 0n || amountOut <= 0n) return null;
+
+  return mode === 'exactIn'
+    ? { mode: 'exactIn', amountIn, amountOutMin: getMinimumReceived(amountOut, slippageBps) }
+    : { mode: 'exactOut', amountOut, amountInMax: getMaximumSold(amountIn, slippageBps) };
+}
+
+/**
+ * Quotes the other side of the swap for the amount the user entered along the best usable route, using the
+ * AMM's exact pricing. Returns null if the value isn't a number yet, or '' if no route can fill the amount.
+ */
+function quoteCounterpart(
+  routes: RouteHop[][],
+  reserves: Record<string, PoolReserves>,
+  direction: SwapDirection,
+  mode: SwapMode,
+  value: string,
+  decimals: Record<TokenKey, number>,
+  isUsable: (route: QuotedRoute, mode: SwapMode) => boolean,
+): string | null {
+  const { tokenIn, tokenOut } = direction;
+  const [enteredToken, quotedToken] = mode === 'exactIn' ? [tokenIn, tokenOut] : [tokenOut, tokenIn];
+
+  const amount = parseTokenAmount(value, decimals[enteredToken]);
+  if (amount === null) return null;
+
+  const route = findBestRoute(routes, reserves, mode, amount, quoted => isUsable(quoted, mode));
+  if (!route) return '';
+  return formatTokenAmount(mode === 'exactIn' ? route.amountOut : route.amountIn, decimals[quotedToken]);
+}
+
+/**
+ * Builds the history record for a swap. The fixed side comes from the submitted amounts and the
+ * other side is the quote shown to the user when they confirmed, kept alongside the slippage bound it was
+ * sent with.
+ */
+function buildSwapRecord(
+  direction: SwapDirection,
+  amounts: SwapAmounts,
+  fromAmount: string,
+  toAmount: string,
+  decimals: Record<TokenKey, number>,
+  sponsored: boolean,
+): Omit<SwapRecord, 'id' | 'txHash' | 'status'> {
+  const { tokenIn, tokenOut } = direction;
+  const amountIn =
+    amounts.mode === 'exactIn' ? amounts.amountIn : (parseTokenAmount(fromAmount, decimals[tokenIn]) ?? 0n);
+  const amountOut =
+    amounts.mode === 'exactOut' ? amounts.amountOut : (parseTokenAmount(toAmount, decimals[tokenOut]) ?? 0n);
+
+  const wholeIn = new TokenAmount(amountIn, decimals[tokenIn]).toNumber();
+  const wholeOut = new TokenAmount(amountOut, decimals[tokenOut]).toNumber();
+
+  return {
+    tokenIn,
+    tokenOut,
+    mode: amounts.mode,
+    amountIn: amountIn.toString(),
+    amountOut: amountOut.toString(),
+    amountLimit: (amounts.mode === 'exactIn' ? amounts.amountOutMin : amounts.amountInMax).toString(),
+    effectivePrice: wholeIn > 0 ? wholeOut / wholeIn : 0,
+    sponsored,
+    createdAt: Date.now(),
+  };
+}
 
 interface SwapContextType extends SwapState {
   // Computed values
+  /** Tokens on the active network that can be selected on either side */
+  tokens: TokenConfig[];
+  /** Whether the configured pools connect the selected pair, directly or through other tokens */
+  hasRoute: boolean;
+  /** Best route the user can send for the entered amount at the current reserves, null until it can be quoted */
+  route: QuotedRoute | null;
+  /** Whether the best route trades through more than one pool; such swaps aren't sponsored */
+  isMultiHop: boolean;
+  /** Why a route through several pools that would fill the amount better, or at all, can't be used */
+  routeNotice: string | null;
+  /** Why the swap can't be sponsored as entered, when the wallet can't pay the fee itself */
+  sponsorshipNotice: string | null;
+  /** Decimals of each token on the active network */
+  tokenDecimals: Record<TokenKey, number>;
+  /** Spot price: output tokens per input token in the current direction, before fee and price impact */
+  directionalRate: number | null;
   fromAmountUSD: number;
   toAmountUSD: number;
   canSwap: boolean;
   isSwapping: boolean;
+  /** Progress of the current swap, kept after it is mined until its block is finalized */
+  txLifecycle: TxLifecycle | null;
+  /** Amounts that will be submitted, with the slippage bound applied (null until both sides are set) */
+  swapAmounts: SwapAmounts | null;
+  /** Price impact, LP fee and execution price for the quoted amounts */
+  swapDetails: SwapDetails | null;
+
+  // Slippage tolerance and price impact thresholds, persisted per network
+  swapSettings: SwapSettings;
+  updateSwapSettings: (update: Partial<SwapSettings>) => void;
 
   // Sponsorship opt-out (external wallets only)
   bypassSponsorship: boolean;
@@ -24,6 +169,9 @@ interface SwapContextType extends SwapState {
   // Actions
   setFromAmount: (amount: string) => void;
   setToAmount: (amount: string) => void;
+  flipDirection: () => void;
+  /** Selects the token on one side; picking the token already on the other side flips the pair */
+  selectToken: (side: 'in' | 'out', token: TokenKey) => void;
   executeSwap: () => Promise<void>;
   dismissError: () => void;
   reset: () => void;
@@ -44,8 +192,20 @@ interface SwapProviderProps {
 }
 
 export function SwapProvider({ children }: SwapProviderProps) {
-  const { swap, unsponsoredSwap, isLoadingContracts, getExchangeRate } = useContracts();
-  const { isUsingEmbeddedWallet } = useWallet();
+  const {
+    swap,
+    unsponsoredSwap,
+    simulateSwap,
+    simulateUnsponsoredSwap,
+    routeSwap,
+    simulateRouteSwap,
+    isLoadingContracts,
+    getPoolReserves,
+    fetchBalances,
+  } = useContracts();
+  const { isUsingEmbeddedWallet, currentAddress, node } = useWallet();
+  const { activeNetwork } = useNetwork();
+  const { blockNumber, cachedRead } = useBlocks();
   const {
     status: onboardingStatus,
     onboardingResult,
@@ -56,6 +216,29 @@ export function SwapProvider({ children }: SwapProviderProps) {
 
   const [state, actions] = useSwapReducer();
   const [bypassSponsorship, setBypassSponsorship] = useState(false);
+  const {
+    lifecycle: txLifecycle,
+    update: updateTxLifecycle,
+    start: startTxLifecycle,
+    complete: completeTxLifecycle,
+    fail: failTxLifecycle,
+    reset: resetTxLifecycle,
+  } = useTxLifecycle();
+  const [swapSettings, setSwapSettings] = useState(() => getSwapSettings(activeNetwork.id));
+
+  // Load the swap settings saved for the active network
+  useEffect(() => {
+    setSwapSettings(getSwapSettings(activeNetwork.id));
+  }, [activeNetwork.id]);
+
+  const updateSwapSettings = useCallback(
+    (update: Partial<SwapSettings>) => {
+      const next = { ...getSwapSettings(activeNetwork.id), ...update };
+      setSwapSettings(next);
+      saveSwapSettings(activeNetwork.id, next);
+    },
+    [activeNetwork.id],
+  );
 
   // Reset bypass when switching back to embedded wallet
   useEffect(() => {
@@ -68,50 +251,263 @@ export function SwapProvider({ children }: SwapProviderProps) {
   const isFetchingRateRef = useRef(false);
   const hasUsedOnboardingResultRef = useRef(false);
   const swapTriggeredRef = useRef(false);
-  const prevExchangeRateRef = useRef<number | null>(null);
 
-  // Computed value used by multiple effects
+  // Computed values used by multiple effects
   const isSwapping = state.phase === 'sending';
+  const tokenDecimals = useMemo(() => getTokenDecimalsMap(activeNetwork), [activeNetwork]);
+  const { tokenIn, tokenOut } = state.direction;
+  const routes = useMemo(
+    () => findRoutes(activeNetwork.pools, state.direction),
+    [activeNetwork.pools, state.direction],
+  );
+  const routePools = useMemo(() => getRoutePools(routes), [routes]);
+  const hasRoute = routes.length > 0;
+  const routePoolsKey = routePools.join(',');
+  const routePoolsKeyRef = useRef(routePoolsKey);
+  routePoolsKeyRef.current = routePoolsKey;
+
+  // Fall back to the default pool's pair when the network doesn't list one of the selected tokens
+  useEffect(() => {
+    const listed = (token: TokenKey) => activeNetwork.tokens.some(t => t.key === token);
+    const defaultPool = activeNetwork.pools[0];
+    if (defaultPool && (!listed(tokenIn) || !listed(tokenOut))) {
+      actions.setDirection({ tokenIn: defaultPool.token0, tokenOut: defaultPool.token1 });
+    }
+  }, [activeNetwork, tokenIn, tokenOut, actions]);
+
+  const swapAmounts = useMemo(
+    () =>
+      getSwapAmounts(
+        state.direction,
+        state.mode,
+        state.fromAmount,
+        state.toAmount,
+        swapSettings.slippageBps,
+        tokenDecimals,
+      ),
+    [state.direction, state.mode, state.fromAmount, state.toAmount, swapSettings.slippageBps, tokenDecimals],
+  );
+
+  // Private balances, which multi-hop routes spend from
+  const [balances, setBalances] = useState<Balances>({});
+  useEffect(() => {
+    if (onboardingStatus !== 'completed' || !currentAddress) {
+      setBalances({});
+      return;
+    }
+    cachedRead(`balances:${currentAddress.toString()}`, fetchBalances).then(setBalances, () => {});
+  }, [onboardingStatus, currentAddress, fetchBalances, cachedRead, blockNumber]);
+
+  // Routes through several pools run as one self-paid batch, which the embedded wallet can't pay for, and
+  // spend each intermediate token from the private balance before the previous hop's output comes back
+  const isRouteUsable = useCallback(
+    (candidate: QuotedRoute, mode: SwapMode) =>
+      candidate.hops.length === 1 ||
+      (!isUsingEmbeddedWallet && findUnfundedHop(candidate, mode, swapSettings.slippageBps, balances) === null),
+    [isUsingEmbeddedWallet, swapSettings.slippageBps, balances],
+  );
+
+  const enteredAmount = useMemo(() => {
+    const [value, token] = state.mode === 'exactIn' ? [state.fromAmount, tokenIn] : [state.toAmount, tokenOut];
+    const amount = parseTokenAmount(value, tokenDecimals[token]);
+    return amount !== null && amount > 0n ? amount : null;
+  }, [state.mode, state.fromAmount, state.toAmount, tokenIn, tokenOut, tokenDecimals]);
+
+  // Best route for the amount the user entered; the other amount is this route's quote
+  const route = useMemo(() => {
+    if (!state.reserves || enteredAmount === null) return null;
+    return findBestRoute(routes, state.reserves, state.mode, enteredAmount, quoted =>
+      isRouteUsable(quoted, state.mode),
+    );
+  }, [routes, state.reserves, state.mode, enteredAmount, isRouteUsable]);
+  const isMultiHop = route !== null && route.hops.length > 1;
+
+  const routeNotice = useMemo(() => {
+    if (!state.reserves || enteredAmount === null) return null;
+    const best = findBestRoute(routes, state.reserves, state.mode, enteredAmount);
+    if (!best || isRouteUsable(best, state.mode)) return null;
+
+    const unfunded = findUnfundedHop(best, state.mode, swapSettings.slippageBps, balances);
+    let reason =
+      "Swaps routed through several pools aren't sponsored. Connect an external wallet to pay the network fee yourself.";
+    if (!isUsingEmbeddedWallet && unfunded) {
+      const symbol = getTokenSymbol(activeNetwork, unfunded.token);
+      const amount = formatTokenAmount(unfunded.amount, tokenDecimals[unfunded.token]);
+      reason = `Routing through ${symbol} needs ${amount} ${symbol} in your private balance. The swap spends it and gets it back.`;
+    }
+    return route ? `A better price is available through several pools. ${reason}` : reason;
+  }, [
+    routes,
+    state.reserves,
+    state.mode,
+    enteredAmount,
+    route,
+    isRouteUsable,
+    isUsingEmbeddedWallet,
+    swapSettings.slippageBps,
+    balances,
+    activeNetwork,
+    tokenDecimals,
+  ]);
+
+  // The AMM has no sponsored exact-input swap, and the embedded wallet can't pay the fee itself
+  const sponsorshipNotice =
+    isUsingEmbeddedWallet && state.mode === 'exactIn' && enteredAmount !== null
+      ? 'Only swaps for an exact amount received are sponsored. Enter the amount you want to receive instead.'
+      : null;
 
   // Internal swap execution (for use in effects)
   const doSwap = useCallback(async () => {
-    if (isLoadingContracts || !state.fromAmount || parseFloat(state.fromAmount) <= 0) {
+    if (isLoadingContracts || !swapAmounts) {
       actions.swapError('Cannot perform swap: Missing data or invalid amount');
       return;
     }
 
     actions.startSwap();
+    startTxLifecycle();
+
+    // Routes through several pools run as one self-paid batch; the FPC only sponsors single exact-output AMM calls
+    const selfPaid = bypassSponsorship || swapAmounts.mode === 'exactIn';
+    const multiHop =
+      route && route.hops.length > 1
+        ? { route, hopAmounts: getHopSwapAmounts(route, swapAmounts, swapSettings.slippageBps) }
+        : null;
+    const record = buildSwapRecord(
+      state.direction,
+      swapAmounts,
+      state.fromAmount,
+      state.toAmount,
+      tokenDecimals,
+      !selfPaid && multiHop === null,
+    );
+
+    // The swap is recorded as pending as soon as its tx is submitted, so it stays in the history with its hash
+    // whatever happens while waiting for it to be mined
+    const submitted: { txHash: string | null } = { txHash: null };
+    const onProgress = (update: TxLifecycleUpdate) => {
+      updateTxLifecycle(update);
+      if (update.stage !== 'pending' || !update.txHash || submitted.txHash || !currentAddress) return;
+      submitted.txHash = update.txHash;
+      addSwapRecord(activeNetwork.id, currentAddress.toString(), {
+        ...record,
+        id: update.txHash,
+        txHash: update.txHash,
+        status: 'pending',
+        createdAt: Date.now(),
+      });
+    };
 
     try {
-      const swapFn = bypassSponsorship ? unsponsoredSwap : swap;
-      await swapFn(parseFloat(state.toAmount), parseFloat(state.fromAmount) * 1.1);
+      // Pre-flight the exact call so a revert surfaces before the user waits for proving
+      if (multiHop) {
+        await simulateRouteSwap(multiHop.route, multiHop.hopAmounts);
+      } else if (selfPaid) {
+        await simulateUnsponsoredSwap(state.direction, swapAmounts);
+      } else {
+        await simulateSwap(state.direction, swapAmounts);
+      }
+      updateTxLifecycle({ stage: 'proving' });
+
+      const receipt = multiHop
+        ? await routeSwap(multiHop.route, multiHop.hopAmounts, onProgress)
+        : selfPaid
+          ? await unsponsoredSwap(state.direction, swapAmounts, onProgress)
+          : await swap(state.direction, swapAmounts, onProgress);
+      completeTxLifecycle(receipt);
+      if (currentAddress) {
+        const txHash = receipt.txHash.toString();
+        const blockNumber = receipt.blockNumber !== undefined ? Number(receipt.blockNumber) : undefined;
+        if (submitted.txHash === txHash) {
+          updateSwapRecord(activeNetwork.id, currentAddress.toString(), txHash, { status: 'confirmed', blockNumber });
+        } else {
+          addSwapRecord(activeNetwork.id, currentAddress.toString(), {
+            ...record,
+            id: txHash,
+            txHash,
+            blockNumber,
+            status: 'confirmed',
+          });
+        }
+      }
       actions.swapSuccess();
     } catch (error) {
-      let errorMessage = 'Swap failed. Please try again.';
-
-      if (error instanceof Error) {
-        if (error.message.includes('Simulation failed')) {
-          errorMessage = error.message;
-        } else if (error.message.includes('User denied') || error.message.includes('rejected')) {
-          errorMessage = 'Transaction was rejected in wallet';
-        } else if (error.message.includes('Insufficient') || error.message.includes('insufficient')) {
-          errorMessage = 'Insufficient GregoCoin balance for swap';
-        } else {
-          errorMessage = error.message;
+      failTxLifecycle();
+      const { code, message, retryable } = classifyError(error, 'swap');
+      if (currentAddress && submitted.txHash) {
+        // Only a dropped or reverted tx has settled; anything else may still be mined, so the swap stays pending
+        // and is settled from the node's receipts as blocks come in
+        if (code === 'TX_DROPPED' || code === 'TX_REVERTED') {
+          updateSwapRecord(activeNetwork.id, currentAddress.toString(), submitted.txHash, {
+            status: 'failed',
+            error: message,
+          });
         }
+      } else if (currentAddress) {
+        addSwapRecord(activeNetwork.id, currentAddress.toString(), {
+          ...record,
+          id: `failed_${record.createdAt}`,
+          txHash: null,
+          status: 'failed',
+          error: message,
+        });
       }
-
-      actions.swapError(errorMessage);
+      actions.swapError(message, retryable);
     }
-  }, [isLoadingContracts, state.fromAmount, state.toAmount, swap, unsponsoredSwap, bypassSponsorship, actions]);
+  }, [
+    isLoadingContracts,
+    state.direction,
+    state.fromAmount,
+    state.toAmount,
+    swapAmounts,
+    route,
+    swapSettings.slippageBps,
+    tokenDecimals,
+    swap,
+    unsponsoredSwap,
+    simulateSwap,
+    simulateUnsponsoredSwap,
+    routeSwap,
+    simulateRouteSwap,
+    bypassSponsorship,
+    currentAddress,
+    activeNetwork.id,
+    startTxLifecycle,
+    updateTxLifecycle,
+    completeTxLifecycle,
+    failTxLifecycle,
+    actions,
+  ]);
+
+  // Settle swaps left pending, such as ones still not mined when the swap stopped waiting for them
+  useEffect(() => {
+    if (!node || !currentAddress) return;
+    reconcileSwapHistory(node, activeNetwork.id, currentAddress.toString());
+  }, [node, currentAddress, activeNetwork.id, blockNumber]);
+
+  // Rate along the chosen route, or the best rate any route offers before an amount is entered
+  const directionalRate = useMemo(() => {
+    const reserves = state.reserves;
+    if (!reserves) return null;
+    if (route) return getRouteSpotRate(route.hops, reserves);
+    const rates = routes.map(r => getRouteSpotRate(r, reserves)).filter((rate): rate is number => rate !== null);
+    return rates.length > 0 ? Math.max(...rates) : null;
+  }, [state.reserves, route, routes]);
+
+  const swapDetails = useMemo(
+    () => (route && state.reserves ? getRouteDetails(route, state.reserves) : null),
+    [route, state.reserves],
+  );
 
-  // Pre-populate exchange rate from onboarding result
+  // Pre-populate pool reserves from onboarding result, which queries the default pool
   useEffect(() => {
     if (onboardingResult && !hasUsedOnboardingResultRef.current) {
-      actions.setRate(onboardingResult.exchangeRate);
+      const defaultPool = activeNetwork.pools[0];
+      if (defaultPool && routePools.includes(defaultPool.key)) {
+        actions.setReserves({ [defaultPool.key]: onboardingResult.reserves });
+      }
       hasUsedOnboardingResultRef.current = true;
     }
-  }, [onboardingResult, actions]);
+  }, [onboardingResult, routePools, activeNetwork, actions]);
 
   // Execute swap when onboarding completes with pending swap
   useEffect(() => {
@@ -129,27 +525,34 @@ export function SwapProvider({ children }: SwapProviderProps) {
     }
   }, [isSwapPending, isSwapping, clearSwapPending]);
 
-  // Recalculate amounts when exchange rate becomes available
+  // Re-quote the amount the user didn't enter whenever the pool reserves change
   useEffect(() => {
-    const wasUnavailable = prevExchangeRateRef.current === null;
-    const isNowAvailable = state.exchangeRate !== null;
-
-    if (wasUnavailable && isNowAvailable) {
-      if (state.fromAmount !== '' && state.toAmount === '') {
-        const numValue = parseFloat(state.fromAmount);
-        if (!isNaN(numValue)) {
-          actions.setToAmount((numValue * state.exchangeRate).toFixed(6));
-        }
-      } else if (state.toAmount !== '' && state.fromAmount === '') {
-        const numValue = parseFloat(state.toAmount);
-        if (!isNaN(numValue)) {
-          actions.setFromAmount((numValue / state.exchangeRate).toFixed(6));
-        }
-      }
+    if (!state.reserves) return;
+
+    if (state.mode === 'exactIn' && state.fromAmount !== '') {
+      const quote = quoteCounterpart(
+        routes,
+        state.reserves,
+        state.direction,
+        'exactIn',
+        state.fromAmount,
+        tokenDecimals,
+        isRouteUsable,
+      );
+      if (quote !== null) actions.setToAmount(quote);
+    } else if (state.mode === 'exactOut' && state.toAmount !== '') {
+      const quote = quoteCounterpart(
+        routes,
+        state.reserves,
+        state.direction,
+        'exactOut',
+        state.toAmount,
+        tokenDecimals,
+        isRouteUsable,
+      );
+      if (quote !== null) actions.setFromAmount(quote);
     }
-
-    prevExchangeRateRef.current = state.exchangeRate;
-  }, [state.exchangeRate, state.fromAmount, state.toAmount, actions]);
+  }, [state.reserves, isRouteUsable]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Reset exchange rate when contracts are loading
   useEffect(() => {
@@ -159,14 +562,14 @@ export function SwapProvider({ children }: SwapProviderProps) {
     }
   }, [isLoadingContracts, actions]);
 
-  // Fetch exchange rate with auto-refresh
+  // Fetch the route's reserves on load and again whenever a new block lands
   useEffect(() => {
     async function fetchExchangeRate() {
       const isSwapping = state.phase === 'sending';
       const isBusy = isLoadingContracts || isSwapping || isSwapPending || isDripPending;
       const isOnboardingInProgress = onboardingStatus !== 'completed' && onboardingStatus !== 'idle';
 
-      if (isBusy || isOnboardingInProgress) {
+      if (isBusy || isOnboardingInProgress || routePools.length === 0) {
         actions.setLoadingRate(false);
         return;
       }
@@ -179,8 +582,11 @@ export function SwapProvider({ children }: SwapProviderProps) {
         isFetchingRateRef.current = true;
         actions.setLoadingRate(true);
 
-        const rate = await getExchangeRate();
-        actions.setRate(rate);
+        const reserves = await cachedRead(`reserves:${routePools.join(',')}`, () => getPoolReserves(routePools));
+        // Drop reserves fetched for a pair the user has since moved away from
+        if (routePoolsKeyRef.current === routePools.join(',')) {
+          actions.setReserves(reserves);
+        }
       } finally {
         actions.setLoadingRate(false);
         isFetchingRateRef.current = false;
@@ -189,73 +595,156 @@ export function SwapProvider({ children }: SwapProviderProps) {
 
     fetchExchangeRate();
 
-    const intervalId = setInterval(() => {
-      fetchExchangeRate();
-    }, EXCHANGE_RATE_POLL_INTERVAL_MS);
-
     return () => {
-      clearInterval(intervalId);
       actions.setLoadingRate(false);
       isFetchingRateRef.current = false;
     };
-  }, [isLoadingContracts, state.phase, isDripPending, getExchangeRate, onboardingStatus, isSwapPending, actions]);
+  }, [
+    isLoadingContracts,
+    state.phase,
+    isDripPending,
+    getPoolReserves,
+    cachedRead,
+    blockNumber,
+    routePools,
+    onboardingStatus,
+    isSwapPending,
+    actions,
+  ]);
 
   // Amount change handlers with recalculation
   const setFromAmount = useCallback(
     (value: string) => {
+      actions.setMode('exactIn');
       actions.setFromAmount(value);
 
-      if (value === '' || state.exchangeRate === null) {
+      if (value === '' || state.reserves === null) {
         actions.setToAmount('');
       } else {
-        const numValue = parseFloat(value);
-        if (!isNaN(numValue)) {
-          actions.setToAmount((numValue * state.exchangeRate).toFixed(6));
+        const quote = quoteCounterpart(
+          routes,
+          state.reserves,
+          state.direction,
+          'exactIn',
+          value,
+          tokenDecimals,
+          isRouteUsable,
+        );
+        if (quote !== null) {
+          actions.setToAmount(quote);
         }
       }
     },
-    [state.exchangeRate, actions],
+    [routes, state.reserves, state.direction, tokenDecimals, isRouteUsable, actions],
   );
 
   const setToAmount = useCallback(
     (value: string) => {
+      actions.setMode('exactOut');
       actions.setToAmount(value);
 
-      if (value === '' || state.exchangeRate === null) {
+      if (value === '' || state.reserves === null) {
         actions.setFromAmount('');
       } else {
-        const numValue = parseFloat(value);
-        if (!isNaN(numValue)) {
-          actions.setFromAmount((numValue / state.exchangeRate).toFixed(6));
+        const quote = quoteCounterpart(
+          routes,
+          state.reserves,
+          state.direction,
+          'exactOut',
+          value,
+          tokenDecimals,
+          isRouteUsable,
+        );
+        if (quote !== null) {
+          actions.setFromAmount(quote);
         }
       }
     },
-    [state.exchangeRate, actions],
+    [routes, state.reserves, state.direction, tokenDecimals, isRouteUsable, actions],
   );
 
+  // Flip the swap direction and re-quote the output for the amount now in the "from" box
+  const flipDirection = useCallback(() => {
+    actions.flipDirection();
+
+    if (state.reserves === null || state.toAmount === '') return;
+    const direction = oppositeDirection(state.direction);
+    const quote = quoteCounterpart(
+      findRoutes(activeNetwork.pools, direction),
+      state.reserves,
+      direction,
+      'exactIn',
+      state.toAmount,
+      tokenDecimals,
+      isRouteUsable,
+    );
+    if (quote !== null) {
+      actions.setToAmount(quote);
+    }
+  }, [activeNetwork.pools, state.reserves, state.direction, state.toAmount, tokenDecimals, isRouteUsable, actions]);
+
+  const selectToken = useCallback(
+    (side: 'in' | 'out', token: TokenKey) => {
+      const current = side === 'in' ? tokenIn : tokenOut;
+      const other = side === 'in' ? tokenOut : tokenIn;
+      if (token === current) return;
+      if (token === other) {
+        flipDirection();
+        return;
+      }
+      actions.setDirection(side === 'in' ? { tokenIn: token, tokenOut } : { tokenIn, tokenOut: token });
+    },
+    [tokenIn, tokenOut, flipDirection, actions],
+  );
+
+  const reset = useCallback(() => {
+    actions.reset();
+    resetTxLifecycle();
+  }, [actions, resetTxLifecycle]);
+
   // Computed values
-  const fromAmountUSD = state.fromAmount ? parseFloat(state.fromAmount) * GREGOCOIN_USD_PRICE : 0;
-  const toAmountUSD = state.toAmount ? parseFloat(state.toAmount) * GREGOCOIN_USD_PRICE : 0;
+  const parsedFromAmount = TokenAmount.parse(state.fromAmount, tokenDecimals[tokenIn]);
+  const parsedToAmount = TokenAmount.parse(state.toAmount, tokenDecimals[tokenOut]);
+  const fromAmountUSD = parsedFromAmount ? parsedFromAmount.toNumber() * (TOKEN_USD_PRICES[tokenIn] ?? 0) : 0;
+  const toAmountUSD = parsedToAmount ? parsedToAmount.toNumber() * (TOKEN_USD_PRICES[tokenOut] ?? 0) : 0;
 
   const canSwap =
-    !!state.fromAmount &&
-    parseFloat(state.fromAmount) > 0 &&
+    hasRoute &&
+    !(route === null && routeNotice !== null) &&
+    sponsorshipNotice === null &&
+    parsedFromAmount !== null &&
+    parsedFromAmount.raw > 0n &&
     !isLoadingContracts &&
     (onboardingStatus === 'idle' || onboardingStatus === 'completed');
 
   const value: SwapContextType = {
     ...state,
+    tokens: activeNetwork.tokens,
+    hasRoute,
+    route,
+    isMultiHop,
+    routeNotice,
+    sponsorshipNotice,
+    tokenDecimals,
+    directionalRate,
     fromAmountUSD,
     toAmountUSD,
     canSwap,
     isSwapping,
+    txLifecycle,
+    swapAmounts,
+    swapDetails,
+    swapSettings,
+    updateSwapSettings,
     bypassSponsorship,
     setBypassSponsorship,
     setFromAmount,
     setToAmount,
+    flipDirection,
+    selectToken,
     executeSwap: doSwap,
     dismissError: actions.dismissError,
-    reset: actions.reset,
+    reset,
   };
 
   return <SwapContext.Provider value={value}>{children}</SwapContext.Provider>;
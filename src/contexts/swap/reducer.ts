@@ -4,6 +4,7 @@
  */
 
 import { createReducerHook, type ActionsFrom } from '../utils';
+import { oppositeDirection, type PoolReserves, type SwapDirection, type SwapMode } from '../../types';
 
 // =============================================================================
 // State
@@ -12,21 +13,31 @@ import { createReducerHook, type ActionsFrom } from '../utils';
 export type SwapPhase = 'idle' | 'sending' | 'success' | 'error';
 
 export interface SwapState {
+  /** Selected pair */
+  direction: SwapDirection;
+  /** Which amount the user entered last; the other one is quoted from it */
+  mode: SwapMode;
   fromAmount: string;
   toAmount: string;
-  exchangeRate: number | null;
+  /** Reserves of the pools the pair can be routed through, by pool key */
+  reserves: Record<string, PoolReserves> | null;
   isLoadingRate: boolean;
   phase: SwapPhase;
   error: string | null;
+  /** Whether submitting the same swap again can succeed */
+  errorRetryable: boolean;
 }
 
 export const initialSwapState: SwapState = {
+  direction: { tokenIn: 'gregoCoin', tokenOut: 'gregoCoinPremium' },
+  mode: 'exactIn',
   fromAmount: '',
   toAmount: '',
-  exchangeRate: null,
+  reserves: null,
   isLoadingRate: false,
   phase: 'idle',
   error: null,
+  errorRetryable: false,
 };
 
 // =============================================================================
@@ -36,11 +47,14 @@ export const initialSwapState: SwapState = {
 export const swapActions = {
   setFromAmount: (amount: string) => ({ type: 'swap/SET_FROM_AMOUNT' as const, amount }),
   setToAmount: (amount: string) => ({ type: 'swap/SET_TO_AMOUNT' as const, amount }),
-  setRate: (rate: number) => ({ type: 'swap/SET_RATE' as const, rate }),
+  setMode: (mode: SwapMode) => ({ type: 'swap/SET_MODE' as const, mode }),
+  flipDirection: () => ({ type: 'swap/FLIP_DIRECTION' as const }),
+  setDirection: (direction: SwapDirection) => ({ type: 'swap/SET_DIRECTION' as const, direction }),
+  setReserves: (reserves: Record<string, PoolReserves>) => ({ type: 'swap/SET_RESERVES' as const, reserves }),
   setLoadingRate: (loading: boolean) => ({ type: 'swap/SET_LOADING_RATE' as const, loading }),
   startSwap: () => ({ type: 'swap/START_SWAP' as const }),
   swapSuccess: () => ({ type: 'swap/SWAP_SUCCESS' as const }),
-  swapError: (error: string) => ({ type: 'swap/SWAP_ERROR' as const, error }),
+  swapError: (error: string, retryable = false) => ({ type: 'swap/SWAP_ERROR' as const, error, retryable }),
   dismissError: () => ({ type: 'swap/DISMISS_ERROR' as const }),
   reset: () => ({ type: 'swap/RESET' as const }),
 };
@@ -59,26 +73,50 @@ export function swapReducer(state: SwapState, action: SwapAction): SwapState {
     case 'swap/SET_TO_AMOUNT':
       return { ...state, toAmount: action.amount };
 
-    case 'swap/SET_RATE':
-      return { ...state, exchangeRate: action.rate, isLoadingRate: false };
+    case 'swap/SET_MODE':
+      return { ...state, mode: action.mode };
+
+    case 'swap/FLIP_DIRECTION':
+      // The amounts follow their tokens to the opposite side; the output is re-quoted from the new input
+      return {
+        ...state,
+        direction: oppositeDirection(state.direction),
+        mode: 'exactIn',
+        fromAmount: state.toAmount,
+        toAmount: state.fromAmount,
+      };
+
+    case 'swap/SET_DIRECTION':
+      // A different pair routes through different pools, so the amounts and reserves no longer apply
+      return {
+        ...state,
+        direction: action.direction,
+        mode: 'exactIn',
+        fromAmount: '',
+        toAmount: '',
+        reserves: null,
+      };
+
+    case 'swap/SET_RESERVES':
+      return { ...state, reserves: action.reserves, isLoadingRate: false };
 
     case 'swap/SET_LOADING_RATE':
       return { ...state, isLoadingRate: action.loading };
 
     case 'swap/START_SWAP':
-      return { ...state, phase: 'sending', error: null };
+      return { ...state, phase: 'sending', error: null, errorRetryable: false };
 
     case 'swap/SWAP_SUCCESS':
       return { ...state, phase: 'success', fromAmount: '', toAmount: '' };
 
     case 'swap/SWAP_ERROR':
-      return { ...state, phase: 'error', error: action.error };
+      return { ...state, phase: 'error', error: action.error, errorRetryable: action.retryable };
 
     case 'swap/DISMISS_ERROR':
-      return { ...state, phase: 'idle', error: null };
+      return { ...state, phase: 'idle', error: null, errorRetryable: false };
 
     case 'swap/RESET':
-      return { ...initialSwapState, exchangeRate: state.exchangeRate };
+      return { ...initialSwapState, direction: state.direction, reserves: state.reserves };
 
     default:
       return state;
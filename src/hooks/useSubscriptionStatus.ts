@@ -1,18 +1,25 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import type { SubscriptionStatus } from '../services/contractService';
-import { querySubscriptionStatus } from '../services/contractService';
+import type { SwapDirection, SwapMode } from '../types';
 import { useWallet } from '../contexts/wallet';
 import { useContracts } from '../contexts/contracts';
 import { useNetwork } from '../contexts/network';
 import { useOnboarding } from '../contexts/onboarding';
+import { useBlocks } from '../contexts/blocks';
 
-export function useSubscriptionStatus(swapPhase: string, dripPhase: string): SubscriptionStatus {
+/**
+ * Tracks the FPC subscription covering swaps in the given direction and mode, refreshed on every new block
+ */
+export function useSubscriptionStatus(direction: SwapDirection, swapMode: SwapMode): SubscriptionStatus {
   const { currentAddress } = useWallet();
-  const { getAmm, getFpc } = useContracts();
+  const { getAmm, querySubscriptionStatus } = useContracts();
   const { activeNetwork } = useNetwork();
   const { status: onboardingStatus } = useOnboarding();
+  const { blockNumber, cachedRead } = useBlocks();
   const [status, setStatus] = useState<SubscriptionStatus>({ kind: 'no_fpc' });
-  const isFetchingRef = useRef(false);
+  // The pool and mode the status should describe, and the fetch in flight, by read key
+  const latestKeyRef = useRef<string | null>(null);
+  const fetchingKeyRef = useRef<string | null>(null);
 
   const isOnboarded = onboardingStatus === 'completed';
 
@@ -24,24 +31,26 @@ export function useSubscriptionStatus(swapPhase: string, dripPhase: string): Sub
   }, [isOnboarded, currentAddress, activeNetwork]);
 
   const fetchStatus = useCallback(async () => {
-    const amm = getAmm();
-    const fpc = getFpc();
+    const amm = getAmm(direction);
     if (!currentAddress || !amm || !isOnboarded) return;
     if (!activeNetwork.subscriptionFPC) {
       setStatus({ kind: 'no_fpc' });
       return;
     }
-    if (isFetchingRef.current) return;
-    isFetchingRef.current = true;
+    const key = `subscription:${currentAddress.toString()}:${amm.address.toString()}:${swapMode}`;
+    latestKeyRef.current = key;
+    if (fetchingKeyRef.current === key) return;
+    fetchingKeyRef.current = key;
     try {
-      const result = await querySubscriptionStatus(activeNetwork, amm, currentAddress, fpc);
-      setStatus(result);
+      const result = await cachedRead(key, () => querySubscriptionStatus(direction, swapMode));
+      // Drop the status of a pool or mode the user has since moved away from
+      if (latestKeyRef.current === key) setStatus(result);
     } catch {
       // Leave previous status on transient error to avoid flicker
     } finally {
-      isFetchingRef.current = false;
+      if (fetchingKeyRef.current === key) fetchingKeyRef.current = null;
     }
-  }, [currentAddress, activeNetwork, getAmm, getFpc, isOnboarded]);
+  }, [currentAddress, activeNetwork, getAmm, querySubscriptionStatus, cachedRead, isOnboarded, direction, swapMode]);
 
   // Fetch after onboarding completes
   useEffect(() => {
@@ -51,19 +60,19 @@ export function useSubscriptionStatus(swapPhase: string, dripPhase: string): Sub
     }
   }, [onboardingStatus]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Fetch after swap succeeds
+  // Usage changes with the user's own sponsored txs, which show up once their block lands
   useEffect(() => {
-    if (swapPhase === 'success') {
+    if (isOnboarded) {
       fetchStatus();
     }
-  }, [swapPhase]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [blockNumber]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Fetch after drip succeeds
+  // Only exact-out swaps are sponsored, under a separate FPC config per pool
   useEffect(() => {
-    if (dripPhase === 'success') {
+    if (isOnboarded) {
       fetchStatus();
     }
-  }, [dripPhase]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [swapMode, direction.tokenIn, direction.tokenOut]); // eslint-disable-line react-hooks/exhaustive-deps
 
   return status;
 }
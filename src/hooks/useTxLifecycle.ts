@@ -0,0 +1,77 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { TxReceipt } from '@aztec/stdlib/tx';
+import {
+  getReceiptStage,
+  getReceiptUpdate,
+  watchEmbeddedWalletProgress,
+  watchFinalization,
+  type TxLifecycle,
+  type TxLifecycleUpdate,
+} from '../services/txLifecycleService';
+import { useWallet } from '../contexts/wallet';
+
+export interface TxLifecycleTracker {
+  /** Lifecycle of the current or last transaction, null when there is nothing to show */
+  lifecycle: TxLifecycle | null;
+  /** Listener to hand to executors that report their own progress */
+  update: (update: TxLifecycleUpdate) => void;
+  start: () => void;
+  /** Records the receipt of a mined tx and keeps following it until its block is finalized */
+  complete: (receipt: TxReceipt) => void;
+  fail: () => void;
+  reset: () => void;
+}
+
+/**
+ * Tracks one transaction at a time through simulation, proving, submission, mining and finalization
+ */
+export function useTxLifecycle(): TxLifecycleTracker {
+  const { node } = useWallet();
+  const [lifecycle, setLifecycle] = useState<TxLifecycle | null>(null);
+  const stopWatchingRef = useRef<(() => void) | null>(null);
+
+  const stopWatching = useCallback(() => {
+    stopWatchingRef.current?.();
+    stopWatchingRef.current = null;
+  }, []);
+
+  const update = useCallback((next: TxLifecycleUpdate) => {
+    setLifecycle(prev => ({
+      stage: next.stage,
+      txHash: next.txHash ?? prev?.txHash ?? null,
+      blockNumber: next.blockNumber ?? prev?.blockNumber ?? null,
+    }));
+  }, []);
+
+  const start = useCallback(() => {
+    stopWatching();
+    setLifecycle({ stage: 'simulating', txHash: null, blockNumber: null });
+    stopWatchingRef.current = watchEmbeddedWalletProgress(update);
+  }, [stopWatching, update]);
+
+  const complete = useCallback(
+    (receipt: TxReceipt) => {
+      stopWatching();
+      update(getReceiptUpdate(receipt));
+      if (node && getReceiptStage(receipt) === 'mined') {
+        stopWatchingRef.current = watchFinalization(node, receipt.txHash, update);
+      }
+    },
+    [node, stopWatching, update],
+  );
+
+  // Keep a dropped tx visible so the user knows why it failed; anything else is covered by the error message
+  const fail = useCallback(() => {
+    stopWatching();
+    setLifecycle(prev => (prev?.stage === 'dropped' ? prev : null));
+  }, [stopWatching]);
+
+  const reset = useCallback(() => {
+    stopWatching();
+    setLifecycle(null);
+  }, [stopWatching]);
+
+  useEffect(() => stopWatching, [stopWatching]);
+
+  return { lifecycle, update, start, complete, fail, reset };
+}
@@ -0,0 +1,102 @@
+/**
+ * Block Refresh Service
+ * Watches the node's block number so on-chain reads refresh when a new block lands rather than on a timer,
+ * and caches those reads per block so components asking for the same data share one simulation
+ */
+
+import type { AztecNode } from '@aztec/aztec.js/node';
+
+/** How often the node is asked for its block number. Much cheaper than the reads it gates */
+export const BLOCK_POLL_INTERVAL_MS = 4000;
+
+/**
+ * Polls the node's block number and calls onBlock whenever it changes. Polling pauses while the tab is
+ * hidden and resumes with an immediate poll when it becomes visible again.
+ * Returns a function that stops watching.
+ */
+export function watchBlockNumber(node: AztecNode, onBlock: (blockNumber: number) => void): () => void {
+  let stopped = false;
+  let isPolling = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastBlockNumber: number | null = null;
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  async function poll() {
+    if (stopped || isPolling || document.hidden) return;
+    isPolling = true;
+    clearTimer();
+
+    try {
+      const blockNumber = Number(await node.getBlockNumber());
+      if (!stopped && blockNumber !== lastBlockNumber) {
+        lastBlockNumber = blockNumber;
+        onBlock(blockNumber);
+      }
+    } catch {
+      // Transient node errors: try again on the next tick
+    } finally {
+      isPolling = false;
+    }
+
+    if (!stopped && !document.hidden) {
+      timer = setTimeout(poll, BLOCK_POLL_INTERVAL_MS);
+    }
+  }
+
+  const handleVisibilityChange = () => {
+    if (document.hidden) {
+      clearTimer();
+    } else {
+      poll();
+    }
+  };
+
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  poll();
+
+  return () => {
+    stopped = true;
+    clearTimer();
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+}
+
+export interface BlockCache {
+  /**
+   * Returns the read cached under this key for the given block, starting it if there is none.
+   * Reads still in flight are shared too; failed reads are dropped so the next caller retries.
+   */
+  read: <T>(key: string, blockNumber: number | null, fetch: () => Promise<T>) => Promise<T>;
+  clear: () => void;
+}
+
+/**
+ * Creates a cache holding the latest read per key, valid until the block number moves on
+ */
+export function createBlockCache(): BlockCache {
+  const entries = new Map<string, { blockNumber: number | null; value: Promise<unknown> }>();
+
+  return {
+    read<T>(key: string, blockNumber: number | null, fetch: () => Promise<T>): Promise<T> {
+      const cached = entries.get(key);
+      if (cached && cached.blockNumber === blockNumber) {
+        return cached.value as Promise<T>;
+      }
+
+      const value = fetch();
+      const entry = { blockNumber, value };
+      entries.set(key, entry);
+      value.catch(() => {
+        if (entries.get(key) === entry) entries.delete(key);
+      });
+      return value;
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Bulk Send Service
+ * Parses bulk-send CSVs, splits their transfers into batches sent one tx each, and builds the CSV of
+ * claim links handed back to the sender
+ */
+
+import { AztecAddress } from '@aztec/aztec.js/addresses';
+import type { TokenConfig } from '../config/networks';
+import type { ImportedToken } from './importedTokenService';
+import { TokenAmount, parseTokenAmount } from '../utils/tokenAmount';
+import { toCsv } from '../utils/csv';
+
+/**
+ * Transfers sent per tx. Each is a private call creating a note for the recipient and one for the sender's
+ * change, so larger batches quickly make proving slow and run into the per-tx note limits.
+ */
+export const BULK_SEND_BATCH_SIZE = 4;
+
+export interface BulkSendRow {
+  /** Line of the CSV the transfer was read from, counting from 1 */
+  line: number;
+  recipient: AztecAddress;
+  /** Amount in token base units */
+  amount: bigint;
+  token: TokenConfig | ImportedToken;
+}
+
+export interface BulkSendParseResult {
+  rows: BulkSendRow[];
+  /** One message per line that couldn't be read; nothing should be sent while there are any */
+  errors: string[];
+}
+
+export type BulkSendStatus =
+  | 'sent' // the transfer's tx was mined and its link generated
+  | 'pending' // the tx was submitted but not seen mined; its link works once it is, and sent history tracks it
+  | 'failed' // the batch it was in failed
+  | 'not_sent'; // an earlier batch failed, so this one wasn't attempted
+
+export interface BulkSendResult {
+  row: BulkSendRow;
+  status: BulkSendStatus;
+  txHash?: string;
+  link?: string;
+  error?: string;
+}
+
+function splitCsvLine(line: string): string[] {
+  return line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+}
+
+function findToken(tokens: (TokenConfig | ImportedToken)[], value: string): TokenConfig | ImportedToken | null {
+  const needle = value.toLowerCase();
+  return (
+    tokens.find(
+      t => t.key.toLowerCase() === needle || t.symbol.toLowerCase() === needle || t.address.toLowerCase() === needle,
+    ) ?? null
+  );
+}
+
+/**
+ * Reads `address,amount,token` lines. The header line is optional, as are blank and `#` comment lines.
+ * Amounts are decimal, as typed in the send form, and the token is given by symbol, key or address among
+ * the active network's tokens and the imported ones.
+ */
+export function parseBulkSendCsv(
+  text: string,
+  tokens: (TokenConfig | ImportedToken)[],
+  senderAddress: AztecAddress,
+): BulkSendParseResult {
+  const rows: BulkSendRow[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = i + 1;
+    if (!rawLine.trim() || rawLine.trim().startsWith('#')) return;
+
+    const cells = splitCsvLine(rawLine);
+    if (rows.length === 0 && errors.length === 0 && cells[0].toLowerCase() === 'address') return;
+    if (cells.length !== 3) {
+      errors.push(`Line ${line}: expected address, amount and token`);
+      return;
+    }
+
+    const [address, amountText, tokenText] = cells;
+    let recipient: AztecAddress;
+    try {
+      recipient = AztecAddress.fromString(address);
+    } catch {
+      errors.push(`Line ${line}: "${address}" is not an Aztec address`);
+      return;
+    }
+    // The sender's own change notes are told apart from the transfers' notes by recipient
+    if (recipient.equals(senderAddress)) {
+      errors.push(`Line ${line}: can't send to yourself`);
+      return;
+    }
+
+    const token = findToken(tokens, tokenText);
+    if (!token) {
+      errors.push(`Line ${line}: unknown token "${tokenText}". Import it first`);
+      return;
+    }
+
+    const amount = parseTokenAmount(amountText, token.decimals);
+    if (amount === null || amount <= 0n) {
+      errors.push(`Line ${line}: "${amountText}" is not a valid ${token.symbol} amount`);
+      return;
+    }
+
+    rows.push({ line, recipient, amount, token });
+  });
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push('The file has no transfers');
+  }
+  return { rows, errors };
+}
+
+/**
+ * Splits the transfers into as few batches as fit, in file order
+ */
+export function batchBulkSend(rows: BulkSendRow[]): BulkSendRow[][] {
+  const batches: BulkSendRow[][] = [];
+  for (let i = 0; i < rows.length; i += BULK_SEND_BATCH_SIZE) {
+    batches.push(rows.slice(i, i + BULK_SEND_BATCH_SIZE));
+  }
+  return batches;
+}
+
+/**
+ * Builds the results file: the input columns followed by each transfer's outcome and claim link
+ */
+export function buildBulkSendResultsCsv(results: BulkSendResult[]): string {
+  return toCsv(
+    ['address', 'amount', 'token', 'status', 'tx_hash', 'claim_link', 'error'],
+    results.map(({ row, status, txHash, link, error }) => [
+      row.recipient.toString(),
+      new TokenAmount(row.amount, row.token.decimals).format(),
+      row.token.symbol,
+      status,
+      txHash ?? '',
+      link ?? '',
+      error ?? '',
+    ]),
+  );
+}
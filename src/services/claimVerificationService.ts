@@ -0,0 +1,151 @@
+/**
+ * Claim Verification Service
+ * Checks a claim link against the node, the active network and the connected account before anything is
+ * claimed. Links are untrusted input: every check reports what it found so the claimer can see why a claim
+ * is allowed or blocked.
+ */
+
+import type { AztecNode } from '@aztec/aztec.js/node';
+import { AztecAddress } from '@aztec/aztec.js/addresses';
+import { TxHash } from '@aztec/stdlib/tx';
+import type { NetworkConfig, TokenMetadata } from '../config/networks';
+import { getReceiptStage } from './txLifecycleService';
+import { findClaimedLink } from './claimedLinkService';
+import type { TransferLink } from './offchainLinkService';
+import { parseStoredAmount } from '../utils/tokenAmount';
+
+export type ClaimCheckId = 'network' | 'token' | 'transaction' | 'recipient' | 'unclaimed';
+
+export type ClaimCheckStatus =
+  | 'checking' // result not in yet
+  | 'passed'
+  | 'warning' // couldn't be confirmed, but doesn't stop the claim
+  | 'failed'; // the claim can't succeed or isn't safe, so it is blocked
+
+export interface ClaimCheck {
+  id: ClaimCheckId;
+  status: ClaimCheckStatus;
+  label: string;
+  detail: string;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 8)}...${address.slice(-4)}`;
+}
+
+function sameAddress(a: string, b: AztecAddress): boolean {
+  try {
+    return AztecAddress.fromString(a).equals(b);
+  } catch {
+    return false;
+  }
+}
+
+export function checkNetwork(link: TransferLink, network: NetworkConfig): ClaimCheck {
+  const label = 'Network';
+  if (!link.networkId) {
+    return { id: 'network', status: 'warning', label, detail: `Older link without a network, assumed ${network.id}` };
+  }
+  if (link.networkId !== network.id) {
+    return { id: 'network', status: 'failed', label, detail: `Sent on ${link.networkId}, not ${network.id}` };
+  }
+  return { id: 'network', status: 'passed', label, detail: `Sent on ${network.id}` };
+}
+
+/**
+ * Passes when the link's token is one the network lists or the user imported.
+ * `token` is the link's token among those, null if it is none of them.
+ */
+export function checkToken(link: TransferLink, token: TokenMetadata | null): ClaimCheck {
+  const label = 'Token';
+  if (!token) {
+    const where = link.contractAddress ? ` at ${shortAddress(link.contractAddress)}` : '';
+    return { id: 'token', status: 'failed', label, detail: `Unknown token${where}. Import it to claim` };
+  }
+  return { id: 'token', status: 'passed', label, detail: `${token.name} (${token.symbol})` };
+}
+
+export function checkRecipient(link: TransferLink, account: AztecAddress | null): ClaimCheck {
+  const label = 'Recipient';
+  if (link.bearerSecret) {
+    return { id: 'recipient', status: 'passed', label, detail: 'Anyone holding this link can claim it' };
+  }
+  if (!account) {
+    return { id: 'recipient', status: 'checking', label, detail: 'Waiting for your account' };
+  }
+  if (!sameAddress(link.recipient, account)) {
+    return { id: 'recipient', status: 'failed', label, detail: `Sent to ${shortAddress(link.recipient)}, not you` };
+  }
+  return { id: 'recipient', status: 'passed', label, detail: 'Sent to your account' };
+}
+
+const UNCLAIMED_LABEL = 'Not yet claimed';
+
+/**
+ * Fast check against the claims recorded in this browser. Bearer links can also have been claimed from another
+ * device, so for those a claim missing here still leaves the check to checkBearerFunds.
+ */
+export function checkUnclaimed(link: TransferLink, networkId: string): ClaimCheck {
+  const label = UNCLAIMED_LABEL;
+  const claimed = findClaimedLink(networkId, link.txHash, link.recipient);
+  if (claimed) {
+    const date = new Date(claimed.claimedAt).toLocaleString();
+    return { id: 'unclaimed', status: 'failed', label, detail: `Already claimed in this browser on ${date}` };
+  }
+  if (link.bearerSecret) {
+    return { id: 'unclaimed', status: 'checking', label, detail: "Looking up the link's funds..." };
+  }
+  return { id: 'unclaimed', status: 'passed', label, detail: 'No claim recorded in this browser' };
+}
+
+/**
+ * Checks on-chain that a bearer link's account still holds the link's transfer. Claiming spends it, so a link
+ * claimed anywhere fails here instead of in proving. `readBalance` reads the account's balance of the token.
+ */
+export async function checkBearerFunds(link: TransferLink, readBalance: () => Promise<bigint>): Promise<ClaimCheck> {
+  const label = UNCLAIMED_LABEL;
+  try {
+    const balance = await readBalance();
+    return balance >= parseStoredAmount(link.amount)
+      ? { id: 'unclaimed', status: 'passed', label, detail: "The link's funds are still waiting to be claimed" }
+      : { id: 'unclaimed', status: 'failed', label, detail: 'Already claimed: the funds have been taken' };
+  } catch {
+    return { id: 'unclaimed', status: 'warning', label, detail: "Couldn't look up whether it was claimed" };
+  }
+}
+
+export const PENDING_TRANSACTION_CHECK: ClaimCheck = {
+  id: 'transaction',
+  status: 'checking',
+  label: 'Transfer',
+  detail: 'Looking up the transaction...',
+};
+
+/**
+ * Looks the link's transfer tx up on the node: it must exist and have been mined successfully. A tx still in
+ * the mempool stays checking, which holds the claim back until a later look-up finds it mined
+ */
+export async function checkTransaction(node: AztecNode, link: TransferLink): Promise<ClaimCheck> {
+  const label = PENDING_TRANSACTION_CHECK.label;
+  try {
+    const receipt = await node.getTxReceipt(TxHash.fromString(link.txHash));
+    const block = receipt.blockNumber !== undefined ? ` in block ${receipt.blockNumber}` : '';
+    switch (getReceiptStage(receipt)) {
+      case 'dropped':
+        return { id: 'transaction', status: 'failed', label, detail: 'Not found on the node' };
+      case 'pending':
+        return { id: 'transaction', status: 'checking', label, detail: 'Waiting for it to be mined...' };
+      default:
+        return receipt.hasExecutionSucceeded()
+          ? { id: 'transaction', status: 'passed', label, detail: `Mined${block}` }
+          : { id: 'transaction', status: 'failed', label, detail: `Reverted${block}` };
+    }
+  } catch {
+    return { id: 'transaction', status: 'warning', label, detail: "Couldn't reach the node to look it up" };
+  }
+}
+
+/** Claims go ahead once every check is in and none failed */
+export function canClaim(checks: ClaimCheck[]): boolean {
+  return checks.every(check => check.status === 'passed' || check.status === 'warning');
+}
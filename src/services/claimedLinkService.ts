@@ -0,0 +1,38 @@
+/**
+ * Claimed Link Service
+ * localStorage record of the claim links this browser has claimed, per network
+ */
+
+export interface ClaimedLink {
+  /** Hash of the transfer tx the link was generated from */
+  txHash: string;
+  /** Account the transfer was sent to; the throwaway account for bearer links */
+  recipient: string;
+  claimedBy: string;
+  claimedAt: number;
+}
+
+function storageKey(networkId: string): string {
+  return `gregoswap_claimed_links_${networkId}`;
+}
+
+export function getClaimedLinks(networkId: string): ClaimedLink[] {
+  try {
+    const raw = localStorage.getItem(storageKey(networkId));
+    if (!raw) return [];
+    return JSON.parse(raw) as ClaimedLink[];
+  } catch {
+    return [];
+  }
+}
+
+/** A link is identified by its transfer tx and recipient; one tx can carry transfers to several links */
+export function findClaimedLink(networkId: string, txHash: string, recipient: string): ClaimedLink | null {
+  return getClaimedLinks(networkId).find(c => c.txHash === txHash && c.recipient === recipient) ?? null;
+}
+
+export function addClaimedLink(networkId: string, claim: ClaimedLink): void {
+  const existing = getClaimedLinks(networkId).filter(c => c.txHash !== claim.txHash || c.recipient !== claim.recipient);
+  existing.unshift(claim);
+  localStorage.setItem(storageKey(networkId), JSON.stringify(existing));
+}
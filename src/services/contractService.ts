@@ -6,33 +6,74 @@
 import type { BatchedMethod, Wallet, TxSimulationResultWithAppOffset } from '@aztec/aztec.js/wallet';
 import type { AztecNode } from '@aztec/aztec.js/node';
 import { AztecAddress } from '@aztec/aztec.js/addresses';
+import { NO_FROM } from '@aztec/aztec.js/account';
 import { AztecAddress as AztecAddressClass } from '@aztec/aztec.js/addresses';
 import { Fr } from '@aztec/aztec.js/fields';
 import { FunctionSelector } from '@aztec/aztec.js/abi';
-import { BatchCall, getContractInstanceFromInstantiationParams, type OffchainMessage } from '@aztec/aztec.js/contracts';
+import { readFieldCompressedString } from '@aztec/aztec.js/utils';
+import {
+  BatchCall,
+  NO_WAIT,
+  getContractInstanceFromInstantiationParams,
+  type OffchainMessage,
+} from '@aztec/aztec.js/contracts';
 import { poseidon2Hash } from '@aztec/foundation/crypto/poseidon';
 import { type FunctionCall, decodeFromAbi } from '@aztec/stdlib/abi';
+import { Gas } from '@aztec/stdlib/gas';
 import { ExecutionPayload } from '@aztec/stdlib/tx';
 import { UtilityExecutionResult } from '@aztec/stdlib/tx';
-import type { TxReceipt } from '@aztec/stdlib/tx';
+import type { TxHash, TxReceipt } from '@aztec/stdlib/tx';
 import type { TokenContract } from '../../contracts/target/Token';
 import type { AMMContract } from '../../contracts/target/AMM';
 import type { ProofOfPasswordContract } from '../../contracts/target/ProofOfPassword';
-import { SubscriptionFPC } from '@gregojuice/contracts/subscription-fpc';
-import { BigDecimal } from '../utils/bigDecimal';
-import type { NetworkConfig } from '../config/networks';
+import { SubscriptionFPC, buildExtraHashedArgs, buildNoirFunctionCall } from '@gregojuice/contracts/subscription-fpc';
+import { FPC_TEARDOWN_DA_GAS, FPC_TEARDOWN_L2_GAS } from '@gregojuice/contracts/fpc-gas-constants';
+import { findPoolForPair, type NetworkConfig, type PoolConfig, type TokenMetadata } from '../config/networks';
 import type { OnboardingResult } from '../contexts/onboarding/reducer';
+import { waitForMined, type TxLifecycleListener } from './txLifecycleService';
+import type { QuotedRoute } from './routeService';
+import type { ReadCoordinator, ReadQuery } from './readCoordinatorService';
+import type {
+  AddLiquidityAmounts,
+  Balances,
+  PoolReserves,
+  RemoveLiquidityAmounts,
+  SwapAmounts,
+  SwapDirection,
+  SwapMode,
+  TokenKey,
+} from '../types';
 
 /**
- * Contracts returned after swap registration
+ * An AMM pool's contracts and the config they were registered from
  */
-export interface SwapContracts {
-  gregoCoin: TokenContract;
-  gregoCoinPremium: TokenContract;
+export interface PoolContracts {
+  config: PoolConfig;
   amm: AMMContract;
+  liquidityToken: TokenContract;
+}
+
+/**
+ * Contracts returned after swap registration: every configured token and pool
+ */
+export interface SwapContracts {
+  tokens: Record<TokenKey, TokenContract>;
+  /** Pools keyed by their config key, in config order */
+  pools: Record<string, PoolContracts>;
   fpc: SubscriptionFPC | null;
 }
 
+/**
+ * Pool state used to price liquidity deposits, plus the user's share of it
+ */
+export interface LiquidityPosition {
+  reserves: PoolReserves;
+  /** Total LQT supply, including the amount locked when the pool was initialized */
+  totalSupply: bigint;
+  /** The user's private LQT balance */
+  liquidityBalance: bigint;
+}
+
 /**
  * Contracts returned after drip registration
  */
@@ -42,7 +83,65 @@ export interface DripContracts {
 }
 
 /**
- * Registers contracts needed for the swap flow
+ * A contract to register, with the params its instance can be reconstructed from
+ */
+interface RegistryEntry {
+  address: AztecAddress;
+  kind: 'token' | 'amm';
+  salt: Fr;
+  deployer: AztecAddress;
+  constructorArgs: unknown[];
+}
+
+/**
+ * Lists every token, AMM and LP token in the network config. Each address is listed once.
+ */
+function getRegistryEntries(network: NetworkConfig): RegistryEntry[] {
+  const tokenAddresses = Object.fromEntries(network.tokens.map(t => [t.key, AztecAddressClass.fromString(t.address)]));
+
+  const entries: RegistryEntry[] = network.tokens.map(token => {
+    const deployer = AztecAddressClass.fromString(token.deployer);
+    return {
+      address: tokenAddresses[token.key],
+      kind: 'token',
+      salt: Fr.fromString(token.salt),
+      deployer,
+      constructorArgs: [deployer, token.name, token.symbol, token.decimals],
+    };
+  });
+
+  for (const pool of network.pools) {
+    const salt = Fr.fromString(pool.salt);
+    const deployer = AztecAddressClass.fromString(pool.deployer);
+    const { liquidityToken } = pool;
+    const liquidityTokenAddress = AztecAddressClass.fromString(liquidityToken.address);
+    if (!tokenAddresses[pool.token0] || !tokenAddresses[pool.token1]) {
+      throw new Error(`Pool ${pool.key} trades a token that is not configured on ${network.id}`);
+    }
+
+    entries.push(
+      {
+        address: liquidityTokenAddress,
+        kind: 'token',
+        salt,
+        deployer,
+        constructorArgs: [deployer, liquidityToken.name, liquidityToken.symbol, liquidityToken.decimals],
+      },
+      {
+        address: AztecAddressClass.fromString(pool.address),
+        kind: 'amm',
+        salt,
+        deployer,
+        constructorArgs: [tokenAddresses[pool.token0], tokenAddresses[pool.token1], liquidityTokenAddress],
+      },
+    );
+  }
+
+  return entries.filter((entry, i) => entries.findIndex(e => e.address.equals(entry.address)) === i);
+}
+
+/**
+ * Registers contracts needed for the swap flow: every token and pool in the network config
  * Returns the contract instances after registration
  * Skips registration for contracts that are already registered
  */
@@ -51,75 +150,52 @@ export async function registerSwapContracts(
   node: AztecNode,
   network: NetworkConfig,
 ): Promise<SwapContracts> {
-  const gregoCoinAddress = AztecAddressClass.fromString(network.contracts.gregoCoin);
-  const gregoCoinPremiumAddress = AztecAddressClass.fromString(network.contracts.gregoCoinPremium);
-  const liquidityTokenAddress = AztecAddressClass.fromString(network.contracts.liquidityToken);
-  const ammAddress = AztecAddressClass.fromString(network.contracts.amm);
-  const deployerAddress = AztecAddressClass.fromString(network.deployer.address);
-  const contractSalt = Fr.fromString(network.contracts.salt);
+  const entries = getRegistryEntries(network);
 
   // Import contract artifacts
   const { TokenContract, TokenContractArtifact } = await import('../../contracts/target/Token');
   const { AMMContract, AMMContractArtifact } = await import('../../contracts/target/AMM');
+  const artifacts = { token: TokenContractArtifact, amm: AMMContractArtifact };
 
   // Determine subscription FPC for sponsored swaps
   const subFPC = network.subscriptionFPC;
   const fpcAddress = subFPC ? AztecAddressClass.fromString(subFPC.address) : undefined;
 
   // Check which contracts are already registered
-  const metadataChecks: { name: 'getContractMetadata'; args: [AztecAddress] }[] = [
-    { name: 'getContractMetadata', args: [ammAddress] },
-    { name: 'getContractMetadata', args: [gregoCoinAddress] },
-    { name: 'getContractMetadata', args: [gregoCoinPremiumAddress] },
-  ];
+  const metadataChecks: { name: 'getContractMetadata'; args: [AztecAddress] }[] = entries.map(entry => ({
+    name: 'getContractMetadata',
+    args: [entry.address],
+  }));
   if (fpcAddress) {
     metadataChecks.push({ name: 'getContractMetadata', args: [fpcAddress] });
   }
   const metadataResults = await wallet.batch(metadataChecks);
-  const [ammMetadata, gregoCoinMetadata, gregoCoinPremiumMetadata] = metadataResults;
 
   // Reconstruct contract instances for unregistered contracts
-  const [ammInstance, gregoCoinInstance, gregoCoinPremiumInstance] = await Promise.all([
-    !ammMetadata.result.instance
-      ? getContractInstanceFromInstantiationParams(AMMContractArtifact, {
-          salt: contractSalt,
-          deployer: deployerAddress,
-          constructorArgs: [gregoCoinAddress, gregoCoinPremiumAddress, liquidityTokenAddress],
-        })
-      : null,
-    !gregoCoinMetadata.result.instance
-      ? getContractInstanceFromInstantiationParams(TokenContractArtifact, {
-          salt: contractSalt,
-          deployer: deployerAddress,
-          constructorArgs: [deployerAddress, 'GregoCoin', 'GRG', 18],
-        })
-      : null,
-    !gregoCoinPremiumMetadata.result.instance
-      ? getContractInstanceFromInstantiationParams(TokenContractArtifact, {
-          salt: contractSalt,
-          deployer: deployerAddress,
-          constructorArgs: [deployerAddress, 'GregoCoinPremium', 'GRGP', 18],
-        })
-      : null,
-  ]);
+  const unregistered = entries.filter((_, i) => !metadataResults[i].result.instance);
+  const instances = await Promise.all(
+    unregistered.map(entry =>
+      getContractInstanceFromInstantiationParams(artifacts[entry.kind], {
+        salt: entry.salt,
+        deployer: entry.deployer,
+        constructorArgs: entry.constructorArgs,
+      }),
+    ),
+  );
 
-  // Build registration batch for unregistered contracts only
+  // Build registration batch for unregistered contracts only.
+  // Contracts of the same kind share an artifact, so it is only passed with the first of each.
   const registrationBatch: { name: 'registerContract'; args: [any, any, any] }[] = [];
-
-  if (ammInstance) {
-    registrationBatch.push({ name: 'registerContract', args: [ammInstance, AMMContractArtifact, undefined] });
-  }
-  if (gregoCoinInstance) {
-    registrationBatch.push({ name: 'registerContract', args: [gregoCoinInstance, TokenContractArtifact, undefined] });
-  }
-  if (gregoCoinPremiumInstance) {
-    // gregoCoinPremium shares the same artifact as gregoCoin, so we can omit it
-    registrationBatch.push({ name: 'registerContract', args: [gregoCoinPremiumInstance, undefined, undefined] });
-  }
+  const withArtifact = new Set<RegistryEntry['kind']>();
+  unregistered.forEach((entry, i) => {
+    const artifact = withArtifact.has(entry.kind) ? undefined : artifacts[entry.kind];
+    withArtifact.add(entry.kind);
+    registrationBatch.push({ name: 'registerContract', args: [instances[i], artifact, undefined] });
+  });
 
   // Register subscription FPC for sponsored swaps (if configured and not yet registered)
   if (subFPC && fpcAddress) {
-    const fpcMetadata = metadataResults[3];
+    const fpcMetadata = metadataResults[entries.length];
     if (!fpcMetadata?.result?.instance) {
       const instance = await node.getContract(fpcAddress);
       if (!instance) {
@@ -140,14 +216,115 @@ export async function registerSwapContracts(
   }
 
   // Instantiate the contracts
-  const gregoCoin = TokenContract.at(gregoCoinAddress, wallet);
-  const gregoCoinPremium = TokenContract.at(gregoCoinPremiumAddress, wallet);
-  const amm = AMMContract.at(ammAddress, wallet);
+  const tokens: Record<TokenKey, TokenContract> = {};
+  for (const token of network.tokens) {
+    tokens[token.key] = TokenContract.at(AztecAddressClass.fromString(token.address), wallet);
+  }
+  const pools: Record<string, PoolContracts> = {};
+  for (const pool of network.pools) {
+    pools[pool.key] = {
+      config: pool,
+      amm: AMMContract.at(AztecAddressClass.fromString(pool.address), wallet),
+      liquidityToken: TokenContract.at(AztecAddressClass.fromString(pool.liquidityToken.address), wallet),
+    };
+  }
 
   // Instantiate FPC wrapper if configured
   const fpc = subFPC && fpcAddress ? SubscriptionFPC.at(fpcAddress, wallet) : null;
 
-  return { gregoCoin, gregoCoinPremium, amm, fpc };
+  return { tokens, pools, fpc };
+}
+
+/**
+ * Registers Token contracts that aren't in the network config, using the instances deployed on the node.
+ * Returns the contract instances keyed by address
+ * Skips registration for contracts that are already registered
+ */
+export async function registerImportedTokens(
+  wallet: Wallet,
+  node: AztecNode,
+  addresses: AztecAddress[],
+): Promise<Record<TokenKey, TokenContract>> {
+  if (addresses.length === 0) return {};
+
+  const { TokenContract, TokenContractArtifact } = await import('../../contracts/target/Token');
+
+  // Check which contracts are already registered
+  const metadataChecks: { name: 'getContractMetadata'; args: [AztecAddress] }[] = addresses.map(address => ({
+    name: 'getContractMetadata',
+    args: [address],
+  }));
+  const metadataResults = await wallet.batch(metadataChecks);
+
+  // Fetch the instances of unregistered contracts from the node
+  const unregistered = addresses.filter((_, i) => !metadataResults[i].result.instance);
+  const instances = await Promise.all(
+    unregistered.map(async address => {
+      const instance = await node.getContract(address);
+      if (!instance) {
+        throw new Error(`No contract is deployed at ${address.toString()}`);
+      }
+      return instance;
+    }),
+  );
+
+  // The artifact is passed with every instance so the wallet rejects contracts that aren't Tokens
+  const registrationBatch: { name: 'registerContract'; args: Parameters<Wallet['registerContract']> }[] = instances.map(
+    instance => ({ name: 'registerContract', args: [instance, TokenContractArtifact, undefined] }),
+  );
+  if (registrationBatch.length > 0) {
+    await wallet.batch(registrationBatch);
+  }
+
+  return Object.fromEntries(addresses.map(address => [address.toString(), TokenContract.at(address, wallet)]));
+}
+
+/**
+ * Reads a token's name, symbol and decimals from its public getters in one batch
+ */
+export async function fetchTokenMetadata(
+  wallet: Wallet,
+  token: TokenContract,
+  fromAddress: AztecAddress,
+): Promise<TokenMetadata> {
+  const batchCall = new BatchCall(wallet, [
+    token.methods.public_get_name(),
+    token.methods.public_get_symbol(),
+    token.methods.public_get_decimals(),
+  ]);
+
+  const [name, symbol, decimals] = await batchCall.simulate({ from: fromAddress });
+  return {
+    address: token.address.toString(),
+    name: readFieldCompressedString(name.result),
+    symbol: readFieldCompressedString(symbol.result),
+    decimals: Number(decimals.result),
+  };
+}
+
+/**
+ * Imports a Token contract by address: registers it with the wallet and reads its metadata
+ */
+export async function importToken(
+  wallet: Wallet,
+  node: AztecNode,
+  address: AztecAddress,
+  fromAddress: AztecAddress,
+): Promise<{ contract: TokenContract; metadata: TokenMetadata }> {
+  const { [address.toString()]: contract } = await registerImportedTokens(wallet, node, [address]);
+  const metadata = await fetchTokenMetadata(wallet, contract, fromAddress);
+  return { contract, metadata };
+}
+
+/**
+ * Resolves a pool by key. Throws if it isn't registered.
+ */
+export function getPoolContracts(contracts: SwapContracts, poolKey: string): PoolContracts {
+  const pool = contracts.pools[poolKey];
+  if (!pool) {
+    throw new Error(`Pool ${poolKey} is not registered`);
+  }
+  return pool;
 }
 
 /**
@@ -222,101 +399,173 @@ export async function registerDripContracts(
   return { pop, fpc };
 }
 
+// ── Read queries ────────────────────────────────────────────────────
+// Reads are declared as queries and simulated through the read coordinator, which merges the
+// queries made at the same moment into one BatchCall per sender.
+
+function publicBalanceQuery(token: TokenContract, owner: AztecAddress, from: AztecAddress): ReadQuery {
+  return {
+    key: `${token.address.toString()}:balance_of_public:${owner.toString()}`,
+    from,
+    call: token.methods.balance_of_public(owner),
+  };
+}
+
+/** Private balances are read from their owner, whose notes the simulation has to scan */
+function privateBalanceQuery(token: TokenContract, owner: AztecAddress): ReadQuery {
+  return {
+    key: `${token.address.toString()}:balance_of_private:${owner.toString()}`,
+    from: owner,
+    call: token.methods.balance_of_private(owner),
+  };
+}
+
+function totalSupplyQuery(token: TokenContract, from: AztecAddress): ReadQuery {
+  return { key: `${token.address.toString()}:total_supply`, from, call: token.methods.total_supply() };
+}
+
 /**
- * Gets the current exchange rate from the AMM
+ * Builds the reads of a pool's reserves: the AMM's public balance of each of its tokens
  */
-export async function getExchangeRate(
-  wallet: Wallet,
+function reserveQueries(contracts: SwapContracts, pool: PoolContracts, from: AztecAddress): ReadQuery[] {
+  const { token0, token1 } = pool.config;
+  return [
+    publicBalanceQuery(contracts.tokens[token0], pool.amm.address, from),
+    publicBalanceQuery(contracts.tokens[token1], pool.amm.address, from),
+  ];
+}
+
+/**
+ * Gets the current reserves of the given pools from their AMMs, keyed by pool
+ */
+export async function getPoolReserves(
+  reader: ReadCoordinator,
   contracts: SwapContracts,
+  poolKeys: string[],
   fromAddress: AztecAddress,
-): Promise<number> {
-  const { gregoCoin, gregoCoinPremium, amm } = contracts;
-
-  const batchCall = new BatchCall(wallet, [
-    gregoCoin.methods.balance_of_public(amm.address),
-    gregoCoinPremium.methods.balance_of_public(amm.address),
-  ]);
-
-  const results = await batchCall.simulate({ from: fromAddress });
-  const token0Reserve = results[0].result;
-  const token1Reserve = results[1].result;
-  return parseFloat(new BigDecimal(token1Reserve).divide(new BigDecimal(token0Reserve)).toString());
+): Promise<Record<string, PoolReserves>> {
+  const pools = poolKeys.map(poolKey => getPoolContracts(contracts, poolKey));
+  if (pools.length === 0) return {};
+
+  const results = (await reader.read(pools.flatMap(pool => reserveQueries(contracts, pool, fromAddress)))) as bigint[];
+  return Object.fromEntries(
+    pools.map((pool, i) => [
+      pool.config.key,
+      { [pool.config.token0]: results[2 * i], [pool.config.token1]: results[2 * i + 1] },
+    ]),
+  );
 }
 
 /**
- * Fetches balances for a given address
+ * Fetches the private balance of every token for a given address
  */
 export async function fetchBalances(
-  wallet: Wallet,
+  reader: ReadCoordinator,
   contracts: SwapContracts,
   address: AztecAddress,
-): Promise<[bigint, bigint]> {
-  const { gregoCoin, gregoCoinPremium } = contracts;
+): Promise<Balances> {
+  const tokenKeys = Object.keys(contracts.tokens);
 
-  const batchCall = new BatchCall(wallet, [
-    gregoCoin.methods.balance_of_private(address),
-    gregoCoinPremium.methods.balance_of_private(address),
-  ]);
-
-  const results = await batchCall.simulate({ from: address });
-  return [results[0].result, results[1].result];
+  const results = (await reader.read(
+    tokenKeys.map(key => privateBalanceQuery(contracts.tokens[key], address)),
+  )) as bigint[];
+  return Object.fromEntries(tokenKeys.map((key, i) => [key, results[i]]));
 }
 
 /**
- * Simulates onboarding queries to get exchange rate and balances
+ * Simulates onboarding queries to get the default pool's reserves and the user's balances
  * This triggers wallet approval for these queries, so future reads are seamless
  */
 export async function simulateOnboardingQueries(
-  wallet: Wallet,
+  reader: ReadCoordinator,
   contracts: SwapContracts,
   address: AztecAddress,
 ): Promise<OnboardingResult> {
-  const { gregoCoin, gregoCoinPremium, amm } = contracts;
+  const [pool] = Object.values(contracts.pools);
+  const tokenKeys = Object.keys(contracts.tokens);
 
-  // Create a batched simulation that includes:
-  // 1. Exchange rate data (public balances of AMM)
+  // Both sets of reads are simulated from the user, so they go out in one batch:
+  // 1. Pool reserves (public balances of AMM)
   // 2. User's private balances
-  const batchCall = new BatchCall(wallet, [
-    gregoCoin.methods.balance_of_public(amm.address),
-    gregoCoinPremium.methods.balance_of_public(amm.address),
-    gregoCoin.methods.balance_of_private(address),
-    gregoCoinPremium.methods.balance_of_private(address),
-  ]);
-
-  const results = await batchCall.simulate({ from: address });
-  const [token0Reserve, token1Reserve, gcBalance, gcpBalance] = results.map(r => r.result);
-  const exchangeRate = parseFloat(new BigDecimal(token1Reserve).divide(new BigDecimal(token0Reserve)).toString());
+  const [reserve0, reserve1, ...balances] = (await reader.read([
+    ...reserveQueries(contracts, pool, address),
+    ...tokenKeys.map(key => privateBalanceQuery(contracts.tokens[key], address)),
+  ])) as bigint[];
 
   return {
-    exchangeRate,
-    balances: {
-      gregoCoin: gcBalance,
-      gregoCoinPremium: gcpBalance,
+    reserves: {
+      [pool.config.token0]: reserve0,
+      [pool.config.token1]: reserve1,
     },
+    balances: Object.fromEntries(tokenKeys.map((key, i) => [key, balances[i]])),
+  };
+}
+
+/**
+ * Finds the pool trading a swap's pair and resolves its input and output token contracts.
+ * Throws if no configured pool trades the pair.
+ */
+export function getSwapTokens(
+  network: NetworkConfig,
+  contracts: SwapContracts,
+  direction: SwapDirection,
+): { amm: AMMContract; tokenIn: TokenContract; tokenOut: TokenContract } {
+  const pool = findPoolForPair(network, direction.tokenIn, direction.tokenOut);
+  if (!pool) {
+    throw new Error(`No pool trades ${direction.tokenIn} for ${direction.tokenOut}`);
+  }
+  return {
+    amm: getPoolContracts(contracts, pool.key).amm,
+    tokenIn: contracts.tokens[direction.tokenIn],
+    tokenOut: contracts.tokens[direction.tokenOut],
   };
 }
 
+/**
+ * Name of the AMM swap function for a swap mode. The `_from` variant takes an explicit sender
+ * so the subscription FPC can call it on the user's behalf; only exact-output swaps have one.
+ */
+export function getSwapFunctionName(mode: SwapMode, sponsored: boolean): string {
+  const name = mode === 'exactIn' ? 'swap_exact_tokens_for_tokens' : 'swap_tokens_for_exact_tokens';
+  return sponsored ? `${name}_from` : name;
+}
+
+/**
+ * Builds the AMM swap interaction for the given amounts.
+ * When `from` is set, the sponsored `_from` variant is used.
+ */
+function buildSwapInteraction(
+  amm: AMMContract,
+  tokenIn: TokenContract,
+  tokenOut: TokenContract,
+  amounts: SwapAmounts,
+  authwitNonce: Fr,
+  from?: AztecAddress,
+) {
+  const args =
+    amounts.mode === 'exactIn'
+      ? [tokenIn.address, tokenOut.address, amounts.amountIn, amounts.amountOutMin, authwitNonce]
+      : [tokenIn.address, tokenOut.address, amounts.amountOut, amounts.amountInMax, authwitNonce];
+  const method = amm.methods[getSwapFunctionName(amounts.mode, !!from)];
+  return from ? method(from, ...args) : method(...args);
+}
+
 /**
  * Executes a token swap through the AMM
  */
 export async function executeSwap(
+  network: NetworkConfig,
   contracts: SwapContracts,
   fromAddress: AztecAddress,
-  amountOut: number,
-  amountInMax: number,
+  direction: SwapDirection,
+  amounts: SwapAmounts,
 ): Promise<TxReceipt> {
-  const { gregoCoin, gregoCoinPremium, amm } = contracts;
+  const { amm, tokenIn, tokenOut } = getSwapTokens(network, contracts, direction);
 
   const authwitNonce = Fr.random();
-  const { receipt } = await amm.methods
-    .swap_tokens_for_exact_tokens(
-      gregoCoin.address,
-      gregoCoinPremium.address,
-      BigInt(Math.round(amountOut)),
-      BigInt(Math.round(amountInMax)),
-      authwitNonce,
-    )
-    .send({ from: fromAddress });
+  const { receipt } = await buildSwapInteraction(amm, tokenIn, tokenOut, amounts, authwitNonce).send({
+    from: fromAddress,
+  });
   return receipt;
 }
 
@@ -337,7 +586,27 @@ function hasSubscription(fpcAddress: string, configIndex: number, userAddress: s
   }
 }
 
-function markSubscribed(fpcAddress: string, configIndex: number, userAddress: string) {
+export interface StoredSubscription {
+  fpcAddress: string;
+  configIndex: number;
+}
+
+/** The FPC slots this browser has seen the user subscribe to */
+export function getStoredSubscriptions(userAddress: string): StoredSubscription[] {
+  try {
+    const subs = JSON.parse(localStorage.getItem(SUBSCRIPTION_KEY) ?? '{}');
+    return Object.keys(subs)
+      .filter(key => subs[key] && key.endsWith(`:${userAddress}`))
+      .map(key => {
+        const [fpcAddress, configIndex] = key.split(':');
+        return { fpcAddress, configIndex: Number(configIndex) };
+      });
+  } catch {
+    return [];
+  }
+}
+
+export function markSubscribed(fpcAddress: string, configIndex: number, userAddress: string) {
   try {
     const subs = JSON.parse(localStorage.getItem(SUBSCRIPTION_KEY) ?? '{}');
     subs[subscriptionKey(fpcAddress, configIndex, userAddress)] = true;
@@ -348,36 +617,33 @@ function markSubscribed(fpcAddress: string, configIndex: number, userAddress: st
 }
 
 /**
- * Executes a sponsored swap through the SubscriptionFPC.
- * Uses subscribe on first call, sponsor on subsequent calls.
+ * Builds the AMM call for a sponsored swap and finds the FPC config that covers it
  */
-export async function executeSponsoredSwap(
+async function prepareSponsoredSwap(
   network: NetworkConfig,
-  amm: SwapContracts['amm'],
-  gregoCoin: SwapContracts['gregoCoin'],
-  gregoCoinPremium: SwapContracts['gregoCoinPremium'],
-  fpc: SubscriptionFPC,
+  contracts: SwapContracts,
   userAddress: AztecAddress,
-  amountOut: number,
-  amountInMax: number,
-): Promise<TxReceipt> {
+  direction: SwapDirection,
+  amounts: SwapAmounts,
+): Promise<{ call: FunctionCall; configIndex: number; subscribed: boolean; subscriptionFpcAddress: string }> {
   const subFPC = network.subscriptionFPC;
   if (!subFPC) {
     throw new Error('No subscriptionFPC configured for this network');
   }
 
+  if (amounts.mode === 'exactIn') {
+    throw new Error(
+      "Exact-input swaps aren't sponsored on this pool. Enter the amount to receive instead, or pay the fee yourself",
+    );
+  }
+
+  const { amm, tokenIn, tokenOut } = getSwapTokens(network, contracts, direction);
+
   const authwitNonce = Fr.random();
-  const call = await amm.methods
-    .swap_tokens_for_exact_tokens_from(
-      userAddress,
-      gregoCoin.address,
-      gregoCoinPremium.address,
-      BigInt(Math.round(amountOut)),
-      BigInt(Math.round(amountInMax)),
-      authwitNonce,
-    )
-    .getFunctionCall();
+  const call = await buildSwapInteraction(amm, tokenIn, tokenOut, amounts, authwitNonce, userAddress).getFunctionCall();
 
+  // The token pair is an argument of the call, so both directions share the same selector and FPC config.
+  // Each pool's AMM is a separate contract with its own configs.
   const configIndex = subFPC.functions[amm.address.toString()]?.[call.selector.toString()];
   if (configIndex == null) {
     throw new Error(
@@ -386,46 +652,312 @@ export async function executeSponsoredSwap(
   }
 
   const subscribed = hasSubscription(subFPC.address, configIndex, userAddress.toString());
+  return { call, configIndex, subscribed, subscriptionFpcAddress: subFPC.address };
+}
 
-  if (subscribed) {
-    const { receipt } = await fpc.helpers.sponsor({
-      call,
-      configIndex,
-      userAddress,
-    });
-    return receipt;
-  } else {
-    const { receipt } = await fpc.helpers.subscribe({
-      call,
-      configIndex,
-      userAddress,
+/**
+ * Simulates a sponsored swap exactly as executeSponsoredSwap would send it, without proving.
+ * Throws with the contract's revert reason if the swap would fail.
+ */
+export async function simulateSponsoredSwap(
+  network: NetworkConfig,
+  contracts: SwapContracts,
+  fpc: SubscriptionFPC,
+  userAddress: AztecAddress,
+  direction: SwapDirection,
+  amounts: SwapAmounts,
+): Promise<void> {
+  const { call, configIndex, subscribed } = await prepareSponsoredSwap(
+    network,
+    contracts,
+    userAddress,
+    direction,
+    amounts,
+  );
+
+  const noirCall = await buildNoirFunctionCall(call);
+  const method = subscribed ? fpc.methods.sponsor : fpc.methods.subscribe;
+  await method(noirCall, configIndex, userAddress)
+    .with({ extraHashedArgs: await buildExtraHashedArgs(call) })
+    .simulate({ from: NO_FROM, additionalScopes: [userAddress, fpc.address] });
+}
+
+/**
+ * Sends a call through the SubscriptionFPC the way its sponsor and subscribe helpers do, but returns as soon
+ * as the tx is submitted instead of waiting for it to be mined, so callers can report and record it as pending
+ */
+async function sendSponsoredCall(
+  fpc: SubscriptionFPC,
+  call: FunctionCall,
+  configIndex: number,
+  userAddress: AztecAddress,
+  subscribed: boolean,
+) {
+  const noirCall = await buildNoirFunctionCall(call);
+  const method = subscribed ? fpc.methods.sponsor : fpc.methods.subscribe;
+  return method(noirCall, configIndex, userAddress)
+    .with({ extraHashedArgs: await buildExtraHashedArgs(call) })
+    .send({
+      from: NO_FROM,
+      additionalScopes: [userAddress, fpc.address],
+      fee: { gasSettings: { teardownGasLimits: new Gas(FPC_TEARDOWN_DA_GAS, FPC_TEARDOWN_L2_GAS) } },
+      wait: NO_WAIT,
     });
-    markSubscribed(subFPC.address, configIndex, userAddress.toString());
-    return receipt;
+}
+
+/**
+ * Executes a sponsored swap through the SubscriptionFPC.
+ * Uses subscribe on first call, sponsor on subsequent calls, and reports the tx as pending once submitted.
+ */
+export async function executeSponsoredSwap(
+  network: NetworkConfig,
+  contracts: SwapContracts,
+  fpc: SubscriptionFPC,
+  node: AztecNode,
+  userAddress: AztecAddress,
+  direction: SwapDirection,
+  amounts: SwapAmounts,
+  onProgress?: TxLifecycleListener,
+): Promise<TxReceipt> {
+  const { call, configIndex, subscribed, subscriptionFpcAddress } = await prepareSponsoredSwap(
+    network,
+    contracts,
+    userAddress,
+    direction,
+    amounts,
+  );
+
+  const { txHash } = await sendSponsoredCall(fpc, call, configIndex, userAddress, subscribed);
+  onProgress?.({ stage: 'pending', txHash: txHash.toString() });
+  const receipt = await waitForMined(node, txHash, onProgress);
+  if (!subscribed) {
+    markSubscribed(subscriptionFpcAddress, configIndex, userAddress.toString());
   }
+  return receipt;
+}
+
+/**
+ * Simulates an unsponsored swap exactly as executeUnsponsoredSwap would send it, without proving.
+ * Throws with the contract's revert reason if the swap would fail.
+ */
+export async function simulateUnsponsoredSwap(
+  network: NetworkConfig,
+  contracts: SwapContracts,
+  fromAddress: AztecAddress,
+  direction: SwapDirection,
+  amounts: SwapAmounts,
+): Promise<void> {
+  const { amm, tokenIn, tokenOut } = getSwapTokens(network, contracts, direction);
+  const authwitNonce = Fr.random();
+  await buildSwapInteraction(amm, tokenIn, tokenOut, amounts, authwitNonce).simulate({ from: fromAddress });
 }
 
 /**
  * Executes an unsponsored swap directly through the AMM (user pays their own gas).
+ * Returns as soon as the wallet has submitted the tx and waits for mining against the node,
+ * so progress can be reported for external wallets too.
  */
 export async function executeUnsponsoredSwap(
+  network: NetworkConfig,
   contracts: SwapContracts,
+  node: AztecNode,
   fromAddress: AztecAddress,
-  amountOut: number,
-  amountInMax: number,
+  direction: SwapDirection,
+  amounts: SwapAmounts,
+  onProgress?: TxLifecycleListener,
 ): Promise<TxReceipt> {
-  const { gregoCoin, gregoCoinPremium, amm } = contracts;
+  const { amm, tokenIn, tokenOut } = getSwapTokens(network, contracts, direction);
   const authwitNonce = Fr.random();
-  const { receipt } = await amm.methods
-    .swap_tokens_for_exact_tokens(
-      gregoCoin.address,
-      gregoCoinPremium.address,
-      BigInt(Math.round(amountOut)),
-      BigInt(Math.round(amountInMax)),
-      authwitNonce,
-    )
-    .send({ from: fromAddress });
-  return receipt;
+  const { txHash } = await buildSwapInteraction(amm, tokenIn, tokenOut, amounts, authwitNonce).send({
+    from: fromAddress,
+    wait: NO_WAIT,
+  });
+  onProgress?.({ stage: 'pending', txHash: txHash.toString() });
+  return waitForMined(node, txHash, onProgress);
+}
+
+/**
+ * Builds a multi-hop swap as one batch of AMM calls, each with an authwit for the AMM to pull that hop's input.
+ * All hops run in the same transaction, so the output of a hop is only credited once its public part runs:
+ * hops after the first spend the intermediate token from the private balance the user already holds, and the
+ * previous hop's output replenishes it.
+ */
+async function buildRouteSwap(
+  wallet: Wallet,
+  contracts: SwapContracts,
+  fromAddress: AztecAddress,
+  route: QuotedRoute,
+  hopAmounts: SwapAmounts[],
+): Promise<BatchCall> {
+  const interactions = await Promise.all(
+    route.hops.map(async (hop, i) => {
+      const { amm } = getPoolContracts(contracts, hop.pool);
+      const tokenIn = contracts.tokens[hop.tokenIn];
+      const tokenOut = contracts.tokens[hop.tokenOut];
+      const amounts = hopAmounts[i];
+
+      // Exact-input swaps transfer the full amount in; exact-output swaps transfer the maximum and refund change
+      const authwitNonce = Fr.random();
+      const transfer =
+        amounts.mode === 'exactIn'
+          ? tokenIn.methods.transfer_to_public(fromAddress, amm.address, amounts.amountIn, authwitNonce)
+          : tokenIn.methods.transfer_to_public_and_prepare_private_balance_increase(
+              fromAddress,
+              amm.address,
+              amounts.amountInMax,
+              authwitNonce,
+            );
+      const authwit = await wallet.createAuthWit(fromAddress, {
+        caller: amm.address,
+        call: await transfer.getFunctionCall(),
+      });
+
+      return buildSwapInteraction(amm, tokenIn, tokenOut, amounts, authwitNonce).with({ authWitnesses: [authwit] });
+    }),
+  );
+  return new BatchCall(wallet, interactions);
+}
+
+/**
+ * Simulates a multi-hop swap exactly as executeRouteSwap would send it, without proving.
+ * Throws with the contract's revert reason if any hop would fail.
+ */
+export async function simulateRouteSwap(
+  wallet: Wallet,
+  contracts: SwapContracts,
+  fromAddress: AztecAddress,
+  route: QuotedRoute,
+  hopAmounts: SwapAmounts[],
+): Promise<void> {
+  const batchCall = await buildRouteSwap(wallet, contracts, fromAddress, route, hopAmounts);
+  await batchCall.simulate({ from: fromAddress });
+}
+
+/**
+ * Executes a multi-hop swap in a single transaction (user pays their own gas; the FPC only sponsors single
+ * AMM calls). Returns as soon as the wallet has submitted the tx and waits for mining against the node.
+ */
+export async function executeRouteSwap(
+  wallet: Wallet,
+  contracts: SwapContracts,
+  node: AztecNode,
+  fromAddress: AztecAddress,
+  route: QuotedRoute,
+  hopAmounts: SwapAmounts[],
+  onProgress?: TxLifecycleListener,
+): Promise<TxReceipt> {
+  const batchCall = await buildRouteSwap(wallet, contracts, fromAddress, route, hopAmounts);
+  const { txHash } = await batchCall.send({ from: fromAddress, wait: NO_WAIT });
+  onProgress?.({ stage: 'pending', txHash: txHash.toString() });
+  return waitForMined(node, txHash, onProgress);
+}
+
+/**
+ * Fetches a pool's reserves, its LQT supply and the user's LQT balance in one batch
+ */
+export async function getLiquidityPosition(
+  reader: ReadCoordinator,
+  contracts: SwapContracts,
+  poolKey: string,
+  address: AztecAddress,
+): Promise<LiquidityPosition> {
+  const pool = getPoolContracts(contracts, poolKey);
+  const { liquidityToken } = pool;
+
+  const [reserve0, reserve1, totalSupply, liquidityBalance] = (await reader.read([
+    ...reserveQueries(contracts, pool, address),
+    totalSupplyQuery(liquidityToken, address),
+    privateBalanceQuery(liquidityToken, address),
+  ])) as bigint[];
+  return {
+    reserves: { [pool.config.token0]: reserve0, [pool.config.token1]: reserve1 },
+    totalSupply,
+    liquidityBalance,
+  };
+}
+
+/**
+ * Deposits both of a pool's tokens into it (user pays their own gas; the FPC doesn't sponsor liquidity).
+ * The AMM pulls both tokens from the user's private balance, so it needs an authwit for each transfer,
+ * as in scripts/deploy.ts. The call is simulated before proving so a revert surfaces early.
+ */
+export async function executeAddLiquidity(
+  wallet: Wallet,
+  contracts: SwapContracts,
+  poolKey: string,
+  node: AztecNode,
+  fromAddress: AztecAddress,
+  amounts: AddLiquidityAmounts,
+  onProgress?: TxLifecycleListener,
+): Promise<TxReceipt> {
+  const { amm, config } = getPoolContracts(contracts, poolKey);
+  const token0 = contracts.tokens[config.token0];
+  const token1 = contracts.tokens[config.token1];
+  const { amount0Max, amount1Max, amount0Min, amount1Min } = amounts;
+
+  const authwitNonce = Fr.random();
+  const token0Authwit = await wallet.createAuthWit(fromAddress, {
+    caller: amm.address,
+    call: await token0.methods
+      .transfer_to_public_and_prepare_private_balance_increase(fromAddress, amm.address, amount0Max, authwitNonce)
+      .getFunctionCall(),
+  });
+  const token1Authwit = await wallet.createAuthWit(fromAddress, {
+    caller: amm.address,
+    call: await token1.methods
+      .transfer_to_public_and_prepare_private_balance_increase(fromAddress, amm.address, amount1Max, authwitNonce)
+      .getFunctionCall(),
+  });
+
+  const interaction = amm.methods
+    .add_liquidity(amount0Max, amount1Max, amount0Min, amount1Min, authwitNonce)
+    .with({ authWitnesses: [token0Authwit, token1Authwit] });
+
+  onProgress?.({ stage: 'simulating' });
+  await interaction.simulate({ from: fromAddress });
+
+  onProgress?.({ stage: 'proving' });
+  const { txHash } = await interaction.send({ from: fromAddress, wait: NO_WAIT });
+  onProgress?.({ stage: 'pending', txHash: txHash.toString() });
+  return waitForMined(node, txHash, onProgress);
+}
+
+/**
+ * Withdraws liquidity by burning LQT for a share of both tokens (user pays their own gas).
+ * The AMM moves the LQT to its public balance before burning it, so it needs an authwit for that transfer.
+ * The call is simulated before proving so a revert surfaces early.
+ */
+export async function executeRemoveLiquidity(
+  wallet: Wallet,
+  contracts: SwapContracts,
+  poolKey: string,
+  node: AztecNode,
+  fromAddress: AztecAddress,
+  amounts: RemoveLiquidityAmounts,
+  onProgress?: TxLifecycleListener,
+): Promise<TxReceipt> {
+  const { amm, liquidityToken } = getPoolContracts(contracts, poolKey);
+  const { liquidity, amount0Min, amount1Min } = amounts;
+
+  const authwitNonce = Fr.random();
+  const liquidityAuthwit = await wallet.createAuthWit(fromAddress, {
+    caller: amm.address,
+    call: await liquidityToken.methods
+      .transfer_to_public(fromAddress, amm.address, liquidity, authwitNonce)
+      .getFunctionCall(),
+  });
+
+  const interaction = amm.methods
+    .remove_liquidity(liquidity, amount0Min, amount1Min, authwitNonce)
+    .with({ authWitnesses: [liquidityAuthwit] });
+
+  onProgress?.({ stage: 'simulating' });
+  await interaction.simulate({ from: fromAddress });
+
+  onProgress?.({ stage: 'proving' });
+  const { txHash } = await interaction.send({ from: fromAddress, wait: NO_WAIT });
+  onProgress?.({ stage: 'pending', txHash: txHash.toString() });
+  return waitForMined(node, txHash, onProgress);
 }
 
 export type SubscriptionStatusKind =
@@ -447,29 +979,42 @@ export interface SubscriptionStatus {
  * Returns the status kind based on available slots and user subscription state.
  */
 export async function querySubscriptionStatus(
+  reader: ReadCoordinator,
   network: NetworkConfig,
-  amm: SwapContracts['amm'],
+  amm: AMMContract,
   userAddress: AztecAddress,
   fpc: SubscriptionFPC | null,
+  mode: SwapMode,
 ): Promise<SubscriptionStatus> {
   const subFPC = network.subscriptionFPC;
   if (!subFPC || !fpc) return { kind: 'no_fpc' };
 
-  // Derive configIndex + selector from the AMM's function map — take the first entry
+  // Look up the configIndex of the swap function used for this mode in the AMM's function map
   const ammFunctions = subFPC.functions[amm.address.toString()];
   if (!ammFunctions) return { kind: 'no_fpc' };
-  const [[selectorHex, configIndex]] = Object.entries(ammFunctions);
+  // Exact-input swaps have no sponsored variant, so the AMM artifact has no function for them
+  const swapFn = amm.artifact.functions.find(f => f.name === getSwapFunctionName(mode, true));
+  if (!swapFn) return { kind: 'no_fpc' };
+  const selector = await FunctionSelector.fromNameAndParameters(swapFn.name, swapFn.parameters);
+  const configIndex = ammFunctions[selector.toString()];
   if (configIndex == null) return { kind: 'no_fpc' };
 
   // Compute config_id the same way the contract does: poseidon2Hash([app, selector, index])
-  const selector = FunctionSelector.fromString(selectorHex);
   const configId = await poseidon2Hash([amm.address.toField(), selector.toField(), new Fr(configIndex)]);
 
   // SlotNote is owned by the FPC — must simulate from fpc.address
-  // SubscriptionNote is owned by the user — must simulate from userAddress
-  const [{ result: slotsResult }, { result: subInfoResult }] = await Promise.all([
-    fpc.methods.count_available_slots(configId).simulate({ from: fpc.address }),
-    fpc.methods.get_subscription_info(userAddress, configId).simulate({ from: userAddress }),
+  // SubscriptionNote is owned by the user — must simulate from userAddress, alongside the user's other reads
+  const [slotsResult, subInfoResult] = await reader.read([
+    {
+      key: `${fpc.address.toString()}:count_available_slots:${configId.toString()}`,
+      from: fpc.address,
+      call: fpc.methods.count_available_slots(configId),
+    },
+    {
+      key: `${fpc.address.toString()}:get_subscription_info:${userAddress.toString()}:${configId.toString()}`,
+      from: userAddress,
+      call: fpc.methods.get_subscription_info(userAddress, configId),
+    },
   ]);
 
   const availableSlots = Number(slotsResult);
@@ -483,39 +1028,18 @@ export async function querySubscriptionStatus(
 }
 
 /**
- * Parses a swap error into a user-friendly message
- */
-export function parseSwapError(error: unknown): string {
-  if (!(error instanceof Error)) {
-    return 'Swap failed. Please try again.';
-  }
-
-  const message = error.message;
-
-  if (message.includes('Simulation failed')) {
-    return message;
-  }
-  if (message.includes('User denied') || message.includes('rejected')) {
-    return 'Transaction was rejected in wallet';
-  }
-  if (message.includes('Insufficient') || message.includes('insufficient')) {
-    return 'Insufficient GregoCoin balance for swap';
-  }
-
-  return message;
-}
-
-/**
- * Executes a drip (token claim) transaction.
- * Uses subscription FPC when configured, falls back to Aztec's sponsored FPC.
+ * Executes a drip (token claim) transaction through the subscription FPC.
+ * Reports the tx as pending once submitted and waits for it to be mined against the node.
  */
 export async function executeDrip(
   wallet: Wallet,
   network: NetworkConfig,
   pop: ProofOfPasswordContract,
   fpc: SubscriptionFPC,
+  node: AztecNode,
   password: string,
   recipient: AztecAddress,
+  onProgress?: TxLifecycleListener,
 ): Promise<TxReceipt> {
   const subFPC = network.subscriptionFPC;
   if (!subFPC) {
@@ -531,60 +1055,68 @@ export async function executeDrip(
   const accounts = await wallet.getAccounts();
   const userAddress = accounts[0]?.item ?? recipient;
 
-  const { receipt } = await fpc.helpers.subscribe({
-    call,
-    configIndex,
-    userAddress,
-  });
-  return receipt;
+  onProgress?.({ stage: 'proving' });
+  const { txHash } = await sendSponsoredCall(fpc, call, configIndex, userAddress, false);
+  onProgress?.({ stage: 'pending', txHash: txHash.toString() });
+  return waitForMined(node, txHash, onProgress);
 }
 
+/** Called as soon as a transfer tx is submitted, before it is mined, with the recipients' offchain messages */
+export type OffchainTransferSubmittedListener = (txHash: TxHash, recipientMessages: OffchainMessage[]) => void;
+
 /**
  * Execute an offchain token transfer.
  * Sends tokens privately with offchain note delivery, self-delivers the sender's
- * change note, and returns the recipient's offchain messages for link encoding.
+ * change note once mined, and returns the recipient's offchain messages for link encoding.
+ * The messages are also handed to onSubmitted as soon as the tx is submitted, so the transfer can be
+ * recorded before it is mined.
+ * Transfers of tokens the subscription FPC doesn't sponsor, such as imported ones, are paid by the sender.
  */
 export async function executeTransferOffchain(
   network: NetworkConfig,
   contracts: SwapContracts,
-  tokenKey: 'gregoCoin' | 'gregoCoinPremium',
+  node: AztecNode,
+  tokenKey: TokenKey,
   fromAddress: AztecAddress,
   recipient: AztecAddress,
   amount: bigint,
+  onSubmitted?: OffchainTransferSubmittedListener,
+  onProgress?: TxLifecycleListener,
 ): Promise<{ receipt: TxReceipt; offchainMessages: OffchainMessage[] }> {
   const subFPC = network.subscriptionFPC;
-  if (!subFPC) {
-    throw new Error('No subscriptionFPC configured for this network');
-  }
-
   const fpc = contracts.fpc;
 
-  const token = contracts[tokenKey];
+  const token = contracts.tokens[tokenKey];
+  if (!token) {
+    throw new Error(`Token ${tokenKey} is not registered`);
+  }
 
   const authwitNonce = Fr.random();
   const call = await token.methods
     .transfer_in_private_deliver_offchain(fromAddress, recipient, amount, authwitNonce)
     .getFunctionCall();
 
-  const configIndex = subFPC.functions[token.address.toString()]?.[call.selector.toString()];
-  if (configIndex == null) {
-    throw new Error(
-      `No subscription config found for token ${token.address.toString()} selector ${call.selector.toString()}`,
-    );
-  }
+  const configIndex = subFPC?.functions[token.address.toString()]?.[call.selector.toString()];
+  const isSponsored = !!subFPC && !!fpc && configIndex != null;
+  const subscribed = isSponsored && hasSubscription(subFPC.address, configIndex, fromAddress.toString());
 
-  const subscribed = hasSubscription(subFPC.address, configIndex, fromAddress.toString());
+  const { txHash, offchainMessages } = isSponsored
+    ? await sendSponsoredCall(fpc, call, configIndex, fromAddress, subscribed)
+    : // The sender calls the token directly, so the transfer needs no authwit and its nonce must be zero
+      await token.methods
+        .transfer_in_private_deliver_offchain(fromAddress, recipient, amount, 0)
+        .send({ from: fromAddress, wait: NO_WAIT });
 
-  let txResult: { receipt: TxReceipt; offchainMessages: OffchainMessage[] };
-  if (subscribed) {
-    txResult = await fpc.helpers.sponsor({ call, configIndex, userAddress: fromAddress });
-  } else {
-    txResult = await fpc.helpers.subscribe({ call, configIndex, userAddress: fromAddress });
+  // Filter the recipient's messages for link encoding
+  const recipientMessages = offchainMessages.filter((msg: OffchainMessage) => msg.recipient.equals(recipient));
+  onSubmitted?.(txHash, recipientMessages);
+  onProgress?.({ stage: 'pending', txHash: txHash.toString() });
+
+  const receipt = await waitForMined(node, txHash, onProgress);
+  if (isSponsored && !subscribed) {
     markSubscribed(subFPC.address, configIndex, fromAddress.toString());
   }
 
-  const { receipt, offchainMessages } = txResult;
-
   // Self-deliver sender's change note (manual until F-324 lands)
   const senderMessages = offchainMessages.filter((msg: OffchainMessage) => msg.recipient.equals(fromAddress));
   if (senderMessages.length > 0) {
@@ -600,46 +1132,191 @@ export async function executeTransferOffchain(
       .simulate({ from: fromAddress });
   }
 
-  // Filter and return recipient's messages for link encoding
-  const recipientMessages = offchainMessages.filter((msg: OffchainMessage) => msg.recipient.equals(recipient));
-
   return { receipt, offchainMessages: recipientMessages };
 }
 
+export interface OffchainTransfer {
+  tokenKey: TokenKey;
+  recipient: AztecAddress;
+  amount: bigint;
+}
+
 /**
- * Parses a drip error into a user-friendly message
+ * Execute several offchain token transfers in a single transaction (user pays their own gas; the FPC only
+ * sponsors single calls, so a batch of one goes through executeTransferOffchain instead).
+ * Waits for mining so the sender's change notes can be received and spent by the next batch, then returns
+ * each transfer's recipient message, in order, for link encoding. onSubmitted gets the same messages as soon
+ * as the tx is submitted.
  */
-export function parseDripError(error: unknown): string {
-  if (!(error instanceof Error)) {
-    return 'Failed to claim GregoCoin. Please try again.';
+export async function executeBatchTransferOffchain(
+  wallet: Wallet,
+  network: NetworkConfig,
+  contracts: SwapContracts,
+  node: AztecNode,
+  fromAddress: AztecAddress,
+  transfers: OffchainTransfer[],
+  onSubmitted?: OffchainTransferSubmittedListener,
+  onProgress?: TxLifecycleListener,
+): Promise<{ receipt: TxReceipt; messages: OffchainMessage[] }> {
+  if (transfers.length === 1) {
+    const [{ tokenKey, recipient, amount }] = transfers;
+    const { receipt, offchainMessages } = await executeTransferOffchain(
+      network,
+      contracts,
+      node,
+      tokenKey,
+      fromAddress,
+      recipient,
+      amount,
+      onSubmitted,
+      onProgress,
+    );
+    if (!offchainMessages[0]) {
+      throw new Error('No offchain message generated for recipient');
+    }
+    return { receipt, messages: [offchainMessages[0]] };
   }
 
-  const message = error.message;
+  const tokens = transfers.map(({ tokenKey }) => {
+    const token = contracts.tokens[tokenKey];
+    if (!token) {
+      throw new Error(`Token ${tokenKey} is not registered`);
+    }
+    return token;
+  });
 
-  if (message.includes('Simulation failed')) {
-    return message;
-  }
-  if (message.includes('User denied') || message.includes('rejected')) {
-    return 'Transaction was rejected in wallet';
-  }
-  if (message.includes('password') || message.includes('Password')) {
-    return 'Invalid password. Please try again.';
+  // The sender calls the tokens directly, so the transfers need no authwit and their nonces must be zero
+  const batchCall = new BatchCall(
+    wallet,
+    transfers.map(({ recipient, amount }, i) =>
+      tokens[i].methods.transfer_in_private_deliver_offchain(fromAddress, recipient, amount, 0),
+    ),
+  );
+  const { txHash, offchainMessages } = await batchCall.send({ from: fromAddress, wait: NO_WAIT });
+
+  // Messages come out in call order; matching by recipient and token also pairs up repeated recipients
+  const unmatched = offchainMessages.filter((msg: OffchainMessage) => !msg.recipient.equals(fromAddress));
+  const messages = transfers.map(({ recipient }, i) => {
+    const index = unmatched.findIndex(
+      msg => msg.recipient.equals(recipient) && msg.contractAddress.equals(tokens[i].address),
+    );
+    if (index === -1) {
+      throw new Error(`No offchain message generated for ${recipient.toString()}`);
+    }
+    return unmatched.splice(index, 1)[0];
+  });
+  onSubmitted?.(txHash, messages);
+
+  onProgress?.({ stage: 'pending', txHash: txHash.toString() });
+  const receipt = await waitForMined(node, txHash, onProgress);
+
+  // Self-deliver the sender's change notes, per token (manual until F-324 lands)
+  for (const token of new Set(tokens)) {
+    const senderMessages = offchainMessages.filter(
+      (msg: OffchainMessage) => msg.recipient.equals(fromAddress) && msg.contractAddress.equals(token.address),
+    );
+    if (senderMessages.length > 0) {
+      await token.methods
+        .offchain_receive(
+          senderMessages.map((msg: OffchainMessage) => ({
+            ciphertext: msg.payload,
+            recipient: fromAddress,
+            tx_hash: receipt.txHash.hash,
+            anchor_block_timestamp: msg.anchorBlockTimestamp,
+          })),
+        )
+        .simulate({ from: fromAddress });
+    }
   }
-  if (message.includes('already claimed') || message.includes('Already claimed')) {
-    return 'You have already claimed your GregoCoin tokens.';
+
+  return { receipt, messages };
+}
+
+/**
+ * Registers the link's token in the bearer wallet and hands it the link's message, so the wallet knows the
+ * transfer's note and whether it has been spent
+ */
+async function receiveBearerTransfer(
+  bearerWallet: Wallet,
+  node: AztecNode,
+  bearerAddress: AztecAddress,
+  tokenAddress: AztecAddress,
+  message: { ciphertext: Fr[]; tx_hash: Fr; anchor_block_timestamp: bigint },
+): Promise<TokenContract> {
+  const tokenInstance = await node.getContract(tokenAddress);
+  if (!tokenInstance) {
+    throw new Error(`No contract is deployed at ${tokenAddress.toString()}`);
   }
 
-  return message;
+  const { TokenContract, TokenContractArtifact } = await import('../../contracts/target/Token');
+  await bearerWallet.registerContract(tokenInstance, TokenContractArtifact);
+
+  const token = TokenContract.at(tokenAddress, bearerWallet);
+  await token.methods.offchain_receive([{ ...message, recipient: bearerAddress }]).simulate({ from: bearerAddress });
+  return token;
 }
 
 /**
- * Parses a send (offchain transfer) error into a user-friendly message
+ * Reads what a bearer link's throwaway account still holds of the link's token. Sweeping the link spends the
+ * transfer's note, so this drops below the link's amount once it has been claimed, from any device.
  */
-export function parseSendError(error: unknown): string {
-  if (!(error instanceof Error)) return 'Send failed. Please try again.';
-  const msg = error.message;
-  if (msg.includes('Balance too low')) return 'Insufficient token balance';
-  if (msg.includes('User denied') || msg.includes('rejected')) return 'Transaction was rejected in wallet';
-  if (msg.includes('invalid') && msg.includes('address')) return 'Invalid recipient address';
-  return msg;
+export async function getBearerBalance(
+  bearerWallet: Wallet,
+  node: AztecNode,
+  bearerAddress: AztecAddress,
+  tokenAddress: AztecAddress,
+  message: { ciphertext: Fr[]; tx_hash: Fr; anchor_block_timestamp: bigint },
+): Promise<bigint> {
+  const token = await receiveBearerTransfer(bearerWallet, node, bearerAddress, tokenAddress, message);
+  const { result } = await token.methods.balance_of_private(bearerAddress).simulate({ from: bearerAddress });
+  return result as bigint;
+}
+
+/**
+ * Sweeps a bearer link's transfer from its throwaway account into the claimer's account.
+ * The bearer wallet discovers the note from the link's message, then sends it on with offchain delivery,
+ * sponsored by the subscription FPC since the throwaway account has no fee juice.
+ * Returns the claimer's offchain messages, which the claimer's own wallet still has to receive.
+ */
+export async function sweepBearerTransfer(
+  bearerWallet: Wallet,
+  node: AztecNode,
+  network: NetworkConfig,
+  bearerAddress: AztecAddress,
+  tokenAddress: AztecAddress,
+  message: { ciphertext: Fr[]; tx_hash: Fr; anchor_block_timestamp: bigint },
+  amount: bigint,
+  claimer: AztecAddress,
+): Promise<{ receipt: TxReceipt; offchainMessages: OffchainMessage[] }> {
+  const subFPC = network.subscriptionFPC;
+  if (!subFPC) {
+    throw new Error('No subscriptionFPC configured for this network');
+  }
+
+  const fpcAddress = AztecAddressClass.fromString(subFPC.address);
+  const fpcInstance = await node.getContract(fpcAddress);
+  if (!fpcInstance) {
+    throw new Error(`Subscription FPC at ${subFPC.address} not found on-chain`);
+  }
+
+  const { SubscriptionFPCContractArtifact } = await import('@gregojuice/contracts/artifacts/SubscriptionFPC');
+  await bearerWallet.registerContract(fpcInstance, SubscriptionFPCContractArtifact, Fr.fromString(subFPC.secretKey));
+
+  const token = await receiveBearerTransfer(bearerWallet, node, bearerAddress, tokenAddress, message);
+  const fpc = SubscriptionFPC.at(fpcAddress, bearerWallet);
+
+  const call = await token.methods
+    .transfer_in_private_deliver_offchain(bearerAddress, claimer, amount, Fr.random())
+    .getFunctionCall();
+  const configIndex = subFPC.functions[tokenAddress.toString()]?.[call.selector.toString()];
+  if (configIndex == null) {
+    throw new Error("Transfers of this token aren't sponsored, so the link's account can't pay to sweep them");
+  }
+
+  // Every bearer account is new to the FPC, so it always subscribes
+  const { receipt, offchainMessages } = await fpc.helpers.subscribe({ call, configIndex, userAddress: bearerAddress });
+  return {
+    receipt,
+    offchainMessages: offchainMessages.filter((msg: OffchainMessage) => msg.recipient.equals(claimer)),
+  };
 }
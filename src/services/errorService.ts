@@ -0,0 +1,246 @@
+/**
+ * Error Service
+ * Classifies errors from contracts, wallets and the node into typed codes with a user message,
+ * whether retrying can help, and what the user should do next
+ */
+
+export type ErrorCode =
+  // AMM
+  | 'SLIPPAGE_EXCEEDED'
+  | 'AMOUNT_TOO_SMALL'
+  | 'INSUFFICIENT_LIQUIDITY'
+  | 'INVALID_TOKEN'
+  | 'SAME_TOKEN'
+  | 'WITHDRAWAL_BELOW_MINIMUM'
+  // Token
+  | 'INSUFFICIENT_BALANCE'
+  // ProofOfPassword
+  | 'INVALID_PASSWORD'
+  | 'ALREADY_CLAIMED'
+  // SubscriptionFPC
+  | 'SPONSORSHIP_FULL'
+  | 'SPONSORSHIP_EXHAUSTED'
+  | 'SPONSORSHIP_FEE_LIMIT'
+  // Wallet
+  | 'WALLET_REJECTED'
+  // Node and network
+  | 'NETWORK_ERROR'
+  | 'TX_DROPPED'
+  | 'TX_TIMEOUT'
+  | 'TX_REVERTED'
+  | 'INVALID_ADDRESS'
+  | 'UNKNOWN';
+
+export type SuggestedAction =
+  | 'retry'
+  | 'adjust_amount'
+  | 'increase_slippage'
+  | 'get_tokens'
+  | 'check_password'
+  | 'check_recipient'
+  | 'pay_own_fee'
+  | 'reload'
+  | 'none';
+
+/** The operation that failed, used for messages that differ between flows */
+export type ErrorOperation = 'swap' | 'liquidity' | 'drip' | 'send' | 'onboarding';
+
+export interface ClassifiedError {
+  code: ErrorCode;
+  /** Message to show the user */
+  message: string;
+  /** Whether trying the same thing again can succeed */
+  retryable: boolean;
+  action: SuggestedAction;
+  /** The original error message, for logs and support */
+  detail: string;
+}
+
+interface ErrorDefinition {
+  message: string;
+  retryable: boolean;
+  action: SuggestedAction;
+}
+
+const ERROR_DEFINITIONS: Record<Exclude<ErrorCode, 'UNKNOWN'>, ErrorDefinition> = {
+  SLIPPAGE_EXCEEDED: {
+    message: 'Price moved beyond your slippage tolerance. Try again or increase the tolerance in swap settings.',
+    retryable: true,
+    action: 'increase_slippage',
+  },
+  AMOUNT_TOO_SMALL: {
+    message: 'The amount is too small. Enter a larger amount.',
+    retryable: false,
+    action: 'adjust_amount',
+  },
+  INSUFFICIENT_LIQUIDITY: {
+    message: 'The pool does not have enough liquidity for this swap. Try a smaller amount.',
+    retryable: false,
+    action: 'adjust_amount',
+  },
+  INVALID_TOKEN: {
+    message: 'This pool does not trade the selected tokens. Reload the page and try again.',
+    retryable: false,
+    action: 'reload',
+  },
+  SAME_TOKEN: {
+    message: 'Pick two different tokens to swap.',
+    retryable: false,
+    action: 'adjust_amount',
+  },
+  WITHDRAWAL_BELOW_MINIMUM: {
+    message:
+      'The pool changed and your withdrawal would pay out less than your slippage tolerance allows. Try again or increase the tolerance in swap settings.',
+    retryable: true,
+    action: 'increase_slippage',
+  },
+  INSUFFICIENT_BALANCE: {
+    message: 'Your balance is too low. Reduce the amount or get more tokens from the faucet.',
+    retryable: false,
+    action: 'get_tokens',
+  },
+  INVALID_PASSWORD: {
+    message: 'Invalid password. Please try again.',
+    retryable: true,
+    action: 'check_password',
+  },
+  ALREADY_CLAIMED: {
+    message: 'You have already claimed your GregoCoin tokens.',
+    retryable: false,
+    action: 'none',
+  },
+  SPONSORSHIP_FULL: {
+    message: 'All sponsored slots are taken. Connect an external wallet to pay the fee yourself.',
+    retryable: false,
+    action: 'pay_own_fee',
+  },
+  SPONSORSHIP_EXHAUSTED: {
+    message: 'You have used all your sponsored transactions. Connect an external wallet to pay the fee yourself.',
+    retryable: false,
+    action: 'pay_own_fee',
+  },
+  SPONSORSHIP_FEE_LIMIT: {
+    message: 'Network fees are above what sponsorship covers right now. Try again in a moment.',
+    retryable: true,
+    action: 'retry',
+  },
+  WALLET_REJECTED: {
+    message: 'Transaction was rejected in wallet',
+    retryable: true,
+    action: 'retry',
+  },
+  NETWORK_ERROR: {
+    message: 'Could not reach the network. Check your connection and try again.',
+    retryable: true,
+    action: 'retry',
+  },
+  TX_DROPPED: {
+    message: 'The network dropped the transaction before it was mined. Nothing was executed, so it is safe to retry.',
+    retryable: true,
+    action: 'retry',
+  },
+  TX_TIMEOUT: {
+    message: 'The transaction is taking longer than expected to be mined. Check its status before retrying.',
+    retryable: false,
+    action: 'none',
+  },
+  TX_REVERTED: {
+    message:
+      "The transaction was mined but reverted, so it didn't go through. The network fee may still have been paid.",
+    retryable: false,
+    action: 'none',
+  },
+  INVALID_ADDRESS: {
+    message: 'Invalid recipient address',
+    retryable: false,
+    action: 'check_recipient',
+  },
+};
+
+/**
+ * Substrings of error messages and the code they map to, checked in order.
+ * Contract assertion messages come first since they are the most specific.
+ */
+const ERROR_PATTERNS: [pattern: string | RegExp, code: Exclude<ErrorCode, 'UNKNOWN'>][] = [
+  // AMM: the output fell below the minimum, or the input exceeded the maximum
+  ['INSUFFICIENT_OUTPUT_AMOUNT', 'SLIPPAGE_EXCEEDED'],
+  ['INSUFFICIENT_INPUT_AMOUNT', 'AMOUNT_TOO_SMALL'],
+  // AMM liquidity: the pool moved past the deposit's or withdrawal's minimums, or the deposit mints no LQT
+  ['AMOUNT_0_BELOW_MINIMUM', 'SLIPPAGE_EXCEEDED'],
+  ['AMOUNT_1_BELOW_MINIMUM', 'SLIPPAGE_EXCEEDED'],
+  ['INSUFFICIENT_LIQUIDITY_MINTED', 'AMOUNT_TOO_SMALL'],
+  ['INSUFFICIENT_0_AMOUNT', 'WITHDRAWAL_BELOW_MINIMUM'],
+  ['INSUFFICIENT_1_AMOUNT', 'WITHDRAWAL_BELOW_MINIMUM'],
+  ['INSUFFICIENT_LIQUIDITY', 'INSUFFICIENT_LIQUIDITY'],
+  ['TOKEN_IN_IS_INVALID', 'INVALID_TOKEN'],
+  ['TOKEN_OUT_IS_INVALID', 'INVALID_TOKEN'],
+  ['SAME_TOKEN_SWAP', 'SAME_TOKEN'],
+  // Token
+  ['Balance too low', 'INSUFFICIENT_BALANCE'],
+  // ProofOfPassword
+  [/invalid password/i, 'INVALID_PASSWORD'],
+  [/already claimed/i, 'ALREADY_CLAIMED'],
+  // SubscriptionFPC
+  ['No subscription slots available', 'SPONSORSHIP_FULL'],
+  ['No active subscription found', 'SPONSORSHIP_EXHAUSTED'],
+  ['Max fee exceeds subscription limit', 'SPONSORSHIP_FEE_LIMIT'],
+  // Wallet
+  [/user denied|user rejected|rejected by (the )?user|request rejected|cancell?ed by (the )?user/i, 'WALLET_REJECTED'],
+  // Node and network
+  [/was dropped/, 'TX_DROPPED'],
+  [/Timed out waiting for transaction/, 'TX_TIMEOUT'],
+  [/reverted/, 'TX_REVERTED'],
+  [/failed to fetch|networkerror|fetch failed|econnrefused|etimedout|socket hang up|\b50[23]\b/i, 'NETWORK_ERROR'],
+];
+
+/** Codes whose meaning depends on the flow they come from */
+const OPERATION_PATTERNS: Partial<Record<ErrorOperation, [pattern: RegExp, code: Exclude<ErrorCode, 'UNKNOWN'>][]>> = {
+  // The drip nullifier is derived from the recipient and password, so a duplicate means it was used before
+  drip: [[/existing nullifier|duplicate nullifier/i, 'ALREADY_CLAIMED']],
+  send: [[/invalid.*address|address.*invalid/i, 'INVALID_ADDRESS']],
+};
+
+const FALLBACK_MESSAGES: Record<ErrorOperation, string> = {
+  swap: 'Swap failed. Please try again.',
+  liquidity: 'Liquidity transaction failed. Please try again.',
+  drip: 'Failed to claim GregoCoin. Please try again.',
+  send: 'Send failed. Please try again.',
+  onboarding: 'Onboarding failed',
+};
+
+function matches(message: string, pattern: string | RegExp): boolean {
+  return typeof pattern === 'string' ? message.includes(pattern) : pattern.test(message);
+}
+
+/**
+ * Classifies an error thrown while performing an operation
+ */
+export function classifyError(error: unknown, operation: ErrorOperation): ClassifiedError {
+  if (!(error instanceof Error)) {
+    return {
+      code: 'UNKNOWN',
+      message: FALLBACK_MESSAGES[operation],
+      retryable: true,
+      action: 'retry',
+      detail: String(error),
+    };
+  }
+
+  const detail = error.message;
+  const patterns = [...(OPERATION_PATTERNS[operation] ?? []), ...ERROR_PATTERNS];
+  const match = patterns.find(([pattern]) => matches(detail, pattern));
+
+  if (!match) {
+    // Unknown errors keep their own message, which is more useful than a generic one
+    return {
+      code: 'UNKNOWN',
+      message: detail || FALLBACK_MESSAGES[operation],
+      retryable: true,
+      action: 'retry',
+      detail,
+    };
+  }
+
+  const code = match[1];
+  return { code, ...ERROR_DEFINITIONS[code], detail };
+}
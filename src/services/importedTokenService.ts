@@ -0,0 +1,36 @@
+/**
+ * Imported Token Service
+ * localStorage persistence for Token contracts the user imported by address, per network
+ */
+
+import type { TokenMetadata } from '../config/networks';
+import type { TokenKey } from '../types';
+
+/**
+ * A Token contract imported by address. Imported tokens are keyed by their address,
+ * so they can't collide with the keys of configured tokens.
+ */
+export interface ImportedToken extends TokenMetadata {
+  key: TokenKey;
+}
+
+function storageKey(networkId: string): string {
+  return `gregoswap_imported_tokens_${networkId}`;
+}
+
+export function getImportedTokens(networkId: string): ImportedToken[] {
+  try {
+    const raw = localStorage.getItem(storageKey(networkId));
+    if (!raw) return [];
+    return JSON.parse(raw) as ImportedToken[];
+  } catch {
+    return [];
+  }
+}
+
+/** Saves an imported token, replacing any previous import of the same contract */
+export function saveImportedToken(networkId: string, token: ImportedToken): void {
+  const tokens = getImportedTokens(networkId).filter(t => t.key !== token.key);
+  tokens.push(token);
+  localStorage.setItem(storageKey(networkId), JSON.stringify(tokens));
+}
@@ -0,0 +1,78 @@
+/**
+ * Liquidity History Service
+ * localStorage persistence for confirmed deposits and withdrawals, kept per network and account
+ */
+
+export type LiquidityRecordKind = 'add' | 'remove';
+
+export interface LiquidityRecord {
+  id: string;
+  txHash: string;
+  /** Block the transaction was included in, when known */
+  blockNumber?: number;
+  /** Key of the pool the liquidity was added to or removed from */
+  pool: string;
+  kind: LiquidityRecordKind;
+  /** The pool's token0 deposited or paid out in base units, as quoted at submission time */
+  amount0: string;
+  /** The pool's token1 deposited or paid out in base units, as quoted at submission time */
+  amount1: string;
+  /** LQT minted or burned in base units */
+  liquidity: string;
+  createdAt: number;
+}
+
+/** Tokens deposited for the LQT still held, after withdrawals */
+export interface LiquidityCostBasis {
+  amount0: bigint;
+  amount1: bigint;
+  liquidity: bigint;
+}
+
+function storageKey(networkId: string, accountAddress: string): string {
+  return `gregoswap_liquidity_history_${networkId}_${accountAddress}`;
+}
+
+export function getLiquidityHistory(networkId: string, accountAddress: string): LiquidityRecord[] {
+  try {
+    const raw = localStorage.getItem(storageKey(networkId, accountAddress));
+    if (!raw) return [];
+    return JSON.parse(raw) as LiquidityRecord[];
+  } catch {
+    return [];
+  }
+}
+
+/** Replaces the account's whole history on the network, newest first */
+export function saveLiquidityHistory(networkId: string, accountAddress: string, records: LiquidityRecord[]): void {
+  localStorage.setItem(storageKey(networkId, accountAddress), JSON.stringify(records));
+}
+
+export function addLiquidityRecord(networkId: string, accountAddress: string, record: LiquidityRecord): void {
+  const existing = getLiquidityHistory(networkId, accountAddress);
+  existing.unshift(record);
+  localStorage.setItem(storageKey(networkId, accountAddress), JSON.stringify(existing));
+}
+
+/**
+ * Replays the records oldest first to find what was deposited for the LQT still held.
+ * Each withdrawal releases the same fraction of the deposited amounts as of the LQT it burns.
+ */
+export function getCostBasis(records: LiquidityRecord[]): LiquidityCostBasis {
+  const basis: LiquidityCostBasis = { amount0: 0n, amount1: 0n, liquidity: 0n };
+
+  for (const record of [...records].reverse()) {
+    const liquidity = BigInt(record.liquidity);
+    if (record.kind === 'add') {
+      basis.amount0 += BigInt(record.amount0);
+      basis.amount1 += BigInt(record.amount1);
+      basis.liquidity += liquidity;
+    } else if (basis.liquidity > 0n) {
+      const burned = liquidity < basis.liquidity ? liquidity : basis.liquidity;
+      basis.amount0 -= (basis.amount0 * burned) / basis.liquidity;
+      basis.amount1 -= (basis.amount1 * burned) / basis.liquidity;
+      basis.liquidity -= burned;
+    }
+  }
+  return basis;
+}
@@ -0,0 +1,200 @@
+/**
+ * Liquidity Service
+ * Pure functions for pricing liquidity deposits, withdrawals and LP positions against the AMM reserves.
+ * The formulas mirror `get_amounts_to_add` / `get_amounts_on_remove` in contracts/amm/src/lib.nr and the
+ * LQT minting in `_add_liquidity` in contracts/amm/src/main.nr.
+ */
+
+import { getMinimumReceived } from './quoteService';
+import type { LiquidityCostBasis } from './liquidityHistoryService';
+import type { PoolConfig } from '../config/networks';
+import type { AddLiquidityAmounts, PoolReserves, RemoveLiquidityAmounts } from '../types';
+
+/** The pool's token0 and token1, in the order the AMM's liquidity bounds refer to them */
+type PoolTokens = Pick<PoolConfig, 'token0' | 'token1'>;
+
+/** Liquidity minted by the first deposit into an empty pool */
+const INITIAL_LIQUIDITY = 99000n;
+
+export interface AddLiquidityQuote {
+  /** Token0 the pool takes from the deposit */
+  amount0: bigint;
+  /** Token1 the pool takes from the deposit */
+  amount1: bigint;
+  /** LQT minted to the depositor */
+  liquidity: bigint;
+  /** Share of the pool the depositor's new LQT represents, 0-100 */
+  poolSharePct: number;
+}
+
+export interface PositionSummary {
+  /** LQT held */
+  liquidity: bigint;
+  /** Share of the pool the LQT represents, 0-100 */
+  poolSharePct: number;
+  /** Token0 the LQT redeems for at the current reserves */
+  amount0: bigint;
+  /** Token1 the LQT redeems for at the current reserves */
+  amount1: bigint;
+  /** Value of the redeemable tokens in token0 base units, at the pool price */
+  value: bigint;
+  /**
+   * Value gained or lost against holding the deposited tokens, in token0 base units at the pool price.
+   * Null without local deposit records for the position.
+   */
+  valueChange: bigint | null;
+  /** valueChange as a percentage of the deposited value */
+  valueChangePct: number | null;
+}
+
+/**
+ * Returns the amount of the other token that keeps the pool ratio unchanged, rounded down like the contract.
+ * Returns null for an empty pool, which has no ratio to follow.
+ */
+export function getEquivalentAmount(amount: bigint, balance: bigint, otherBalance: bigint): bigint | null {
+  if (balance <= 0n || otherBalance <= 0n) return null;
+  return (amount * otherBalance) / balance;
+}
+
+/**
+ * Given the deposit bounds and the pool balances, returns the amounts the AMM will actually take.
+ * Returns null where the contract would revert.
+ */
+export function getAmountsToAdd(
+  amounts: AddLiquidityAmounts,
+  reserves: PoolReserves,
+  pool: PoolTokens,
+): { amount0: bigint; amount1: bigint } | null {
+  const { amount0Max, amount1Max, amount0Min, amount1Min } = amounts;
+  if (amount0Max <= 0n || amount1Max <= 0n || amount0Min > amount0Max || amount1Min > amount1Max) return null;
+
+  const balance0 = reserves[pool.token0];
+  const balance1 = reserves[pool.token1];
+  if (balance0 === 0n || balance1 === 0n) {
+    return { amount0: amount0Max, amount1: amount1Max };
+  }
+
+  // Use the full token0 amount if the matching token1 amount fits, otherwise the full token1 amount
+  const amount1Equivalent = (amount0Max * balance1) / balance0;
+  if (amount1Equivalent <= amount1Max) {
+    return amount1Equivalent >= amount1Min ? { amount0: amount0Max, amount1: amount1Equivalent } : null;
+  }
+  const amount0Equivalent = (amount1Max * balance0) / balance1;
+  return amount0Equivalent >= amount0Min ? { amount0: amount0Equivalent, amount1: amount1Max } : null;
+}
+
+/**
+ * Quotes a deposit: the amounts the pool takes and the LQT minted for them.
+ * Returns null where the contract would revert, including deposits too small to mint any LQT.
+ */
+export function quoteAddLiquidity(
+  amounts: AddLiquidityAmounts,
+  reserves: PoolReserves,
+  pool: PoolTokens,
+  totalSupply: bigint,
+): AddLiquidityQuote | null {
+  const added = getAmountsToAdd(amounts, reserves, pool);
+  if (!added) return null;
+
+  const { amount0, amount1 } = added;
+  let liquidity = INITIAL_LIQUIDITY;
+  if (totalSupply > 0n) {
+    // The supply grows by the smaller of the two deposit ratios
+    const liquidity0 = (amount0 * totalSupply) / reserves[pool.token0];
+    const liquidity1 = (amount1 * totalSupply) / reserves[pool.token1];
+    liquidity = liquidity0 < liquidity1 ? liquidity0 : liquidity1;
+  }
+  if (liquidity <= 0n) return null;
+
+  const newSupply = totalSupply + liquidity;
+  const poolSharePct = Number((liquidity * 1_000_000n) / newSupply) / 10_000;
+  return { amount0, amount1, liquidity, poolSharePct };
+}
+
+/**
+ * Builds the deposit bounds for amounts at the current pool ratio. The maximums are the amounts
+ * themselves and the minimums allow the ratio to move by the slippage tolerance before the deposit reverts.
+ */
+export function getAddLiquidityAmounts(amount0: bigint, amount1: bigint, slippageBps: number): AddLiquidityAmounts {
+  return {
+    amount0Max: amount0,
+    amount1Max: amount1,
+    amount0Min: getMinimumReceived(amount0, slippageBps),
+    amount1Min: getMinimumReceived(amount1, slippageBps),
+  };
+}
+
+/**
+ * Returns the tokens paid out for burning `liquidity` LQT: a proportional share of each pool balance, rounded down.
+ * Returns null where the contract would revert (nothing to burn, or more than the supply).
+ */
+export function getAmountsOnRemove(
+  liquidity: bigint,
+  reserves: PoolReserves,
+  pool: PoolTokens,
+  totalSupply: bigint,
+): { amount0: bigint; amount1: bigint } | null {
+  if (liquidity <= 0n || liquidity > totalSupply) return null;
+  return {
+    amount0: (liquidity * reserves[pool.token0]) / totalSupply,
+    amount1: (liquidity * reserves[pool.token1]) / totalSupply,
+  };
+}
+
+/**
+ * Builds the withdrawal bounds for a payout preview. The minimums allow the pool to move by the slippage
+ * tolerance before the withdrawal reverts.
+ */
+export function getRemoveLiquidityAmounts(
+  liquidity: bigint,
+  payout: { amount0: bigint; amount1: bigint },
+  slippageBps: number,
+): RemoveLiquidityAmounts {
+  return {
+    liquidity,
+    amount0Min: getMinimumReceived(payout.amount0, slippageBps),
+    amount1Min: getMinimumReceived(payout.amount1, slippageBps),
+  };
+}
+
+/** Values a token0/token1 pair in token0 base units at the pool price */
+function valueInToken0(amount0: bigint, amount1: bigint, reserves: PoolReserves, pool: PoolTokens): bigint {
+  return amount0 + (amount1 * reserves[pool.token0]) / reserves[pool.token1];
+}
+
+/**
+ * Summarizes an LP position at the current reserves. The change in value compares the redeemable tokens
+ * with the deposited ones, both priced at the current pool ratio, so it captures fees earned and
+ * impermanent loss. Deposits recorded for a slightly different LQT amount than held (e.g. because the
+ * pool moved before the deposit was mined) are scaled to the balance.
+ * Returns null when there's no position to show.
+ */
+export function getPositionSummary(
+  liquidity: bigint,
+  reserves: PoolReserves,
+  pool: PoolTokens,
+  totalSupply: bigint,
+  basis: LiquidityCostBasis,
+): PositionSummary | null {
+  if (liquidity <= 0n || totalSupply <= 0n || reserves[pool.token0] <= 0n || reserves[pool.token1] <= 0n) {
+    return null;
+  }
+
+  const payout = getAmountsOnRemove(liquidity, reserves, pool, totalSupply);
+  if (!payout) return null;
+
+  const value = valueInToken0(payout.amount0, payout.amount1, reserves, pool);
+  const poolSharePct = Number((liquidity * 1_000_000n) / totalSupply) / 10_000;
+
+  let valueChange: bigint | null = null;
+  let valueChangePct: number | null = null;
+  if (basis.liquidity > 0n) {
+    const depositedValue = (valueInToken0(basis.amount0, basis.amount1, reserves, pool) * liquidity) / basis.liquidity;
+    if (depositedValue > 0n) {
+      valueChange = value - depositedValue;
+      valueChangePct = Number((valueChange * 1_000_000n) / depositedValue) / 10_000;
+    }
+  }
+
+  return { liquidity, poolSharePct, ...payout, value, valueChange, valueChangePct };
+}
@@ -0,0 +1,328 @@
+/**
+ * Local Data Service
+ * Exports an account's app data from this browser's localStorage as a versioned JSON file, and merges such
+ * files back in, so histories and markers survive a cleared cache or a move to another device
+ */
+
+import type { NetworkConfig } from '../config/networks';
+import { getStoredSubscriptions, markSubscribed, type StoredSubscription } from './contractService';
+import { getSentTransferToken, getSentTransfers, saveSentTransfers, type SentTransfer } from './sentHistoryService';
+import { getSwapHistory, saveSwapHistory, type SwapRecord } from './swapHistoryService';
+import { getLiquidityHistory, saveLiquidityHistory, type LiquidityRecord } from './liquidityHistoryService';
+import { getImportedTokens, saveImportedToken, type ImportedToken } from './importedTokenService';
+import { addClaimedLink, getClaimedLinks, type ClaimedLink } from './claimedLinkService';
+import { isOnboardingComplete, setOnboardingComplete } from './onboardingStatusService';
+import { TokenAmount, parseStoredAmount } from '../utils/tokenAmount';
+import { toCsv } from '../utils/csv';
+
+/** Bumped whenever the file's shape changes; files from newer versions are refused */
+export const LOCAL_DATA_VERSION = 1;
+
+const LOCAL_DATA_APP = 'gregoswap';
+
+export interface NetworkLocalData {
+  swapHistory: SwapRecord[];
+  liquidityHistory: LiquidityRecord[];
+  importedTokens: ImportedToken[];
+  /** Claim links the account claimed */
+  claimedLinks: ClaimedLink[];
+}
+
+export interface LocalDataExport {
+  app: typeof LOCAL_DATA_APP;
+  version: number;
+  exportedAt: number;
+  /** Account the data belongs to; it can only be imported back for the same account */
+  account: string;
+  sentTransfers: SentTransfer[];
+  subscriptions: StoredSubscription[];
+  onboardingComplete: boolean;
+  networks: Record<string, NetworkLocalData>;
+}
+
+/**
+ * How many entries an import added of each kind; entries already in this browser aren't counted. Entries the
+ * file holds in an unreadable shape are left out and counted as skipped.
+ */
+export interface LocalDataImportSummary {
+  sentTransfers: number;
+  swaps: number;
+  liquidityRecords: number;
+  importedTokens: number;
+  claimedLinks: number;
+  subscriptions: number;
+  skipped: number;
+}
+
+/**
+ * Collects everything stored for the account, across the given networks
+ */
+export function exportLocalData(account: string, networkIds: string[]): LocalDataExport {
+  const networks: Record<string, NetworkLocalData> = {};
+  for (const networkId of networkIds) {
+    networks[networkId] = {
+      swapHistory: getSwapHistory(networkId, account),
+      liquidityHistory: getLiquidityHistory(networkId, account),
+      importedTokens: getImportedTokens(networkId),
+      claimedLinks: getClaimedLinks(networkId).filter(c => c.claimedBy === account),
+    };
+  }
+
+  return {
+    app: LOCAL_DATA_APP,
+    version: LOCAL_DATA_VERSION,
+    exportedAt: Date.now(),
+    account,
+    sentTransfers: getSentTransfers(account),
+    subscriptions: getStoredSubscriptions(account),
+    onboardingComplete: isOnboardingComplete(account),
+    networks,
+  };
+}
+
+/**
+ * Reads an exported file, throwing if it isn't one or comes from a newer version of the app
+ */
+export function parseLocalDataFile(text: string): LocalDataExport {
+  let data: Partial<LocalDataExport>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a GregoSwap data export');
+  }
+  if (data?.app !== LOCAL_DATA_APP || typeof data.version !== 'number' || typeof data.account !== 'string') {
+    throw new Error('This file is not a GregoSwap data export');
+  }
+  if (data.version > LOCAL_DATA_VERSION) {
+    throw new Error('This file was exported by a newer version of GregoSwap. Update the app to import it');
+  }
+  return {
+    app: LOCAL_DATA_APP,
+    version: data.version,
+    exportedAt: data.exportedAt ?? 0,
+    account: data.account,
+    sentTransfers: data.sentTransfers ?? [],
+    subscriptions: data.subscriptions ?? [],
+    onboardingComplete: data.onboardingComplete ?? false,
+    networks: isEntry(data.networks) && !Array.isArray(data.networks) ? data.networks : {},
+  };
+}
+
+// Shape checks for the file's entries, which may have been edited by hand. They cover what the app reads
+// without guarding, such as the amounts it parses and the timestamps it sorts by.
+
+type Entry = Record<string, unknown>;
+
+function isEntry(value: unknown): value is Entry {
+  return typeof value === 'object' && value !== null;
+}
+
+function isAmount(value: unknown): value is string {
+  return typeof value === 'string' && /^\d+(\.\d+)?$/.test(value);
+}
+
+function isTimestamp(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+const SENT_TRANSFER_STATUSES: readonly unknown[] = ['pending', 'confirmed', 'dropped', 'expired'];
+
+function isSentTransfer(value: unknown): value is SentTransfer {
+  return (
+    isEntry(value) &&
+    typeof value.id === 'string' &&
+    typeof value.txHash === 'string' &&
+    typeof value.token === 'string' &&
+    isAmount(value.amount) &&
+    typeof value.recipient === 'string' &&
+    typeof value.link === 'string' &&
+    isTimestamp(value.createdAt) &&
+    SENT_TRANSFER_STATUSES.includes(value.status) &&
+    (value.decimals === undefined || typeof value.decimals === 'number')
+  );
+}
+
+function isSwapRecord(value: unknown): value is SwapRecord {
+  return (
+    isEntry(value) &&
+    typeof value.id === 'string' &&
+    typeof value.tokenIn === 'string' &&
+    typeof value.tokenOut === 'string' &&
+    isAmount(value.amountIn) &&
+    isAmount(value.amountOut) &&
+    isAmount(value.amountLimit) &&
+    typeof value.effectivePrice === 'number' &&
+    (value.status === 'pending' || value.status === 'confirmed' || value.status === 'failed') &&
+    isTimestamp(value.createdAt)
+  );
+}
+
+function isLiquidityRecord(value: unknown): value is LiquidityRecord {
+  return (
+    isEntry(value) &&
+    typeof value.id === 'string' &&
+    typeof value.txHash === 'string' &&
+    typeof value.pool === 'string' &&
+    (value.kind === 'add' || value.kind === 'remove') &&
+    isAmount(value.amount0) &&
+    isAmount(value.amount1) &&
+    isAmount(value.liquidity) &&
+    isTimestamp(value.createdAt)
+  );
+}
+
+function isImportedToken(value: unknown): value is ImportedToken {
+  return (
+    isEntry(value) &&
+    typeof value.key === 'string' &&
+    typeof value.address === 'string' &&
+    typeof value.symbol === 'string' &&
+    typeof value.name === 'string' &&
+    Number.isInteger(value.decimals)
+  );
+}
+
+function isClaimedLink(value: unknown): value is ClaimedLink {
+  return (
+    isEntry(value) &&
+    typeof value.txHash === 'string' &&
+    typeof value.recipient === 'string' &&
+    typeof value.claimedBy === 'string' &&
+    isTimestamp(value.claimedAt)
+  );
+}
+
+function isStoredSubscription(value: unknown): value is StoredSubscription {
+  return isEntry(value) && typeof value.fpcAddress === 'string' && Number.isInteger(value.configIndex);
+}
+
+/**
+ * Keeps the entries of a list read from the file that pass the check, adding the others to the skipped count
+ */
+function readEntries<T>(list: unknown, isValid: (value: unknown) => value is T, summary: LocalDataImportSummary): T[] {
+  if (list === undefined) return [];
+  if (!Array.isArray(list)) {
+    summary.skipped++;
+    return [];
+  }
+  const entries = list.filter(isValid);
+  summary.skipped += list.length - entries.length;
+  return entries;
+}
+
+/**
+ * Merges two histories by id, newest first. On a clash the stored record stays unless `prefer` picks the
+ * imported one.
+ */
+function mergeRecords<T extends { id: string; createdAt: number }>(
+  stored: T[],
+  imported: T[],
+  prefer: (stored: T, imported: T) => T = existing => existing,
+): { records: T[]; added: number } {
+  const byId = new Map(stored.map(record => [record.id, record]));
+  let added = 0;
+  for (const record of imported) {
+    const existing = byId.get(record.id);
+    if (!existing) added++;
+    byId.set(record.id, existing ? prefer(existing, record) : record);
+  }
+  return { records: [...byId.values()].sort((a, b) => b.createdAt - a.createdAt), added };
+}
+
+/**
+ * Merges an exported file into this browser's data for the same account. Entries already here are kept, so
+ * importing a file twice changes nothing, and malformed ones in the file are skipped. Sent transfers and
+ * swaps still pending here take the status from the file when it has settled there.
+ */
+export function importLocalData(data: LocalDataExport, account: string): LocalDataImportSummary {
+  if (data.account.toLowerCase() !== account.toLowerCase()) {
+    throw new Error(`This file holds the data of ${data.account}, not of the connected account`);
+  }
+
+  const summary: LocalDataImportSummary = {
+    sentTransfers: 0,
+    swaps: 0,
+    liquidityRecords: 0,
+    importedTokens: 0,
+    claimedLinks: 0,
+    subscriptions: 0,
+    skipped: 0,
+  };
+
+  const importedSent = readEntries(data.sentTransfers, isSentTransfer, summary);
+  const sent = mergeRecords(getSentTransfers(account), importedSent, (stored, imported) =>
+    stored.status === 'pending' && imported.status !== 'pending' ? imported : stored,
+  );
+  saveSentTransfers(account, sent.records);
+  summary.sentTransfers = sent.added;
+
+  for (const [networkId, networkData] of Object.entries(data.networks)) {
+    if (!isEntry(networkData)) {
+      summary.skipped++;
+      continue;
+    }
+
+    const importedSwaps = readEntries(networkData.swapHistory, isSwapRecord, summary);
+    const swaps = mergeRecords(getSwapHistory(networkId, account), importedSwaps, (stored, imported) =>
+      stored.status === 'pending' && imported.status !== 'pending' ? imported : stored,
+    );
+    saveSwapHistory(networkId, account, swaps.records);
+    summary.swaps += swaps.added;
+
+    const importedLiquidity = readEntries(networkData.liquidityHistory, isLiquidityRecord, summary);
+    const liquidity = mergeRecords(getLiquidityHistory(networkId, account), importedLiquidity);
+    saveLiquidityHistory(networkId, account, liquidity.records);
+    summary.liquidityRecords += liquidity.added;
+
+    const storedTokens = new Set(getImportedTokens(networkId).map(t => t.key));
+    for (const token of readEntries(networkData.importedTokens, isImportedToken, summary)) {
+      if (storedTokens.has(token.key)) continue;
+      saveImportedToken(networkId, token);
+      summary.importedTokens++;
+    }
+
+    const storedClaims = getClaimedLinks(networkId);
+    for (const claim of readEntries(networkData.claimedLinks, isClaimedLink, summary)) {
+      if (storedClaims.some(c => c.txHash === claim.txHash && c.recipient === claim.recipient)) continue;
+      addClaimedLink(networkId, claim);
+      summary.claimedLinks++;
+    }
+  }
+
+  const storedSubscriptions = getStoredSubscriptions(account);
+  for (const { fpcAddress, configIndex } of readEntries(data.subscriptions, isStoredSubscription, summary)) {
+    if (storedSubscriptions.some(s => s.fpcAddress === fpcAddress && s.configIndex === configIndex)) continue;
+    markSubscribed(fpcAddress, configIndex, account);
+    summary.subscriptions++;
+  }
+
+  if (data.onboardingComplete === true) {
+    setOnboardingComplete(account, true);
+  }
+
+  return summary;
+}
+
+/**
+ * Builds a CSV of the sent transfers for bookkeeping, one row per transfer, newest first. The network gives
+ * the decimals of transfers recorded before tokens could be imported
+ */
+export function buildSentTransfersCsv(transfers: SentTransfer[], network: NetworkConfig): string {
+  return toCsv(
+    ['date', 'network', 'token', 'amount', 'recipient', 'bearer', 'status', 'tx_hash', 'claim_link'],
+    transfers.map(transfer => {
+      const { symbol, decimals } = getSentTransferToken(transfer, network);
+      return [
+        new Date(transfer.createdAt).toISOString(),
+        transfer.networkId ?? '',
+        symbol,
+        new TokenAmount(parseStoredAmount(transfer.amount), decimals).format(),
+        transfer.recipient,
+        transfer.bearer ? 'yes' : 'no',
+        transfer.status,
+        transfer.txHash,
+        transfer.link,
+      ];
+    }),
+  );
+}
@@ -3,42 +3,285 @@
  * Encodes/decodes offchain transfer messages into shareable URLs
  */
 
+import type { TokenKey } from '../types';
+
+/** Short codes of the GregoCoin tokens, the only ones links could carry before tokens could be imported */
+export type LinkTokenCode = 'gc' | 'gcp';
+
 export interface TransferLink {
-  token: 'gc' | 'gcp';
+  /** Network the transfer was sent on. Missing from v1 links */
+  networkId?: string;
+  /** Set for the GregoCoin tokens only */
+  token?: LinkTokenCode;
+  /** Symbol and decimals of the token, so claimers who haven't imported it can see what they receive */
+  symbol?: string;
+  decimals?: number;
+  /** Amount in token base units */
   amount: string;
   recipient: string;
-  contractAddress: string;
+  /** Compact links leave it out for tokens with a short code, which the network config resolves */
+  contractAddress?: string;
   txHash: string;
   anchorBlockTimestamp: string;
   payload: string[];
+  /**
+   * Secret key of the throwaway account a bearer link's transfer was sent to. Anyone holding the link can
+   * claim it; it only ever travels in the URL fragment, which browsers don't send to servers.
+   */
+  bearerSecret?: string;
 }
 
-export function encodeTransferLink(data: TransferLink): string {
-  const json = JSON.stringify(data);
-  const encoded = btoa(json)
+export function getLinkTokenKey(token: LinkTokenCode): TokenKey {
+  return token === 'gc' ? 'gregoCoin' : 'gregoCoinPremium';
+}
+
+export function getLinkTokenCode(tokenKey: TokenKey): LinkTokenCode | undefined {
+  if (tokenKey === 'gregoCoin') return 'gc';
+  if (tokenKey === 'gregoCoinPremium') return 'gcp';
+  return undefined;
+}
+
+// ── Compact encoding ────────────────────────────────────────────────
+// v1 links are base64url JSON. From v2 a link is base64url bytes:
+//   version (1) | flags (1, from v3) | network id (string)
+//   | token id (1) [address (32) | symbol (string) | decimals (1)]
+//   | amount (uint) | recipient (32) | tx hash (32) | anchor block timestamp (uint)
+//   | payload length (2) | payload fields (32 each) | [bearer secret (32)] | CRC-32 of everything before it (4)
+// Strings and uints are prefixed with their byte length. Token id 0 means the token is given by address;
+// the GregoCoin tokens use their short ids and leave the address to the network config. The bearer secret
+// is only there when the bearer flag is set.
+
+const LINK_VERSION = 3;
+/** First version with a flags byte */
+const FLAGS_VERSION = 3;
+const FLAG_BEARER = 0x01;
+const FIELD_SIZE = 32;
+const CHECKSUM_SIZE = 4;
+/** First byte of a v1 link, the `{` opening its JSON */
+const LEGACY_LINK_PREFIX = 0x7b;
+const TOKEN_BY_ADDRESS = 0;
+const TOKEN_IDS: Record<LinkTokenCode, number> = { gc: 1, gcp: 2 };
+
+function corrupted(reason: string): Error {
+  return new Error(`Corrupted claim link: ${reason}`);
+}
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function fieldToBytes(hex: string): number[] {
+  const digits = hex.replace(/^0x/, '');
+  if (!/^[0-9a-fA-F]{1,64}$/.test(digits)) {
+    throw new Error(`Not a field element: ${hex}`);
+  }
+  return digits
+    .padStart(FIELD_SIZE * 2, '0')
+    .match(/../g)!
+    .map(byte => parseInt(byte, 16));
+}
+
+function bytesToField(bytes: Uint8Array): string {
+  return `0x${Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function withLength(bytes: number[]): number[] {
+  if (bytes.length > 0xff) {
+    throw new Error('Value too long for a claim link');
+  }
+  return [bytes.length, ...bytes];
+}
+
+function uintToBytes(value: bigint): number[] {
+  const bytes: number[] = [];
+  for (let rest = value; rest > 0n; rest >>= 8n) {
+    bytes.unshift(Number(rest & 0xffn));
+  }
+  return withLength(bytes);
+}
+
+function textToBytes(text: string): number[] {
+  return withLength(Array.from(new TextEncoder().encode(text)));
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
     .replace(/\+/g, '-')
     .replace(/\//g, '_')
     .replace(/=/g, '');
-  return `${window.location.origin}/#/claim/${encoded}`;
 }
 
-export function decodeTransferLink(encoded: string): TransferLink {
+function fromBase64Url(encoded: string): Uint8Array {
   const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
-  const json = atob(base64);
-  return JSON.parse(json) as TransferLink;
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
 }
 
+/** Reads the fields of a link in order, failing as corrupted if the link ends early */
+function createLinkReader(bytes: Uint8Array) {
+  let offset = 0;
+  const take = (length: number) => {
+    if (offset + length > bytes.length) throw corrupted('link is truncated');
+    const out = bytes.subarray(offset, offset + length);
+    offset += length;
+    return out;
+  };
+  const byte = () => take(1)[0];
+
+  return {
+    byte,
+    field: () => bytesToField(take(FIELD_SIZE)),
+    uint: () => take(byte()).reduce((value, b) => (value << 8n) | BigInt(b), 0n),
+    text: () => new TextDecoder().decode(take(byte())),
+    isDone: () => offset === bytes.length,
+  };
+}
+
+function encodeLinkBytes(data: TransferLink): Uint8Array {
+  if (!data.networkId) {
+    throw new Error('Claim links need the network the transfer was sent on');
+  }
+
+  const token: number[] = [];
+  if (data.token) {
+    token.push(TOKEN_IDS[data.token]);
+  } else if (data.contractAddress) {
+    token.push(
+      TOKEN_BY_ADDRESS,
+      ...fieldToBytes(data.contractAddress),
+      ...textToBytes(data.symbol ?? ''),
+      data.decimals ?? 0,
+    );
+  } else {
+    throw new Error('Claim links need the token contract address');
+  }
+
+  const body = [
+    LINK_VERSION,
+    data.bearerSecret ? FLAG_BEARER : 0,
+    ...textToBytes(data.networkId),
+    ...token,
+    ...uintToBytes(BigInt(data.amount)),
+    ...fieldToBytes(data.recipient),
+    ...fieldToBytes(data.txHash),
+    ...uintToBytes(BigInt(data.anchorBlockTimestamp)),
+    data.payload.length >> 8,
+    data.payload.length & 0xff,
+    ...data.payload.flatMap(fieldToBytes),
+    ...(data.bearerSecret ? fieldToBytes(data.bearerSecret) : []),
+  ];
+
+  const checksum = crc32(Uint8Array.from(body));
+  return Uint8Array.from([
+    ...body,
+    checksum >>> 24,
+    (checksum >>> 16) & 0xff,
+    (checksum >>> 8) & 0xff,
+    checksum & 0xff,
+  ]);
+}
+
+function decodeLinkBytes(bytes: Uint8Array): TransferLink {
+  if (bytes.length < CHECKSUM_SIZE + 1) throw corrupted('link is truncated');
+
+  const body = bytes.subarray(0, bytes.length - CHECKSUM_SIZE);
+  const checksum = new DataView(bytes.buffer, bytes.byteOffset + body.length, CHECKSUM_SIZE).getUint32(0);
+  if (crc32(body) !== checksum) throw corrupted('checksum mismatch');
+
+  const reader = createLinkReader(body);
+  const version = reader.byte();
+  if (version < 2 || version > LINK_VERSION) throw corrupted(`unsupported version ${version}`);
+  const flags = version >= FLAGS_VERSION ? reader.byte() : 0;
+
+  const data: Partial<TransferLink> = { networkId: reader.text() };
+  const tokenId = reader.byte();
+  if (tokenId === TOKEN_BY_ADDRESS) {
+    data.contractAddress = reader.field();
+    data.symbol = reader.text() || undefined;
+    data.decimals = reader.byte();
+  } else {
+    const code = (Object.keys(TOKEN_IDS) as LinkTokenCode[]).find(c => TOKEN_IDS[c] === tokenId);
+    if (!code) throw corrupted(`unknown token id ${tokenId}`);
+    data.token = code;
+  }
+
+  data.amount = reader.uint().toString();
+  data.recipient = reader.field();
+  data.txHash = reader.field();
+  data.anchorBlockTimestamp = reader.uint().toString();
+  const payloadLength = (reader.byte() << 8) | reader.byte();
+  data.payload = Array.from({ length: payloadLength }, reader.field);
+  if (flags & FLAG_BEARER) data.bearerSecret = reader.field();
+  if (!reader.isDone()) throw corrupted('unexpected trailing data');
+
+  return data as TransferLink;
+}
+
+function decodeLegacyLink(bytes: Uint8Array): TransferLink {
+  let data: TransferLink;
+  try {
+    data = JSON.parse(new TextDecoder().decode(bytes)) as TransferLink;
+  } catch {
+    throw corrupted('link is truncated');
+  }
+  const isComplete =
+    typeof data.amount === 'string' &&
+    typeof data.recipient === 'string' &&
+    typeof data.contractAddress === 'string' &&
+    typeof data.txHash === 'string' &&
+    typeof data.anchorBlockTimestamp === 'string' &&
+    Array.isArray(data.payload);
+  if (!isComplete) throw corrupted('missing transfer fields');
+  return data;
+}
+
+export function encodeTransferLink(data: TransferLink): string {
+  return `${window.location.origin}/#/claim/${toBase64Url(encodeLinkBytes(data))}`;
+}
+
+/**
+ * Decodes a link's claim payload, current or v1. Throws a "Corrupted claim link" error if it was cut off,
+ * altered, or isn't a claim link at all.
+ */
+export function decodeTransferLink(encoded: string): TransferLink {
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(encoded);
+  } catch {
+    throw corrupted('not a claim link');
+  }
+  if (bytes.length === 0) throw corrupted('link is empty');
+  return bytes[0] === LEGACY_LINK_PREFIX ? decodeLegacyLink(bytes) : decodeLinkBytes(bytes);
+}
+
+/**
+ * Reads the claim payload from the URL. Returns null when not on a claim route and throws
+ * if the link is corrupted.
+ */
 export function extractClaimPayload(): TransferLink | null {
   const hash = window.location.hash;
   const prefix = '#/claim/';
   if (!hash.startsWith(prefix)) {
     return null;
   }
-  try {
-    return decodeTransferLink(hash.slice(prefix.length));
-  } catch {
-    return null;
-  }
+  return decodeTransferLink(hash.slice(prefix.length));
+}
+
+/**
+ * Re-encodes a full claim link in the current format for this app's origin, so links recorded before a
+ * format change, or on another deployment, can be shared again
+ */
+export function regenerateTransferLink(link: string): string {
+  const prefix = '#/claim/';
+  const index = link.indexOf(prefix);
+  if (index === -1) throw corrupted('not a claim link');
+  return encodeTransferLink(decodeTransferLink(link.slice(index + prefix.length)));
 }
 
 export function isClaimRoute(): boolean {
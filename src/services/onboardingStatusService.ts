@@ -0,0 +1,24 @@
+/**
+ * Onboarding Status Service
+ * localStorage marker of the accounts that completed onboarding in this browser
+ */
+
+function storageKey(address: string): string {
+  return `onboarding_complete_${address}`;
+}
+
+export function isOnboardingComplete(address: string): boolean {
+  try {
+    return localStorage.getItem(storageKey(address)) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function setOnboardingComplete(address: string, completed: boolean): void {
+  try {
+    localStorage.setItem(storageKey(address), String(completed));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
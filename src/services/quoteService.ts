@@ -0,0 +1,128 @@
+/**
+ * Quote Service
+ * Pure functions for pricing swaps against the AMM reserves.
+ * The formulas mirror `get_amount_out` / `get_amount_in` in contracts/amm/src/lib.nr,
+ * so quotes match what the contract will charge down to the last base unit.
+ */
+
+import { BigDecimal } from '../utils/bigDecimal';
+import type { PoolReserves, SwapDirection } from '../types';
+
+/**
+ * Given an input amount and pair balances, returns the output amount the AMM pays out (0.3% fee on the input).
+ * Returns null where the contract would revert (zero input or empty pool).
+ */
+export function getAmountOut(amountIn: bigint, balanceIn: bigint, balanceOut: bigint): bigint | null {
+  if (amountIn <= 0n || balanceIn <= 0n || balanceOut <= 0n) return null;
+
+  const amountInWithFee = amountIn * 997n;
+  const numerator = amountInWithFee * balanceOut;
+  const denominator = balanceIn * 1000n + amountInWithFee;
+  return numerator / denominator;
+}
+
+/**
+ * Given an output amount and pair balances, returns the input amount the AMM charges (0.3% fee, rounded up).
+ * Returns null where the contract would revert (zero output, empty pool, or more than the pool holds).
+ */
+export function getAmountIn(amountOut: bigint, balanceIn: bigint, balanceOut: bigint): bigint | null {
+  if (amountOut <= 0n || balanceIn <= 0n || balanceOut <= 0n) return null;
+  if (amountOut >= balanceOut) return null;
+
+  const numerator = balanceIn * amountOut * 1000n;
+  const denominator = (balanceOut - amountOut) * 997n;
+  return numerator / denominator + 1n;
+}
+
+/**
+ * Resolves the pool balances of the input and output token for a swap direction.
+ * A token the pool doesn't hold has a balance of 0, so every quote against it is null.
+ */
+export function getDirectionalReserves(
+  reserves: PoolReserves,
+  { tokenIn, tokenOut }: SwapDirection,
+): { balanceIn: bigint; balanceOut: bigint } {
+  return { balanceIn: reserves[tokenIn] ?? 0n, balanceOut: reserves[tokenOut] ?? 0n };
+}
+
+/**
+ * Quotes the output of selling exactly `amountIn` in the given direction
+ */
+export function quoteExactIn(reserves: PoolReserves, direction: SwapDirection, amountIn: bigint): bigint | null {
+  const { balanceIn, balanceOut } = getDirectionalReserves(reserves, direction);
+  return getAmountOut(amountIn, balanceIn, balanceOut);
+}
+
+/**
+ * Quotes the input needed to buy exactly `amountOut` in the given direction
+ */
+export function quoteExactOut(reserves: PoolReserves, direction: SwapDirection, amountOut: bigint): bigint | null {
+  const { balanceIn, balanceOut } = getDirectionalReserves(reserves, direction);
+  return getAmountIn(amountOut, balanceIn, balanceOut);
+}
+
+/**
+ * Spot price (output tokens per input token) for display, ignoring fee and price impact
+ */
+export function getSpotRate(reserves: PoolReserves, direction: SwapDirection): number | null {
+  const { balanceIn, balanceOut } = getDirectionalReserves(reserves, direction);
+  if (balanceIn <= 0n || balanceOut <= 0n) return null;
+  return parseFloat(new BigDecimal(balanceOut).divide(new BigDecimal(balanceIn)).toString());
+}
+
+/**
+ * Lowest output an exact-input swap accepts before reverting, given a slippage tolerance in basis points
+ */
+export function getMinimumReceived(amountOut: bigint, slippageBps: number): bigint {
+  return (amountOut * BigInt(10000 - slippageBps)) / 10000n;
+}
+
+/**
+ * Highest input an exact-output swap spends before reverting, given a slippage tolerance in basis points
+ */
+export function getMaximumSold(amountIn: bigint, slippageBps: number): bigint {
+  return (amountIn * BigInt(10000 + slippageBps)) / 10000n;
+}
+
+/**
+ * Breakdown of a quoted swap against the current reserves
+ */
+export interface SwapDetails {
+  /** Output per input at the current reserves, before fee and price impact */
+  spotRate: number;
+  /** Output per input actually received for this size */
+  executionRate: number;
+  /** How much worse the execution price is than spot, excluding the LP fee, in percent */
+  priceImpactPct: number;
+  /** LP fee charged on the input, in input token base units */
+  lpFee: bigint;
+  reserveIn: bigint;
+  reserveOut: bigint;
+}
+
+/**
+ * Computes price impact, LP fee and execution price for a quoted swap
+ */
+export function getSwapDetails(
+  reserves: PoolReserves,
+  direction: SwapDirection,
+  amountIn: bigint,
+  amountOut: bigint,
+): SwapDetails | null {
+  const { balanceIn, balanceOut } = getDirectionalReserves(reserves, direction);
+  if (amountIn <= 0n || amountOut <= 0n || balanceIn <= 0n || balanceOut <= 0n) return null;
+
+  // Execution price relative to the spot price after the 0.3% fee, in parts per million:
+  //    (amountOut / amountIn) / (balanceOut / balanceIn * 0.997)
+  const executionVsSpotPpm = (amountOut * balanceIn * 1000n * 1_000_000n) / (amountIn * balanceOut * 997n);
+  const priceImpactPpm = executionVsSpotPpm < 1_000_000n ? 1_000_000n - executionVsSpotPpm : 0n;
+
+  return {
+    spotRate: parseFloat(new BigDecimal(balanceOut).divide(new BigDecimal(balanceIn)).toString()),
+    executionRate: parseFloat(new BigDecimal(amountOut).divide(new BigDecimal(amountIn)).toString()),
+    priceImpactPct: Number(priceImpactPpm) / 10_000,
+    lpFee: (amountIn * 3n) / 1000n,
+    reserveIn: balanceIn,
+    reserveOut: balanceOut,
+  };
+}
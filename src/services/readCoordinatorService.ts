@@ -0,0 +1,97 @@
+/**
+ * Read Coordinator Service
+ * Coalesces the on-chain reads requested in the same tick into as few BatchCall simulations as possible: one
+ * per account the reads have to be simulated from. The same read requested twice is simulated once and its
+ * result handed to every caller.
+ */
+
+import type { AztecAddress } from '@aztec/aztec.js/addresses';
+import type { Wallet } from '@aztec/aztec.js/wallet';
+import { BatchCall, type ContractFunctionInteraction } from '@aztec/aztec.js/contracts';
+
+export interface ReadQuery {
+  /** Identifies the read, so identical reads in a tick share one call */
+  key: string;
+  /** Account the read is simulated as. Private reads must come from the account whose notes they scan */
+  from: AztecAddress;
+  call: ContractFunctionInteraction;
+}
+
+export interface ReadCoordinator {
+  /** Queues the reads for the next flush and resolves with their results, in order */
+  read: (queries: ReadQuery[]) => Promise<unknown[]>;
+}
+
+interface PendingRead {
+  query: ReadQuery;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Creates a coordinator simulating reads through the given wallet. The wallet simulates a BatchCall as a single
+ * transaction, so when one read fails the batch, its reads are retried one by one and only the failing ones
+ * are rejected.
+ */
+export function createReadCoordinator(wallet: Wallet): ReadCoordinator {
+  // Reads queued for the next flush, by sender and then by key
+  let queued = new Map<string, Map<string, PendingRead[]>>();
+  let isFlushScheduled = false;
+
+  async function simulateGroup(reads: Map<string, PendingRead[]>) {
+    const waiting = [...reads.values()];
+    const [{ query: first }] = waiting[0];
+    try {
+      const results = await new BatchCall(
+        wallet,
+        waiting.map(([{ query }]) => query.call),
+      ).simulate({ from: first.from });
+      waiting.forEach((callers, i) => callers.forEach(caller => caller.resolve(results[i].result)));
+    } catch (error) {
+      if (waiting.length === 1) {
+        waiting[0].forEach(caller => caller.reject(error));
+        return;
+      }
+      await Promise.all(waiting.map(simulateAlone));
+    }
+  }
+
+  async function simulateAlone(callers: PendingRead[]) {
+    const [{ query }] = callers;
+    try {
+      const { result } = await query.call.simulate({ from: query.from });
+      callers.forEach(caller => caller.resolve(result));
+    } catch (error) {
+      callers.forEach(caller => caller.reject(error));
+    }
+  }
+
+  function flush() {
+    const groups = queued;
+    queued = new Map();
+    isFlushScheduled = false;
+    for (const reads of groups.values()) {
+      simulateGroup(reads);
+    }
+  }
+
+  function enqueue(query: ReadQuery): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const sender = query.from.toString();
+      const reads = queued.get(sender) ?? new Map<string, PendingRead[]>();
+      queued.set(sender, reads);
+      reads.set(query.key, [...(reads.get(query.key) ?? []), { query, resolve, reject }]);
+
+      if (!isFlushScheduled) {
+        isFlushScheduled = true;
+        setTimeout(flush, 0);
+      }
+    });
+  }
+
+  return {
+    read(queries: ReadQuery[]): Promise<unknown[]> {
+      return Promise.all(queries.map(enqueue));
+    },
+  };
+}
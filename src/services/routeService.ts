@@ -0,0 +1,231 @@
+/**
+ * Route Service
+ * Pure functions for routing swaps across the configured pools. Paths are enumerated over the pool graph and
+ * each hop is priced with the single-pool formulas in quoteService, so a route's quote matches what its AMMs
+ * will charge.
+ */
+
+import { BigDecimal } from '../utils/bigDecimal';
+import { getDirectionalReserves, getAmountIn, getAmountOut, getMaximumSold, getMinimumReceived } from './quoteService';
+import type { SwapDetails } from './quoteService';
+import type { PoolConfig } from '../config/networks';
+import type { Balances, PoolReserves, SwapAmounts, SwapDirection, SwapMode, TokenKey } from '../types';
+
+/** Longest route considered. Every hop adds an AMM call to the transaction and another 0.3% fee */
+export const MAX_ROUTE_HOPS = 3;
+
+/** One swap through a single pool */
+export interface RouteHop {
+  /** Key of the pool the hop trades through */
+  pool: string;
+  tokenIn: TokenKey;
+  tokenOut: TokenKey;
+}
+
+export interface QuotedHop extends RouteHop {
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+/** A route priced at the current reserves for the amount the user entered */
+export interface QuotedRoute {
+  hops: QuotedHop[];
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+/**
+ * Enumerates every path from the input to the output token over the given pools, shortest first.
+ * A path never visits a token twice, so it never trades through the same pool twice either.
+ */
+export function findRoutes(
+  pools: PoolConfig[],
+  { tokenIn, tokenOut }: SwapDirection,
+  maxHops = MAX_ROUTE_HOPS,
+): RouteHop[][] {
+  const routes: RouteHop[][] = [];
+
+  const extend = (path: RouteHop[], token: TokenKey, visited: Set<TokenKey>) => {
+    if (token === tokenOut) {
+      routes.push(path);
+      return;
+    }
+    if (path.length === maxHops) return;
+
+    for (const pool of pools) {
+      const next = pool.token0 === token ? pool.token1 : pool.token1 === token ? pool.token0 : null;
+      if (next === null || visited.has(next)) continue;
+      extend([...path, { pool: pool.key, tokenIn: token, tokenOut: next }], next, new Set(visited).add(next));
+    }
+  };
+
+  if (tokenIn !== tokenOut) {
+    extend([], tokenIn, new Set([tokenIn]));
+  }
+  return routes.sort((a, b) => a.length - b.length);
+}
+
+/** Keys of the pools any of the routes trades through */
+export function getRoutePools(routes: RouteHop[][]): string[] {
+  return [...new Set(routes.flatMap(route => route.map(hop => hop.pool)))];
+}
+
+/**
+ * Prices a route for the amount the user entered: exact-input routes are quoted hop by hop from the input,
+ * exact-output routes backwards from the output. Returns null if any hop would revert or a pool's reserves
+ * aren't known.
+ */
+export function quoteRoute(
+  route: RouteHop[],
+  reserves: Record<string, PoolReserves>,
+  mode: SwapMode,
+  amount: bigint,
+): QuotedRoute | null {
+  const hops: QuotedHop[] = [];
+  const ordered = mode === 'exactIn' ? route : [...route].reverse();
+
+  let carried = amount;
+  for (const hop of ordered) {
+    const poolReserves = reserves[hop.pool];
+    if (!poolReserves) return null;
+
+    const { balanceIn, balanceOut } = getDirectionalReserves(poolReserves, hop);
+    if (mode === 'exactIn') {
+      const amountOut = getAmountOut(carried, balanceIn, balanceOut);
+      if (amountOut === null || amountOut <= 0n) return null;
+      hops.push({ ...hop, amountIn: carried, amountOut });
+      carried = amountOut;
+    } else {
+      const amountIn = getAmountIn(carried, balanceIn, balanceOut);
+      if (amountIn === null) return null;
+      hops.unshift({ ...hop, amountIn, amountOut: carried });
+      carried = amountIn;
+    }
+  }
+
+  if (hops.length === 0) return null;
+  return { hops, amountIn: hops[0].amountIn, amountOut: hops[hops.length - 1].amountOut };
+}
+
+/**
+ * Quotes every route and picks the one with the most output (exact input) or the least input (exact output).
+ * Ties go to the shorter route, which costs less to prove. Routes `isUsable` rejects are skipped.
+ */
+export function findBestRoute(
+  routes: RouteHop[][],
+  reserves: Record<string, PoolReserves>,
+  mode: SwapMode,
+  amount: bigint,
+  isUsable: (route: QuotedRoute) => boolean = () => true,
+): QuotedRoute | null {
+  let best: QuotedRoute | null = null;
+  for (const route of routes) {
+    const quote = quoteRoute(route, reserves, mode, amount);
+    if (!quote || !isUsable(quote)) continue;
+    const isBetter =
+      best === null || (mode === 'exactIn' ? quote.amountOut > best.amountOut : quote.amountIn < best.amountIn);
+    if (isBetter) best = quote;
+  }
+  return best;
+}
+
+/**
+ * Spot price (output tokens per input token) along a route, ignoring fees and price impact.
+ * Returns null if any pool on the route is empty or its reserves aren't known.
+ */
+export function getRouteSpotRate(route: RouteHop[], reserves: Record<string, PoolReserves>): number | null {
+  let numerator = 1n;
+  let denominator = 1n;
+  for (const hop of route) {
+    const poolReserves = reserves[hop.pool];
+    if (!poolReserves) return null;
+    const { balanceIn, balanceOut } = getDirectionalReserves(poolReserves, hop);
+    if (balanceIn <= 0n || balanceOut <= 0n) return null;
+    numerator *= balanceOut;
+    denominator *= balanceIn;
+  }
+  if (route.length === 0) return null;
+  return parseFloat(new BigDecimal(numerator).divide(new BigDecimal(denominator)).toString());
+}
+
+/**
+ * Computes price impact, LP fees and execution price for a quoted route. For a single hop this is the same
+ * breakdown as getSwapDetails; across hops the spot price and fees compound, and the reserves shown are those
+ * of the first and last pool.
+ */
+export function getRouteDetails(route: QuotedRoute, reserves: Record<string, PoolReserves>): SwapDetails | null {
+  const { amountIn, amountOut, hops } = route;
+  if (amountIn <= 0n || amountOut <= 0n) return null;
+
+  let balancesIn = 1n;
+  let balancesOut = 1n;
+  let feeFactor = 1n;
+  let feeScale = 1n;
+  for (const hop of hops) {
+    const poolReserves = reserves[hop.pool];
+    if (!poolReserves) return null;
+    const { balanceIn, balanceOut } = getDirectionalReserves(poolReserves, hop);
+    if (balanceIn <= 0n || balanceOut <= 0n) return null;
+    balancesIn *= balanceIn;
+    balancesOut *= balanceOut;
+    feeFactor *= 997n;
+    feeScale *= 1000n;
+  }
+
+  // Execution price relative to the spot price after every hop's 0.3% fee, in parts per million
+  const executionVsSpotPpm = (amountOut * balancesIn * feeScale * 1_000_000n) / (amountIn * balancesOut * feeFactor);
+  const priceImpactPpm = executionVsSpotPpm < 1_000_000n ? 1_000_000n - executionVsSpotPpm : 0n;
+
+  const first = getDirectionalReserves(reserves[hops[0].pool], hops[0]);
+  const last = getDirectionalReserves(reserves[hops[hops.length - 1].pool], hops[hops.length - 1]);
+
+  return {
+    spotRate: parseFloat(new BigDecimal(balancesOut).divide(new BigDecimal(balancesIn)).toString()),
+    executionRate: parseFloat(new BigDecimal(amountOut).divide(new BigDecimal(amountIn)).toString()),
+    priceImpactPct: Number(priceImpactPpm) / 10_000,
+    // Fees compound: each hop keeps 0.3% of what reaches it, valued here in the input token
+    lpFee: amountIn - (amountIn * feeFactor) / feeScale,
+    reserveIn: first.balanceIn,
+    reserveOut: last.balanceOut,
+  };
+}
+
+/**
+ * Splits the swap amounts into the amounts each hop of a route is called with.
+ * The ends of the route keep the user's bounds. Each hop in between trades its quoted amounts and is bounded by
+ * the slippage tolerance like the swap as a whole, so a price move beyond it on any pool reverts the whole route.
+ */
+export function getHopSwapAmounts(route: QuotedRoute, amounts: SwapAmounts, slippageBps: number): SwapAmounts[] {
+  const lastIndex = route.hops.length - 1;
+  return route.hops.map((hop, i) =>
+    amounts.mode === 'exactIn'
+      ? {
+          mode: 'exactIn',
+          amountIn: i === 0 ? amounts.amountIn : hop.amountIn,
+          amountOutMin: i === lastIndex ? amounts.amountOutMin : getMinimumReceived(hop.amountOut, slippageBps),
+        }
+      : {
+          mode: 'exactOut',
+          amountOut: i === lastIndex ? amounts.amountOut : hop.amountOut,
+          amountInMax: i === 0 ? amounts.amountInMax : getMaximumSold(hop.amountIn, slippageBps),
+        },
+  );
+}
+
+/**
+ * Finds the first intermediate token a route needs more of than the user holds privately. Every hop after the
+ * first spends its input from the user's private balance before the previous hop's output replenishes it, so
+ * the user must already hold what getHopSwapAmounts calls that hop with. Returns null if every hop is covered.
+ */
+export function findUnfundedHop(
+  route: QuotedRoute,
+  mode: SwapMode,
+  slippageBps: number,
+  balances: Balances,
+): { token: TokenKey; amount: bigint } | null {
+  for (const hop of route.hops.slice(1)) {
+    const amount = mode === 'exactIn' ? hop.amountIn : getMaximumSold(hop.amountIn, slippageBps);
+    if ((balances[hop.tokenIn] ?? 0n) < amount) return { token: hop.tokenIn, amount };
+  }
+  return null;
+}
@@ -3,14 +3,35 @@
  * localStorage CRUD for tracking sent offchain transfers
  */
 
-export type SentTransferStatus = 'pending' | 'confirmed' | 'expired';
+import type { TokenKey } from '../types';
+import { getTokenDecimals, type NetworkConfig } from '../config/networks';
+import { getLinkTokenKey, type LinkTokenCode } from './offchainLinkService';
+
+export type SentTransferStatus =
+  | 'pending' // submitted, not seen mined yet
+  | 'confirmed' // mined successfully, so the link can be claimed
+  | 'dropped' // the node dropped the tx, or it reverted
+  | 'expired'; // still not mined long after it was sent, given up on
 
 export interface SentTransfer {
+  /** The tx hash, suffixed with the transfer's index when the tx carried several transfers */
   id: string;
-  token: 'gc' | 'gcp';
+  /** Hash of the transfer's tx */
+  txHash: string;
+  /** Token key; transfers recorded before tokens could be imported hold a link code ('gc' | 'gcp') instead */
+  token: TokenKey;
+  /** Symbol and decimals of the token; missing on transfers recorded before tokens could be imported */
+  symbol?: string;
+  decimals?: number;
+  /** Amount in token base units */
   amount: string;
+  /** For bearer links, the throwaway account the link's holder claims from */
   recipient: string;
+  /** Set when anyone holding the link can claim it */
+  bearer?: boolean;
   link: string;
+  /** Network the transfer was sent on; missing on transfers recorded before their status was followed */
+  networkId?: string;
   createdAt: number;
   status: SentTransferStatus;
 }
@@ -29,21 +50,51 @@ export function getSentTransfers(senderAddress: string): SentTransfer[] {
   }
 }
 
+/** Replaces the sender's whole history, newest first */
+export function saveSentTransfers(senderAddress: string, transfers: SentTransfer[]): void {
+  localStorage.setItem(storageKey(senderAddress), JSON.stringify(transfers));
+}
+
+/**
+ * Symbol and decimals of the transfer's token. Transfers recorded before tokens could be imported only hold
+ * the link code of a GregoCoin token, whose decimals are read from the network.
+ */
+export function getSentTransferToken(
+  transfer: SentTransfer,
+  network: NetworkConfig,
+): { symbol: string; decimals: number } {
+  if (transfer.symbol !== undefined && transfer.decimals !== undefined) {
+    return { symbol: transfer.symbol, decimals: transfer.decimals };
+  }
+  return {
+    symbol: transfer.token === 'gc' ? 'GC' : 'GCP',
+    decimals: getTokenDecimals(network, getLinkTokenKey(transfer.token as LinkTokenCode)),
+  };
+}
+
 export function addSentTransfer(senderAddress: string, transfer: SentTransfer): void {
   const existing = getSentTransfers(senderAddress);
   existing.unshift(transfer);
   localStorage.setItem(storageKey(senderAddress), JSON.stringify(existing));
 }
 
-export function updateSentTransferStatus(
-  senderAddress: string,
-  transferId: string,
-  status: SentTransferStatus,
-): void {
+function updateSentTransfer(senderAddress: string, transferId: string, changes: Partial<SentTransfer>): void {
   const transfers = getSentTransfers(senderAddress);
   const index = transfers.findIndex(t => t.id === transferId);
   if (index !== -1) {
-    transfers[index].status = status;
+    transfers[index] = { ...transfers[index], ...changes };
     localStorage.setItem(storageKey(senderAddress), JSON.stringify(transfers));
   }
 }
+
+export function updateSentTransferStatus(
+  senderAddress: string,
+  transferId: string,
+  status: SentTransferStatus,
+): void {
+  updateSentTransfer(senderAddress, transferId, { status });
+}
+
+export function updateSentTransferLink(senderAddress: string, transferId: string, link: string): void {
+  updateSentTransfer(senderAddress, transferId, { link });
+}
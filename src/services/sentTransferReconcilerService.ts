@@ -0,0 +1,69 @@
+/**
+ * Sent Transfer Reconciler Service
+ * Follows pending sent transfers on the node until they are mined, dropped or given up on, and writes the
+ * outcome back to the sent history
+ */
+
+import type { AztecNode } from '@aztec/aztec.js/node';
+import { TxHash } from '@aztec/stdlib/tx';
+import { getReceiptStage } from './txLifecycleService';
+import {
+  getSentTransfers,
+  updateSentTransferStatus,
+  type SentTransfer,
+  type SentTransferStatus,
+} from './sentHistoryService';
+
+/** Transfers still not mined this long after they were sent are marked expired */
+export const SENT_TRANSFER_EXPIRY_MS = 60 * 60 * 1000;
+/** A tx sent through one node may briefly look dropped when the receipt comes from another */
+const DROPPED_GRACE_PERIOD_MS = 30_000;
+
+/**
+ * Reads the status of a sent transfer from the node's receipt for its tx
+ */
+export async function getSentTransferStatus(
+  node: AztecNode,
+  transfer: SentTransfer,
+  now = Date.now(),
+): Promise<SentTransferStatus> {
+  const receipt = await node.getTxReceipt(TxHash.fromString(transfer.txHash));
+  const age = now - transfer.createdAt;
+
+  switch (getReceiptStage(receipt)) {
+    case 'mined':
+    case 'finalized':
+      return receipt.hasExecutionSucceeded() ? 'confirmed' : 'dropped';
+    case 'dropped':
+      return age < DROPPED_GRACE_PERIOD_MS ? 'pending' : 'dropped';
+    default:
+      return age > SENT_TRANSFER_EXPIRY_MS ? 'expired' : 'pending';
+  }
+}
+
+/**
+ * Checks the sender's pending transfers on the given network and stores the ones that settled.
+ * Transfers whose receipt can't be read are left pending for the next round.
+ * Returns whether any transfer changed status.
+ */
+export async function reconcileSentTransfers(
+  node: AztecNode,
+  senderAddress: string,
+  networkId: string,
+): Promise<boolean> {
+  const pending = getSentTransfers(senderAddress).filter(t => t.status === 'pending' && t.networkId === networkId);
+
+  const settled = await Promise.all(
+    pending.map(async transfer => {
+      try {
+        const status = await getSentTransferStatus(node, transfer);
+        if (status === 'pending') return false;
+        updateSentTransferStatus(senderAddress, transfer.id, status);
+        return true;
+      } catch {
+        return false;
+      }
+    }),
+  );
+  return settled.some(Boolean);
+}
@@ -0,0 +1,78 @@
+/**
+ * Swap History Service
+ * localStorage persistence for executed swaps, kept per network and account
+ */
+
+import type { SwapMode, TokenKey } from '../types';
+
+export type SwapRecordStatus =
+  | 'pending' // submitted, not seen mined yet
+  | 'confirmed' // mined successfully
+  | 'failed'; // failed before it was sent, or the node dropped it or it reverted
+
+export interface SwapRecord {
+  id: string;
+  /** Hash from the tx receipt, null if the swap failed before it was sent */
+  txHash: string | null;
+  /** Block the swap was included in, when known */
+  blockNumber?: number;
+  tokenIn: TokenKey;
+  tokenOut: TokenKey;
+  /** Which side was fixed: the other amount is the quote at submission time */
+  mode: SwapMode;
+  /** Amount of the input token in base units */
+  amountIn: string;
+  /** Amount of the output token in base units */
+  amountOut: string;
+  /**
+   * Bound the swap was sent with, in base units: the minimum output of an exact-in swap or the maximum input
+   * of an exact-out one
+   */
+  amountLimit: string;
+  /** Output tokens per input token, in whole tokens */
+  effectivePrice: number;
+  /** Whether the fee was paid by the subscription FPC rather than the user */
+  sponsored: boolean;
+  status: SwapRecordStatus;
+  error?: string;
+  createdAt: number;
+}
+
+function storageKey(networkId: string, accountAddress: string): string {
+  return `gregoswap_swap_history_${networkId}_${accountAddress}`;
+}
+
+export function getSwapHistory(networkId: string, accountAddress: string): SwapRecord[] {
+  try {
+    const raw = localStorage.getItem(storageKey(networkId, accountAddress));
+    if (!raw) return [];
+    return JSON.parse(raw) as SwapRecord[];
+  } catch {
+    return [];
+  }
+}
+
+/** Replaces the account's whole history on the network, newest first */
+export function saveSwapHistory(networkId: string, accountAddress: string, records: SwapRecord[]): void {
+  localStorage.setItem(storageKey(networkId, accountAddress), JSON.stringify(records));
+}
+
+export function addSwapRecord(networkId: string, accountAddress: string, record: SwapRecord): void {
+  const existing = getSwapHistory(networkId, accountAddress);
+  existing.unshift(record);
+  localStorage.setItem(storageKey(networkId, accountAddress), JSON.stringify(existing));
+}
+
+export function updateSwapRecord(
+  networkId: string,
+  accountAddress: string,
+  recordId: string,
+  changes: Partial<SwapRecord>,
+): void {
+  const records = getSwapHistory(networkId, accountAddress);
+  const index = records.findIndex(r => r.id === recordId);
+  if (index !== -1) {
+    records[index] = { ...records[index], ...changes };
+    localStorage.setItem(storageKey(networkId, accountAddress), JSON.stringify(records));
+  }
+}
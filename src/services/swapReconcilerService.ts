@@ -0,0 +1,74 @@
+/**
+ * Swap Reconciler Service
+ * Follows swaps left pending, such as ones still not mined when the swap flow stopped waiting, until they are
+ * mined, dropped or given up on, and writes the outcome back to the swap history
+ */
+
+import type { AztecNode } from '@aztec/aztec.js/node';
+import { TxHash } from '@aztec/stdlib/tx';
+import { getReceiptStage } from './txLifecycleService';
+import { getSwapHistory, updateSwapRecord, type SwapRecord } from './swapHistoryService';
+
+/** Swaps still not mined this long after they were sent are marked failed */
+const SWAP_EXPIRY_MS = 60 * 60 * 1000;
+/** A tx sent through one node may briefly look dropped when the receipt comes from another */
+const DROPPED_GRACE_PERIOD_MS = 30_000;
+
+/**
+ * Reads how a pending swap settled from the node's receipt for its tx, or null while it is still pending
+ */
+async function getSettledSwap(
+  node: AztecNode,
+  record: SwapRecord & { txHash: string },
+  now: number,
+): Promise<Partial<SwapRecord> | null> {
+  const receipt = await node.getTxReceipt(TxHash.fromString(record.txHash));
+  const age = now - record.createdAt;
+
+  switch (getReceiptStage(receipt)) {
+    case 'mined':
+    case 'finalized':
+      return receipt.hasExecutionSucceeded()
+        ? {
+            status: 'confirmed',
+            blockNumber: receipt.blockNumber !== undefined ? Number(receipt.blockNumber) : undefined,
+          }
+        : { status: 'failed', error: `The transaction reverted. Reason: ${receipt.error ?? 'unknown'}` };
+    case 'dropped':
+      return age < DROPPED_GRACE_PERIOD_MS
+        ? null
+        : { status: 'failed', error: 'The network dropped the transaction before it was mined' };
+    default:
+      return age > SWAP_EXPIRY_MS ? { status: 'failed', error: 'The transaction was never mined' } : null;
+  }
+}
+
+/**
+ * Checks the account's pending swaps on the given network and stores the ones that settled.
+ * Swaps whose receipt can't be read are left pending for the next round.
+ * Returns whether any swap changed status.
+ */
+export async function reconcileSwapHistory(
+  node: AztecNode,
+  networkId: string,
+  accountAddress: string,
+): Promise<boolean> {
+  const now = Date.now();
+  const pending = getSwapHistory(networkId, accountAddress).filter(
+    (r): r is SwapRecord & { txHash: string } => r.status === 'pending' && r.txHash !== null,
+  );
+
+  const settled = await Promise.all(
+    pending.map(async record => {
+      try {
+        const changes = await getSettledSwap(node, record, now);
+        if (!changes) return false;
+        updateSwapRecord(networkId, accountAddress, record.id, changes);
+        return true;
+      } catch {
+        return false;
+      }
+    }),
+  );
+  return settled.some(Boolean);
+}
@@ -0,0 +1,40 @@
+/**
+ * Swap Settings Service
+ * localStorage persistence for user swap preferences, kept per network
+ */
+
+export interface SwapSettings {
+  /** Slippage tolerance in basis points (50 = 0.5%) */
+  slippageBps: number;
+  /** Price impact above which the details panel shows a warning, in basis points */
+  priceImpactWarnBps: number;
+  /** Price impact above which the swap needs an extra confirmation, in basis points */
+  priceImpactConfirmBps: number;
+}
+
+export const SLIPPAGE_PRESETS_BPS = [10, 50, 100];
+export const MAX_SLIPPAGE_BPS = 5000;
+
+export const DEFAULT_SWAP_SETTINGS: SwapSettings = {
+  slippageBps: 50,
+  priceImpactWarnBps: 300,
+  priceImpactConfirmBps: 1000,
+};
+
+function storageKey(networkId: string): string {
+  return `gregoswap_swap_settings_${networkId}`;
+}
+
+export function getSwapSettings(networkId: string): SwapSettings {
+  try {
+    const raw = localStorage.getItem(storageKey(networkId));
+    if (!raw) return DEFAULT_SWAP_SETTINGS;
+    return { ...DEFAULT_SWAP_SETTINGS, ...(JSON.parse(raw) as Partial<SwapSettings>) };
+  } catch {
+    return DEFAULT_SWAP_SETTINGS;
+  }
+}
+
+export function saveSwapSettings(networkId: string, settings: SwapSettings): void {
+  localStorage.setItem(storageKey(networkId), JSON.stringify(settings));
+}
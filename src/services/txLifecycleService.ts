@@ -0,0 +1,204 @@
+/**
+ * Tx Lifecycle Service
+ * Shared transaction lifecycle for swaps, sends and drips, driven by the embedded wallet's
+ * progress events and the node's tx receipts
+ */
+
+import type { AztecNode } from '@aztec/aztec.js/node';
+import { TxStatus, type TxHash, type TxReceipt } from '@aztec/stdlib/tx';
+import { txProgress, type TxProgressEvent } from '@gregojuice/embedded-wallet';
+
+export type TxStage =
+  | 'simulating' // executing the call locally to check it will succeed
+  | 'proving' // generating the client-side proof (inside the wallet)
+  | 'submitting' // proof is done, sending the tx to the node
+  | 'pending' // in the node's mempool, not yet in a block
+  | 'mined' // included in a block
+  | 'finalized' // the block is final on L1
+  | 'dropped'; // the node evicted the tx before it was mined
+
+export interface TxLifecycle {
+  stage: TxStage;
+  txHash: string | null;
+  blockNumber: number | null;
+}
+
+export type TxLifecycleUpdate = { stage: TxStage } & Partial<Omit<TxLifecycle, 'stage'>>;
+
+export type TxLifecycleListener = (update: TxLifecycleUpdate) => void;
+
+const RECEIPT_POLL_INTERVAL_MS = 1000;
+const MINING_TIMEOUT_MS = 5 * 60 * 1000;
+/** A tx sent to one node may briefly look dropped when the receipt comes from another */
+const DROPPED_GRACE_PERIOD_MS = 5000;
+const FINALIZATION_POLL_INTERVAL_MS = 12_000;
+
+/**
+ * Maps a receipt's status to a lifecycle stage
+ */
+export function getReceiptStage(receipt: TxReceipt): TxStage {
+  switch (receipt.status) {
+    case TxStatus.DROPPED:
+      return 'dropped';
+    case TxStatus.PENDING:
+      return 'pending';
+    case TxStatus.FINALIZED:
+      return 'finalized';
+    default:
+      return 'mined';
+  }
+}
+
+/**
+ * Builds the lifecycle update for a receipt returned by the wallet or the node
+ */
+export function getReceiptUpdate(receipt: TxReceipt): TxLifecycleUpdate {
+  return {
+    stage: getReceiptStage(receipt),
+    txHash: receipt.txHash.toString(),
+    blockNumber: receipt.blockNumber !== undefined ? Number(receipt.blockNumber) : null,
+  };
+}
+
+/**
+ * Forwards the embedded wallet's progress events as lifecycle updates.
+ * External wallets prove and submit on their side, so nothing is reported for them here.
+ * Returns an unsubscribe function.
+ */
+export function watchEmbeddedWalletProgress(onUpdate: TxLifecycleListener): () => void {
+  return txProgress.subscribe((event: TxProgressEvent) => {
+    const txHash = event.aztecTxHash;
+    switch (event.phase) {
+      case 'simulating':
+        onUpdate({ stage: 'simulating' });
+        break;
+      case 'proving':
+        onUpdate({ stage: 'proving' });
+        break;
+      case 'sending':
+        onUpdate({ stage: 'submitting', txHash });
+        break;
+      case 'mining':
+        onUpdate({ stage: 'pending', txHash });
+        break;
+    }
+  });
+}
+
+/**
+ * Describes the lifecycle stage. External wallets prove and submit on their side without
+ * telling us, so proving reads as waiting on the wallet.
+ */
+export function getTxStageLabel(lifecycle: TxLifecycle, isUsingEmbeddedWallet: boolean): string {
+  const block = lifecycle.blockNumber !== null ? ` in block ${lifecycle.blockNumber}` : '';
+
+  switch (lifecycle.stage) {
+    case 'simulating':
+      return 'Simulating transaction...';
+    case 'proving':
+      return isUsingEmbeddedWallet ? 'Generating proof...' : 'Waiting for your wallet to prove and send...';
+    case 'submitting':
+      return 'Submitting to the network...';
+    case 'pending':
+      return 'Waiting to be included in a block...';
+    case 'mined':
+      return `Mined${block}, finalizing...`;
+    case 'finalized':
+      return `Finalized${block}`;
+    case 'dropped':
+      return 'Dropped by the network before it was mined';
+  }
+}
+
+/**
+ * Abbreviates a tx hash for display
+ */
+export function shortTxHash(txHash: string): string {
+  return `${txHash.slice(0, 10)}...${txHash.slice(-6)}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Polls the node until a submitted tx is mined, reporting each stage change. Failed receipt fetches are retried.
+ * Throws if the tx is dropped, reverts, or isn't mined within the timeout.
+ */
+export async function waitForMined(
+  node: AztecNode,
+  txHash: TxHash,
+  onUpdate?: TxLifecycleListener,
+): Promise<TxReceipt> {
+  const startTime = Date.now();
+  let lastStage: TxStage | null = null;
+
+  while (Date.now() - startTime < MINING_TIMEOUT_MS) {
+    let receipt: TxReceipt;
+    try {
+      receipt = await node.getTxReceipt(txHash);
+    } catch (error) {
+      // Transient node errors: the tx may still be mined, so keep polling until the timeout
+      console.warn(`Error fetching the receipt of ${txHash.toString()}:`, error);
+      await sleep(RECEIPT_POLL_INTERVAL_MS);
+      continue;
+    }
+    const stage = getReceiptStage(receipt);
+
+    if (stage === 'dropped' && Date.now() - startTime < DROPPED_GRACE_PERIOD_MS) {
+      await sleep(RECEIPT_POLL_INTERVAL_MS);
+      continue;
+    }
+
+    if (stage !== lastStage) {
+      lastStage = stage;
+      onUpdate?.(getReceiptUpdate(receipt));
+    }
+
+    if (stage === 'dropped') {
+      throw new Error(`Transaction ${txHash.toString()} was dropped. Reason: ${receipt.error ?? 'unknown'}`);
+    }
+    if (stage === 'mined' || stage === 'finalized') {
+      if (!receipt.hasExecutionSucceeded()) {
+        throw new Error(`Transaction ${txHash.toString()} reverted. Reason: ${receipt.error ?? 'unknown'}`);
+      }
+      return receipt;
+    }
+
+    await sleep(RECEIPT_POLL_INTERVAL_MS);
+  }
+
+  throw new Error(`Timed out waiting for transaction ${txHash.toString()} to be mined`);
+}
+
+/**
+ * Keeps polling a mined tx until its block is finalized, or the tx disappears in a reorg.
+ * Returns a function that stops watching.
+ */
+export function watchFinalization(node: AztecNode, txHash: TxHash, onUpdate: TxLifecycleListener): () => void {
+  let stopped = false;
+
+  async function poll() {
+    while (!stopped) {
+      await sleep(FINALIZATION_POLL_INTERVAL_MS);
+      if (stopped) return;
+
+      try {
+        const receipt = await node.getTxReceipt(txHash);
+        const stage = getReceiptStage(receipt);
+        if (stopped) return;
+        if (stage === 'finalized' || stage === 'dropped') {
+          onUpdate(getReceiptUpdate(receipt));
+          return;
+        }
+      } catch {
+        // Transient node errors: try again on the next tick
+      }
+    }
+  }
+
+  poll();
+  return () => {
+    stopped = true;
+  };
+}
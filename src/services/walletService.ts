@@ -4,7 +4,7 @@
  */
 
 import { createAztecNodeClient, type AztecNode } from '@aztec/aztec.js/node';
-import type { Wallet } from '@aztec/aztec.js/wallet';
+import { AccountManager, type Wallet } from '@aztec/aztec.js/wallet';
 import type { ChainInfo } from '@aztec/aztec.js/account';
 import { Fr } from '@aztec/aztec.js/fields';
 import {
@@ -14,7 +14,7 @@ import {
   type DiscoverySession,
 } from '@aztec/wallet-sdk/manager';
 import type { AztecAddress } from '@aztec/aztec.js/addresses';
-import { EmbeddedWallet } from '@gregojuice/embedded-wallet';
+import { EmbeddedWallet, computeContractSalt, createSchnorrInitializerlessAccount } from '@gregojuice/embedded-wallet';
 import type { NetworkConfig } from '../config/networks';
 
 /**
@@ -48,6 +48,37 @@ export async function createEmbeddedWallet(
   return { wallet, address: accountManager.address };
 }
 
+/**
+ * Bearer accounts are initializerless Schnorr accounts with a fixed salt, so the secret key alone
+ * recovers them. Whoever holds the key can spend what was sent to the account.
+ */
+const BEARER_ACCOUNT_SALT = Fr.ZERO;
+
+/**
+ * Generates a throwaway account key for a bearer link and computes the account's address.
+ * Nothing is registered: the sender only needs the address to send to.
+ */
+export async function createBearerAccount(wallet: Wallet): Promise<{ secretKey: Fr; address: AztecAddress }> {
+  const secretKey = Fr.random();
+  const { account, signingPublicKey } = await createSchnorrInitializerlessAccount(secretKey);
+  const salt = await computeContractSalt(BEARER_ACCOUNT_SALT, signingPublicKey);
+  const accountManager = await AccountManager.create(wallet, secretKey, account, salt);
+  return { secretKey, address: accountManager.address };
+}
+
+/**
+ * Opens a bearer account in its own in-memory embedded wallet, so its key never touches the user's
+ * wallet or storage. Stop the wallet once the account has been swept.
+ */
+export async function openBearerWallet(
+  node: AztecNode,
+  secretKey: Fr,
+): Promise<{ wallet: EmbeddedWallet; address: AztecAddress }> {
+  const wallet = await EmbeddedWallet.create(node, { ephemeral: true, pxeConfig: { proverEnabled: true } });
+  const accountManager = await wallet.createInitializerlessAccount(secretKey, BEARER_ACCOUNT_SALT);
+  return { wallet, address: accountManager.address };
+}
+
 /**
  * Gets the chain info from a network configuration
  */
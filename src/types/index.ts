@@ -1,10 +1,67 @@
 /**
- * Token balances
+ * Key of a token in the network config's token list, matching the contract instances in SwapContracts
  */
-export interface Balances {
-  gregoCoin: bigint | null;
-  gregoCoinPremium: bigint | null;
+export type TokenKey = string;
+
+/**
+ * Token balances, keyed by token
+ */
+export type Balances = Record<TokenKey, bigint | null>;
+
+/**
+ * Public balances of an AMM, i.e. the pool reserves used for pricing swaps, keyed by the pool's two tokens
+ */
+export type PoolReserves = Record<TokenKey, bigint>;
+
+/**
+ * Input and output token of a swap
+ */
+export interface SwapDirection {
+  tokenIn: TokenKey;
+  tokenOut: TokenKey;
+}
+
+/**
+ * Which side of the swap is fixed: the amount sent (exact input) or the amount received (exact output)
+ */
+export type SwapMode = 'exactIn' | 'exactOut';
+
+/**
+ * Amounts for a swap in base units, including the slippage bound on the side that is not fixed
+ */
+export type SwapAmounts =
+  | { mode: 'exactIn'; amountIn: bigint; amountOutMin: bigint }
+  | { mode: 'exactOut'; amountOut: bigint; amountInMax: bigint };
+
+/**
+ * Bounds for a liquidity deposit in base units. The AMM takes up to the maximum of each token at the
+ * current pool ratio and reverts if that would put either side below its minimum.
+ */
+export interface AddLiquidityAmounts {
+  amount0Max: bigint;
+  amount1Max: bigint;
+  amount0Min: bigint;
+  amount1Min: bigint;
+}
+
+/**
+ * LQT to burn when withdrawing liquidity, with the least of each token the withdrawal accepts
+ */
+export interface RemoveLiquidityAmounts {
+  liquidity: bigint;
+  amount0Min: bigint;
+  amount1Min: bigint;
 }
 
+/**
+ * The same pair traded the other way round
+ */
+export function oppositeDirection({ tokenIn, tokenOut }: SwapDirection): SwapDirection {
+  return { tokenIn: tokenOut, tokenOut: tokenIn };
+}
+
+/** Decimals assumed for tokens when the network config doesn't list them */
+export const DEFAULT_TOKEN_DECIMALS = 18;
+
 export const GREGOCOIN_USD_PRICE = 10;
-export const EXCHANGE_RATE_POLL_INTERVAL_MS = 10000;
+export const GREGOCOIN_PREMIUM_USD_PRICE = GREGOCOIN_USD_PRICE * 5;
@@ -0,0 +1,24 @@
+/**
+ * CSV
+ * Builds CSV files for download, quoting only the cells that need it
+ */
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(header: string[], rows: string[][]): string {
+  return [header, ...rows].map(cells => cells.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Hands the file to the browser as a download
+ */
+export function downloadFile(fileName: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,75 @@
+/**
+ * Token Amount
+ * Converts between user-facing decimal strings and on-chain base units without going through floats
+ */
+
+export class TokenAmount {
+  readonly raw: bigint;
+  readonly decimals: number;
+
+  constructor(raw: bigint, decimals: number) {
+    this.raw = raw;
+    this.decimals = decimals;
+  }
+
+  /**
+   * Parses a decimal string such as "1.5" into base units.
+   * Returns null for malformed input or more fraction digits than the token supports.
+   */
+  static parse(value: string, decimals: number): TokenAmount | null {
+    const match = /^(\d*)(?:\.(\d*))?$/.exec(value.trim());
+    if (!match) return null;
+
+    const [, whole, fraction = ''] = match;
+    if (whole === '' && fraction === '') return null;
+    if (fraction.length > decimals) return null;
+
+    const raw = BigInt(whole || '0') * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+    return new TokenAmount(raw, decimals);
+  }
+
+  /**
+   * Formats as a plain decimal string without grouping, trimming trailing zeros.
+   * Digits beyond `maxFractionDigits` are truncated, never rounded up, unless that would hide a non-zero amount.
+   */
+  format(maxFractionDigits = this.decimals): string {
+    const base = 10n ** BigInt(this.decimals);
+    const whole = this.raw / base;
+    const allDigits = (this.raw % base).toString().padStart(this.decimals, '0');
+
+    let fraction = allDigits.slice(0, maxFractionDigits).replace(/0+$/, '');
+    if (whole === 0n && fraction === '' && this.raw > 0n) {
+      fraction = allDigits.replace(/0+$/, '');
+    }
+    return fraction ? `${whole}.${fraction}` : whole.toString();
+  }
+
+  /**
+   * Approximate value as a float. Only for display math such as USD estimates.
+   */
+  toNumber(): number {
+    return Number(this.format());
+  }
+}
+
+/**
+ * Parses user input into base units, or null if it isn't a valid amount for the token
+ */
+export function parseTokenAmount(value: string, decimals: number): bigint | null {
+  return TokenAmount.parse(value, decimals)?.raw ?? null;
+}
+
+/**
+ * Formats base units for display
+ */
+export function formatTokenAmount(raw: bigint, decimals: number, maxFractionDigits?: number): string {
+  return new TokenAmount(raw, decimals).format(maxFractionDigits);
+}
+
+/**
+ * Reads an amount persisted in a claim link or the sent history. These hold base units as an integer
+ * string; entries written before amounts were decimal-aware may hold a plain number, rounded the same way.
+ */
+export function parseStoredAmount(amount: string): bigint {
+  return /^\d+$/.test(amount) ? BigInt(amount) : BigInt(Math.round(parseFloat(amount)));
+}